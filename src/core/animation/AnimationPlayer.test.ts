@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Animation, Scene, type Engine, type Node } from '@babylonjs/core';
+import { AnimationPlayer } from './AnimationPlayer';
+import type { AnimatableProperty, AnimationDefinition } from '../../schema/game.schema';
+
+const PATHS: Record<AnimatableProperty, string | null> = {
+    position: 'position',
+    rotation: 'rotation',
+    scale: 'scaling',
+    color: 'material.diffuseColor',
+    intensity: null,
+};
+
+const bob: AnimationDefinition = {
+    target: 'door',
+    tracks: [
+        { property: 'position', keyframes: [{ time: 0, value: [0, 0, 0] }, { time: 2, value: [0, 3, 0] }], easing: 'easeOut' },
+        { property: 'rotation', keyframes: [{ time: 0, value: [0, 0, 0] }, { time: 1, value: [0, 90, 0] }] },
+    ],
+    onComplete: 'door.opened',
+};
+
+describe('AnimationPlayer', () => {
+    let scene: Scene;
+    let beginDirectAnimation: ReturnType<typeof vi.fn>;
+    let publish: ReturnType<typeof vi.fn<(eventName: string, payload: object) => void>>;
+    let nodes: Map<string, Node>;
+    let player: AnimationPlayer;
+
+    beforeEach(() => {
+        scene = new Scene({} as Engine);
+        beginDirectAnimation = scene.beginDirectAnimation as unknown as ReturnType<typeof vi.fn>;
+        publish = vi.fn();
+        nodes = new Map([['door', {} as Node], ['gate', {} as Node]]);
+        player = new AnimationPlayer(scene, publish, (id) => nodes.get(id), (_id, property) => PATHS[property]);
+    });
+
+    /** Arguments of the nth beginDirectAnimation call. */
+    function started(n = 0): any[] {
+        return beginDirectAnimation.mock.calls[n]!;
+    }
+
+    it('builds a Babylon animation per track over the longest track', () => {
+        player.play('open', bob);
+
+        const [target, animations, from, to, loop, speed] = started();
+        expect(target).toBe(nodes.get('door'));
+        expect([from, to, loop, speed]).toEqual([0, 120, false, 1]);
+
+        const [position, rotation] = animations as any[];
+        expect(position.targetProperty).toBe('position');
+        expect(position.loopMode).toBe(Animation.ANIMATIONLOOPMODE_CONSTANT);
+        expect(position.keys.map((k: any) => k.frame)).toEqual([0, 120]);
+        expect(position.easing).not.toBeNull();
+        expect(rotation.keys[1].value.y).toBeCloseTo(Math.PI / 2);
+        expect(rotation.easing).toBeNull();
+    });
+
+    it('plays on another node and skips tracks the node cannot take', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        player.play('glow', {
+            target: 'door',
+            tracks: [
+                { property: 'intensity', keyframes: [{ time: 1, value: 2 }] },
+                { property: 'scale', keyframes: [{ time: 1, value: [2, 2, 2] }] },
+            ],
+        }, 'gate');
+
+        expect(started()[0]).toBe(nodes.get('gate'));
+        expect(started()[1]).toHaveLength(1);
+        expect(player.getAnimatedProperties('gate')).toEqual(new Set(['scale']));
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('has no intensity'));
+
+        warn.mockRestore();
+    });
+
+    it('publishes onComplete when a once animation ends, but not when it is stopped', () => {
+        player.play('open', bob);
+        const onEnd = started()[6] as () => void;
+        onEnd();
+        expect(publish).toHaveBeenCalledWith('door.opened', { nodeId: 'door', animation: 'open' });
+
+        publish.mockClear();
+        player.play('open', bob);
+        const animatable = beginDirectAnimation.mock.results[1]!.value;
+        player.stop('open');
+        (started(1)[6] as () => void)();
+
+        expect(animatable.stop).toHaveBeenCalled();
+        expect(publish).not.toHaveBeenCalled();
+    });
+
+    it('loops and ping-pongs, completing once per cycle', () => {
+        player.play('spin', { ...bob, loop: 'loop', speed: 2 });
+        player.play('sway', { ...bob, loop: 'pingPong' }, 'gate');
+
+        expect(started(0)[4]).toBe(true);
+        expect(started(0)[5]).toBe(2);
+        expect(started(0)[1][0].loopMode).toBe(Animation.ANIMATIONLOOPMODE_CYCLE);
+        expect(started(1)[1][0].loopMode).toBe(Animation.ANIMATIONLOOPMODE_YOYO);
+
+        (started(0)[7] as () => void)();
+        expect(publish).toHaveBeenCalledWith('door.opened', { nodeId: 'door', animation: 'spin' });
+    });
+
+    it('restarts a running animation and hands properties back on stopAll', () => {
+        player.play('open', bob);
+        const first = beginDirectAnimation.mock.results[0]!.value;
+        player.play('open', bob);
+
+        expect(first.stop).toHaveBeenCalled();
+        expect(player.getAnimatedProperties('door')).toEqual(new Set(['position', 'rotation']));
+
+        player.stopAll();
+        expect(beginDirectAnimation.mock.results[1]!.value.stop).toHaveBeenCalled();
+        expect(player.getAnimatedProperties('door').size).toBe(0);
+    });
+});
@@ -0,0 +1,191 @@
+/**
+ * AnimationPlayer.ts
+ *
+ * Plays the scene's keyframe animations (SceneData.animations) on Babylon
+ * nodes through Babylon's Animation system. Animations only run while
+ * playing; the reconciler starts the auto-playing ones, actions start and
+ * stop the rest, and everything stops when play stops.
+ *
+ * Properties an animation has driven during the current play session
+ * belong to it: the reconciler leaves them alone until play stops, so a
+ * finished "once" animation keeps its last keyframe.
+ *
+ * Loop modes
+ * ──────────
+ *   once     → plays to the last keyframe and holds it
+ *   loop     → restarts from the first keyframe
+ *   pingPong → plays forwards, then backwards, and so on
+ */
+
+import {
+    Animation,
+    Color3,
+    EasingFunction,
+    QuadraticEase,
+    Vector3,
+    type Animatable,
+    type Node,
+    type Scene,
+} from '@babylonjs/core';
+import type {
+    AnimatableProperty,
+    AnimationDefinition,
+    AnimationKeyframe,
+    Easing,
+} from '../../schema/game.schema';
+import type { EventPayload } from '../bus/EventBus';
+
+type Publish = (eventName: string, payload: EventPayload) => void;
+
+/** Keyframe times are seconds; Babylon counts frames. */
+const FRAMES_PER_SECOND = 60;
+
+const NO_PROPERTIES: ReadonlySet<AnimatableProperty> = new Set();
+
+const DATA_TYPES: Record<AnimatableProperty, number> = {
+    position: Animation.ANIMATIONTYPE_VECTOR3,
+    rotation: Animation.ANIMATIONTYPE_VECTOR3,
+    scale: Animation.ANIMATIONTYPE_VECTOR3,
+    color: Animation.ANIMATIONTYPE_COLOR3,
+    intensity: Animation.ANIMATIONTYPE_FLOAT,
+};
+
+const LOOP_MODES: Record<NonNullable<AnimationDefinition['loop']>, number> = {
+    once: Animation.ANIMATIONLOOPMODE_CONSTANT,
+    loop: Animation.ANIMATIONLOOPMODE_CYCLE,
+    pingPong: Animation.ANIMATIONLOOPMODE_YOYO,
+};
+
+const EASING_MODES: Record<Exclude<Easing, 'linear'>, number> = {
+    easeIn: EasingFunction.EASINGMODE_EASEIN,
+    easeOut: EasingFunction.EASINGMODE_EASEOUT,
+    easeInOut: EasingFunction.EASINGMODE_EASEINOUT,
+};
+
+interface RunningAnimation {
+    animationId: string;
+    nodeId: string;
+    animatable: Animatable;
+}
+
+export class AnimationPlayer {
+    /** Running animations, keyed by `<animationId>:<nodeId>` */
+    private running: Map<string, RunningAnimation> = new Map();
+    private animated: Map<string, Set<AnimatableProperty>> = new Map();
+
+    constructor(
+        private scene: Scene,
+        private publish: Publish,
+        private getNode: (id: string) => Node | undefined,
+        /** Path of a property on the node's Babylon object, or null if it has none */
+        private getPropertyPath: (nodeId: string, property: AnimatableProperty) => string | null,
+    ) { }
+
+    // ── Public API ───────────────────────────────────────────────────────────
+
+    /** Play an animation on its target (or `nodeId`), restarting it if it is already running there. */
+    play(animationId: string, definition: AnimationDefinition, nodeId = definition.target): void {
+        const target = this.getNode(nodeId);
+        if (!target) {
+            console.warn(`[AnimationPlayer] Cannot play "${animationId}": node "${nodeId}" does not exist`);
+            return;
+        }
+        this.stop(animationId, nodeId);
+
+        const loop = definition.loop ?? 'once';
+        const animations: Animation[] = [];
+        let lastFrame = 0;
+
+        for (const track of definition.tracks) {
+            const path = this.getPropertyPath(nodeId, track.property);
+            if (!path) {
+                console.warn(`[AnimationPlayer] "${nodeId}" has no ${track.property} to animate in "${animationId}"`);
+                continue;
+            }
+
+            const animation = new Animation(
+                `${animationId}_${track.property}`,
+                path,
+                FRAMES_PER_SECOND,
+                DATA_TYPES[track.property],
+                LOOP_MODES[loop],
+            );
+            animation.setKeys(track.keyframes.map((keyframe) => ({
+                frame: keyframe.time * FRAMES_PER_SECOND,
+                value: toBabylonValue(track.property, keyframe.value),
+            })));
+            if (track.easing && track.easing !== 'linear') {
+                const easing = new QuadraticEase();
+                easing.setEasingMode(EASING_MODES[track.easing]);
+                animation.setEasingFunction(easing);
+            }
+
+            animations.push(animation);
+            lastFrame = Math.max(lastFrame, track.keyframes[track.keyframes.length - 1]!.time * FRAMES_PER_SECOND);
+
+            const properties = this.animated.get(nodeId) ?? new Set();
+            properties.add(track.property);
+            this.animated.set(nodeId, properties);
+        }
+
+        if (animations.length === 0) return;
+
+        const key = `${animationId}:${nodeId}`;
+        const complete = () => {
+            if (definition.onComplete) this.publish(definition.onComplete, { nodeId, animation: animationId });
+        };
+        const animatable = this.scene.beginDirectAnimation(
+            target,
+            animations,
+            0,
+            lastFrame,
+            loop !== 'once',
+            definition.speed ?? 1,
+            () => {
+                // Stopping an animatable also ends it; only report real completions
+                if (this.running.get(key)?.animatable !== animatable) return;
+                this.running.delete(key);
+                complete();
+            },
+            loop !== 'once' ? complete : undefined,
+        );
+        this.running.set(key, { animationId, nodeId, animatable });
+    }
+
+    /** Stop an animation where it is (on `nodeId` only, if given); nodes keep their current pose. */
+    stop(animationId: string, nodeId?: string): void {
+        for (const [key, running] of this.running) {
+            if (running.animationId !== animationId || (nodeId !== undefined && running.nodeId !== nodeId)) continue;
+            this.running.delete(key);
+            running.animatable.stop();
+        }
+    }
+
+    /** Play stopped or the scene changed — stop everything and hand properties back to the reconciler. */
+    stopAll(): void {
+        const stopped = [...this.running.values()];
+        this.running.clear();
+        this.animated.clear();
+        for (const running of stopped) running.animatable.stop();
+    }
+
+    /** Properties of a node that animations have driven since play started. */
+    getAnimatedProperties(nodeId: string): ReadonlySet<AnimatableProperty> {
+        return this.animated.get(nodeId) ?? NO_PROPERTIES;
+    }
+
+    dispose(): void {
+        this.stopAll();
+    }
+}
+
+function toBabylonValue(property: AnimatableProperty, value: AnimationKeyframe['value']): Vector3 | Color3 | number {
+    if (property === 'color') return Color3.FromHexString(value as string);
+    if (property === 'intensity') return value as number;
+
+    const [x, y, z] = value as [number, number, number];
+    // Rotations are authored in degrees
+    return property === 'rotation'
+        ? new Vector3(x * Math.PI / 180, y * Math.PI / 180, z * Math.PI / 180)
+        : new Vector3(x, y, z);
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { AnimationGroup } from '@babylonjs/core';
+import { ClipPlayer } from './ClipPlayer';
+
+function mockGroup(targetedAnimations: { target: any; animation: { targetProperty: string } }[] = []): AnimationGroup {
+    return {
+        start: vi.fn(),
+        stop: vi.fn(),
+        dispose: vi.fn(),
+        targetedAnimations,
+    } as unknown as AnimationGroup;
+}
+
+describe('ClipPlayer', () => {
+    let player: ClipPlayer;
+    let idle: AnimationGroup;
+    let run: AnimationGroup;
+
+    beforeEach(() => {
+        player = new ClipPlayer();
+        idle = mockGroup();
+        run = mockGroup();
+        player.register('hero', new Map([['Idle', idle], ['Run', run]]));
+    });
+
+    it('lists the clips of registered models', () => {
+        expect(player.hasClips('hero')).toBe(true);
+        expect(player.getClipNames('hero')).toEqual(['Idle', 'Run']);
+        expect(player.hasClips('crate')).toBe(false);
+        expect(player.getClipNames('crate')).toEqual([]);
+    });
+
+    it('switches between clips, stopping the previous one', () => {
+        player.play('hero', 'Idle', { loop: true, speed: 1 });
+        player.play('hero', 'Run', { loop: false, speed: 1.5 });
+
+        expect(idle.start).toHaveBeenCalledWith(true, 1);
+        expect(idle.stop).toHaveBeenCalled();
+        expect(run.start).toHaveBeenCalledWith(false, 1.5);
+    });
+
+    it('warns about unknown clips with the available names', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        player.play('hero', 'Dance', { loop: true, speed: 1 });
+
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Available clips: Idle, Run'));
+        warn.mockRestore();
+    });
+
+    it('returns models to the pose they had before their first clip on stopAll', () => {
+        const arm = { rotation: { x: 0, y: 0 }, scaling: 1 };
+        const wave = mockGroup([
+            { target: arm, animation: { targetProperty: 'rotation.x' } },
+            { target: arm, animation: { targetProperty: 'scaling' } },
+        ]);
+        const point = mockGroup([{ target: arm, animation: { targetProperty: 'rotation.x' } }]);
+        player.register('robot', new Map([['Wave', wave], ['Point', point]]));
+
+        player.play('robot', 'Wave', { loop: true, speed: 1 });
+        arm.rotation.x = 1;
+        arm.scaling = 2;
+        player.play('robot', 'Point', { loop: false, speed: 1 });
+        arm.rotation.x = 3;
+        player.stop('robot');
+
+        player.stopAll();
+        expect(point.stop).toHaveBeenCalled();
+        expect(arm).toEqual({ rotation: { x: 0, y: 0 }, scaling: 1 });
+
+        // The next session captures its own rest pose
+        arm.scaling = 5;
+        player.play('robot', 'Wave', { loop: true, speed: 1 });
+        arm.scaling = 6;
+        player.stopAll();
+        expect(arm.scaling).toBe(5);
+    });
+
+    it('disposes the clips of removed nodes', () => {
+        player.remove('hero');
+
+        expect(idle.dispose).toHaveBeenCalled();
+        expect(run.dispose).toHaveBeenCalled();
+        expect(player.hasClips('hero')).toBe(false);
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * ClipPlayer.ts
+ *
+ * Plays the animation clips embedded in GLB models (Babylon animation
+ * groups). The reconciler registers each asset node's clips once its model
+ * has loaded; a node plays at most one clip at a time, so playing another
+ * clip switches to it. Clips only run while playing: when play stops every
+ * model goes back to the pose it had before its first clip started.
+ */
+
+import type { AnimationGroup } from '@babylonjs/core';
+
+/** Detail of the `assets:animation_clips` window event, sent when a model's clips are known. */
+export interface AnimationClipsDetail {
+    /** Asset key in the manifest */
+    asset: string;
+    clips: string[];
+}
+
+export interface ClipOptions {
+    loop: boolean;
+    speed: number;
+}
+
+/** A value a clip animates, as it was before the clip first touched it. */
+interface PoseValue {
+    target: any;
+    property: string;
+    value: unknown;
+}
+
+export class ClipPlayer {
+    /** Clips of each loaded model: nodeId → clip name → animation group */
+    private clips: Map<string, Map<string, AnimationGroup>> = new Map();
+    /** Clip each node last started this play session (playing, finished or stopped): nodeId → group */
+    private current: Map<string, AnimationGroup> = new Map();
+    /** Rest pose of each node whose clips ran this play session: nodeId → animated values */
+    private restPose: Map<string, PoseValue[]> = new Map();
+
+    // ── Public API ───────────────────────────────────────────────────────────
+
+    /** A node's model has loaded with these clips, by name. */
+    register(nodeId: string, clips: Map<string, AnimationGroup>): void {
+        this.remove(nodeId);
+        this.clips.set(nodeId, clips);
+    }
+
+    /** The node is gone — stop and dispose its clips. */
+    remove(nodeId: string): void {
+        this.stop(nodeId);
+        this.current.delete(nodeId);
+        this.restPose.delete(nodeId);
+        for (const group of this.clips.get(nodeId)?.values() ?? []) {
+            group.dispose();
+        }
+        this.clips.delete(nodeId);
+    }
+
+    hasClips(nodeId: string): boolean {
+        return this.clips.has(nodeId);
+    }
+
+    getClipNames(nodeId: string): string[] {
+        return [...this.clips.get(nodeId)?.keys() ?? []];
+    }
+
+    /** Switch a node to one of its clips, from the start. */
+    play(nodeId: string, clip: string, options: ClipOptions): void {
+        const group = this.clips.get(nodeId)?.get(clip);
+        if (!group) {
+            const available = this.getClipNames(nodeId);
+            console.warn(
+                `[ClipPlayer] Node "${nodeId}" has no clip "${clip}". Available clips: ${available.join(', ') || '(none)'}`,
+            );
+            return;
+        }
+
+        this.stop(nodeId);
+        this.captureRestPose(nodeId, group);
+        group.start(options.loop, options.speed);
+        this.current.set(nodeId, group);
+    }
+
+    /** Stop a node's clip where it is. */
+    stop(nodeId: string): void {
+        this.current.get(nodeId)?.stop();
+    }
+
+    /** Play stopped — stop every clip and return the models to their rest pose. */
+    stopAll(): void {
+        for (const group of this.current.values()) {
+            group.stop();
+        }
+        for (const pose of this.restPose.values()) {
+            for (const { target, property, value } of pose) {
+                setProperty(target, property, cloneValue(value));
+            }
+        }
+        this.current.clear();
+        this.restPose.clear();
+    }
+
+    dispose(): void {
+        for (const nodeId of [...this.clips.keys()]) {
+            this.remove(nodeId);
+        }
+    }
+
+    // ── Internals ────────────────────────────────────────────────────────────
+
+    /** Remember what a clip is about to animate, unless an earlier clip already did. */
+    private captureRestPose(nodeId: string, group: AnimationGroup): void {
+        const pose = this.restPose.get(nodeId) ?? [];
+        for (const { target, animation } of group.targetedAnimations) {
+            const property = animation.targetProperty;
+            if (pose.some((p) => p.target === target && p.property === property)) continue;
+            pose.push({ target, property, value: cloneValue(getProperty(target, property)) });
+        }
+        this.restPose.set(nodeId, pose);
+    }
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Read an animated property, which may be a dotted path such as "position.x". */
+function getProperty(target: any, path: string): unknown {
+    return path.split('.').reduce((obj, key) => obj?.[key], target);
+}
+
+function setProperty(target: any, path: string, value: unknown): void {
+    const keys = path.split('.');
+    const last = keys.pop()!;
+    const owner = keys.reduce((obj, key) => obj?.[key], target);
+    if (owner) owner[last] = value;
+}
+
+/** Copy Babylon math values (Vector3, Quaternion, …) so later frames can't change the snapshot. */
+function cloneValue(value: unknown): unknown {
+    return typeof (value as { clone?: unknown })?.clone === 'function' ? (value as { clone(): unknown }).clone() : value;
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+import { Scene, Sound, type Engine, type TransformNode } from '@babylonjs/core';
+import { AudioManager } from './AudioManager';
+
+/** The mocked Sound from setupTests, with its constructor arguments. */
+interface MockSound {
+    name: string;
+    url: string;
+    options: Record<string, unknown>;
+    readyToPlayCallback: () => void;
+    play: Mock;
+    stop: Mock;
+    dispose: Mock;
+    attachToMesh: Mock;
+    onEndedObservable: { add: Mock };
+}
+
+const sounds = (Sound as unknown as { instances: MockSound[] }).instances;
+
+/** Mark the nth created sound loaded. */
+function loaded(index: number): MockSound {
+    const sound = sounds[index]!;
+    sound.readyToPlayCallback();
+    return sound;
+}
+
+describe('AudioManager', () => {
+    let nodes: Map<string, TransformNode>;
+    let audio: AudioManager;
+
+    beforeEach(() => {
+        sounds.length = 0;
+        nodes = new Map([['radio', { name: 'radio' } as TransformNode]]);
+        audio = new AudioManager(new Scene({} as Engine), (id) => nodes.get(id));
+    });
+
+    it('creates sources silently and auto-plays them when play starts', () => {
+        audio.add('radio', { type: 'audioSource', sound: 'song', loop: true, volume: 0.5, autoPlay: true }, '/audio/song.mp3');
+        const sound = loaded(0);
+
+        expect(sound.url).toBe('/audio/song.mp3');
+        expect(sound.options).toMatchObject({ autoplay: false, loop: true, volume: 0.5, spatialSound: true });
+        expect(sound.play).not.toHaveBeenCalled();
+
+        audio.start();
+        expect(sound.attachToMesh).toHaveBeenCalledWith(nodes.get('radio'));
+        expect(sound.play).toHaveBeenCalledTimes(1);
+    });
+
+    it('plays a source once it has loaded if asked earlier', () => {
+        audio.add('radio', { type: 'audioSource', sound: 'song', spatial: false }, '/audio/song.mp3');
+        audio.start();
+        expect(sounds[0]!.play).not.toHaveBeenCalled();
+
+        audio.play('radio');
+        const sound = loaded(0);
+
+        expect(sound.play).toHaveBeenCalledTimes(1);
+        expect(sound.attachToMesh).not.toHaveBeenCalled();
+    });
+
+    it('plays one-shots in 2D or at a node and disposes them when they end', () => {
+        audio.playOneShot('coin', '/audio/coin.wav', { volume: 0.8 });
+        audio.playOneShot('coin', '/audio/coin.wav', { nodeId: 'radio' });
+        const [flat, positioned] = [loaded(0), loaded(1)];
+
+        expect(flat.options).toMatchObject({ volume: 0.8, spatialSound: false });
+        expect(positioned.options).toMatchObject({ spatialSound: true });
+        expect(positioned.attachToMesh).toHaveBeenCalledWith(nodes.get('radio'));
+        expect(flat.play).toHaveBeenCalled();
+
+        const onEnded = flat.onEndedObservable.add.mock.calls[0]![0] as () => void;
+        onEnded();
+        expect(flat.dispose).toHaveBeenCalled();
+    });
+
+    describe('one-shots that never load', () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('are dropped after a while', () => {
+            vi.useFakeTimers();
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            audio.playOneShot('coin', '/audio/missing.wav');
+            audio.playOneShot('jump', '/audio/jump.wav');
+            const jump = loaded(1);
+
+            vi.advanceTimersByTime(10_000);
+
+            expect(sounds[0]!.dispose).toHaveBeenCalledTimes(1);
+            expect(jump.dispose).not.toHaveBeenCalled();
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining('/audio/missing.wav'));
+
+            // Gone from the set, so stopping doesn't touch it again
+            audio.stopAll();
+            expect(sounds[0]!.dispose).toHaveBeenCalledTimes(1);
+            warn.mockRestore();
+        });
+    });
+
+    it('stops sounds by node, by asset or both', () => {
+        audio.add('radio', { type: 'audioSource', sound: 'song' }, '/audio/song.mp3');
+        audio.start();
+        audio.play('radio');
+        audio.playOneShot('song', '/audio/song.mp3');
+        audio.playOneShot('coin', '/audio/coin.wav', { nodeId: 'radio' });
+        const [source, song, coin] = [loaded(0), loaded(1), loaded(2)];
+
+        audio.stop({ soundKey: 'coin', nodeId: 'radio' });
+        expect(coin.dispose).toHaveBeenCalled();
+        expect(source.stop).not.toHaveBeenCalled();
+
+        audio.stop({ soundKey: 'song' });
+        expect(source.stop).toHaveBeenCalled();
+        expect(song.dispose).toHaveBeenCalled();
+    });
+
+    it('silences everything on stopAll and stops auto-playing new sources', () => {
+        audio.start();
+        audio.playOneShot('coin', '/audio/coin.wav');
+        audio.stopAll();
+        expect(sounds[0]!.dispose).toHaveBeenCalled();
+
+        // A pending one-shot must not start once it loads
+        loaded(0);
+        expect(sounds[0]!.play).not.toHaveBeenCalled();
+
+        audio.add('radio', { type: 'audioSource', sound: 'song', autoPlay: true }, '/audio/song.mp3');
+        loaded(1);
+        expect(sounds[1]!.play).not.toHaveBeenCalled();
+    });
+});
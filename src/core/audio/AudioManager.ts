@@ -0,0 +1,210 @@
+/**
+ * AudioManager.ts
+ *
+ * Sound for nodes with an `audioSource` component and one-shot sounds
+ * started by `play_sound`, backed by Babylon's Sound. Sounds load while
+ * editing but only play while playing: `start` begins the auto-playing
+ * sources, `stopAll` silences everything when play stops.
+ *
+ * Spatial sounds are heard from their node's position and fade with
+ * distance from the active camera; 2D sounds play at the same volume
+ * everywhere.
+ */
+
+import { Sound, type Scene, type TransformNode } from '@babylonjs/core';
+import type { AudioSourceComponent } from '../../schema/game.schema';
+
+const DEFAULT_MAX_DISTANCE = 100;
+/**
+ * One-shots still not loaded after this long (bad URL, undecodable file) are
+ * dropped. Babylon's Sound reports load errors only to the console.
+ */
+const ONE_SHOT_LOAD_TIMEOUT_MS = 10_000;
+
+/** A sound and what it belongs to, so stop_sound can find it by node or asset. */
+interface Playback {
+    sound: Sound;
+    /** Audio asset key */
+    soundKey: string;
+    nodeId?: string;
+    /** Loaded and able to play */
+    ready: boolean;
+    /** Asked to play before it had loaded */
+    pending: boolean;
+}
+
+interface Source extends Playback {
+    component: AudioSourceComponent;
+}
+
+export interface OneShotOptions {
+    /** Play it from this node's position instead of in 2D */
+    nodeId?: string;
+    /** 0–1 (default 1) */
+    volume?: number;
+}
+
+/** Which sounds to stop: those of a node, of an asset, or both. */
+export interface SoundFilter {
+    nodeId?: string;
+    soundKey?: string;
+}
+
+export class AudioManager {
+    private sources: Map<string, Source> = new Map();
+    private oneShots: Set<Playback> = new Set();
+    private playing = false;
+
+    constructor(
+        private scene: Scene,
+        private getNode: (id: string) => TransformNode | undefined,
+    ) { }
+
+    // ── Public API ───────────────────────────────────────────────────────────
+
+    /** Register a node's audio source. Sources added during play auto-play right away. */
+    add(nodeId: string, component: AudioSourceComponent, url: string): void {
+        this.remove(nodeId);
+
+        const spatial = component.spatial ?? true;
+        const source: Source = {
+            component,
+            soundKey: component.sound,
+            nodeId,
+            ready: false,
+            pending: false,
+            sound: new Sound(`${nodeId}_audio`, url, this.scene, () => this.onReady(source), {
+                autoplay: false,
+                loop: component.loop ?? false,
+                volume: component.volume ?? 1,
+                spatialSound: spatial,
+                maxDistance: component.maxDistance ?? DEFAULT_MAX_DISTANCE,
+            }),
+        };
+        this.sources.set(nodeId, source);
+
+        if (this.playing && component.autoPlay) this.play(nodeId);
+    }
+
+    /** Drop a node's audio source (called when the node is disposed). */
+    remove(nodeId: string): void {
+        this.stop({ nodeId });
+        this.sources.get(nodeId)?.sound.dispose();
+        this.sources.delete(nodeId);
+    }
+
+    hasSource(nodeId: string): boolean {
+        return this.sources.has(nodeId);
+    }
+
+    /** Play started — begin the auto-playing sources. */
+    start(): void {
+        this.playing = true;
+        for (const [nodeId, source] of this.sources) {
+            if (source.component.autoPlay) this.play(nodeId);
+        }
+    }
+
+    /** Play a node's audio source from the start. */
+    play(nodeId: string): void {
+        const source = this.sources.get(nodeId);
+        if (!source) {
+            console.warn(`[AudioManager] Node "${nodeId}" has no audioSource component`);
+            return;
+        }
+        if (source.component.spatial ?? true) {
+            const target = this.getNode(nodeId);
+            if (target) source.sound.attachToMesh(target);
+        }
+        this.startPlayback(source);
+    }
+
+    /** Play an audio asset once, in 2D or from a node's position, disposing it when it ends. */
+    playOneShot(soundKey: string, url: string, options: OneShotOptions = {}): void {
+        const target = options.nodeId !== undefined ? this.getNode(options.nodeId) : undefined;
+        const playback: Playback = {
+            soundKey,
+            nodeId: options.nodeId,
+            ready: false,
+            pending: false,
+            sound: new Sound(`${soundKey}_once`, url, this.scene, () => this.onReady(playback), {
+                autoplay: false,
+                volume: options.volume ?? 1,
+                spatialSound: target !== undefined,
+                maxDistance: DEFAULT_MAX_DISTANCE,
+            }),
+        };
+        if (target) playback.sound.attachToMesh(target);
+
+        const discard = () => {
+            this.oneShots.delete(playback);
+            playback.sound.dispose();
+        };
+        playback.sound.onEndedObservable.add(discard);
+        setTimeout(() => {
+            if (!playback.ready && this.oneShots.has(playback)) {
+                console.warn(`[AudioManager] Sound "${soundKey}" did not load from ${url}`);
+                discard();
+            }
+        }, ONE_SHOT_LOAD_TIMEOUT_MS);
+
+        this.oneShots.add(playback);
+        this.startPlayback(playback);
+    }
+
+    /** Stop the sources and one-shots matching every field of the filter. */
+    stop(filter: SoundFilter): void {
+        const matches = (playback: Playback) =>
+            (filter.nodeId === undefined || playback.nodeId === filter.nodeId)
+            && (filter.soundKey === undefined || playback.soundKey === filter.soundKey);
+
+        for (const source of this.sources.values()) {
+            if (matches(source)) this.stopPlayback(source);
+        }
+        for (const playback of [...this.oneShots]) {
+            if (!matches(playback)) continue;
+            this.oneShots.delete(playback);
+            this.stopPlayback(playback);
+            playback.sound.dispose();
+        }
+    }
+
+    /** Play stopped (or runtime state was reset) — silence every sound. */
+    stopAll(): void {
+        this.playing = false;
+        this.stop({});
+    }
+
+    dispose(): void {
+        this.stopAll();
+        for (const source of this.sources.values()) {
+            source.sound.dispose();
+        }
+        this.sources.clear();
+    }
+
+    // ── Internals ────────────────────────────────────────────────────────────
+
+    /** Sounds can't play before they've loaded; those asked for early start once they have. */
+    private startPlayback(playback: Playback): void {
+        if (playback.ready) {
+            playback.sound.stop();
+            playback.sound.play();
+        } else {
+            playback.pending = true;
+        }
+    }
+
+    private stopPlayback(playback: Playback): void {
+        playback.pending = false;
+        if (playback.ready) playback.sound.stop();
+    }
+
+    private onReady(playback: Playback): void {
+        playback.ready = true;
+        if (playback.pending) {
+            playback.pending = false;
+            playback.sound.play();
+        }
+    }
+}
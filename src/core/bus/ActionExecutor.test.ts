@@ -44,6 +44,145 @@ describe('ActionExecutor', () => {
 
             expect(runtimeState.getVariable('new_var')).toBe(3);
         });
+
+        it('increments by an expression over variables and the payload', () => {
+            runtimeState.initVariables({ score: 10, combo: 3 });
+
+            executeAction(
+                { type: 'increment', target: 'score', value: '$event.points * combo' },
+                { points: 5 },
+                mockReconciler
+            );
+
+            expect(runtimeState.getVariable('score')).toBe(25);
+        });
+    });
+
+    describe('variable actions', () => {
+        it('set_variable assigns a number or computed value', () => {
+            executeAction({ type: 'set_variable', target: 'lives', value: 3 }, {}, mockReconciler);
+            expect(runtimeState.getVariable('lives')).toBe(3);
+
+            executeAction({ type: 'set_variable', target: 'lives', value: 'lives - $event.damage' }, { damage: 2 }, mockReconciler);
+            expect(runtimeState.getVariable('lives')).toBe(1);
+        });
+
+        it('multiply scales the current value', () => {
+            runtimeState.initVariables({ score: 7, bonus: 3 });
+
+            executeAction({ type: 'multiply', target: 'score', value: 'bonus' }, {}, mockReconciler);
+
+            expect(runtimeState.getVariable('score')).toBe(21);
+        });
+
+        it('clamp keeps the value within min and max, each optional', () => {
+            runtimeState.initVariables({ health: 140, max_health: 100, ammo: -2 });
+
+            executeAction({ type: 'clamp', target: 'health', min: 0, max: 'max_health' }, {}, mockReconciler);
+            executeAction({ type: 'clamp', target: 'ammo', min: 0 }, {}, mockReconciler);
+
+            expect(runtimeState.getVariable('health')).toBe(100);
+            expect(runtimeState.getVariable('ammo')).toBe(0);
+        });
+
+        it('random_range picks a real number in [min, max)', () => {
+            const random = vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+            executeAction({ type: 'random_range', target: 'speed', min: 2, max: 4 }, {}, mockReconciler);
+
+            expect(runtimeState.getVariable('speed')).toBe(3);
+            random.mockRestore();
+        });
+
+        it('random_range with integer picks whole numbers including max', () => {
+            const random = vi.spyOn(Math, 'random');
+
+            random.mockReturnValue(0.999);
+            executeAction({ type: 'random_range', target: 'roll', min: 1, max: 6, integer: true }, {}, mockReconciler);
+            expect(runtimeState.getVariable('roll')).toBe(6);
+
+            random.mockReturnValue(0);
+            executeAction({ type: 'random_range', target: 'roll', min: 1, max: 6, integer: true }, {}, mockReconciler);
+            expect(runtimeState.getVariable('roll')).toBe(1);
+            random.mockRestore();
+        });
+
+        it('random_range leaves the variable alone when expression bounds are reversed', () => {
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            runtimeState.initVariables({ speed: 1, top: 2 });
+
+            executeAction({ type: 'random_range', target: 'speed', min: 'top + 1', max: 'top' }, {}, mockReconciler);
+
+            expect(runtimeState.getVariable('speed')).toBe(1);
+            expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('min 3 above max 2'));
+            warnSpy.mockRestore();
+        });
+
+        it('random_range with integer leaves the variable alone when no whole number is in range', () => {
+            const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            runtimeState.initVariables({ roll: 0 });
+
+            executeAction({ type: 'random_range', target: 'roll', min: 1.2, max: 1.8, integer: true }, {}, mockReconciler);
+
+            expect(runtimeState.getVariable('roll')).toBe(0);
+            expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('no whole number between 1.2 and 1.8'));
+            warnSpy.mockRestore();
+        });
+
+        it('copy_variable copies another variable', () => {
+            runtimeState.initVariables({ score: 42 });
+
+            executeAction({ type: 'copy_variable', target: 'high_score', from: 'score' }, {}, mockReconciler);
+
+            expect(runtimeState.getVariable('high_score')).toBe(42);
+        });
+
+        it('sets boolean, string and list variables', () => {
+            runtimeState.initVariables({ door_open: false, player_name: 'Ada', inventory: [] as string[] });
+
+            executeAction({ type: 'set_variable', target: 'door_open', value: true }, {}, mockReconciler);
+            executeAction({ type: 'set_variable', target: 'player_name', value: "'Bob'" }, {}, mockReconciler);
+            executeAction({ type: 'set_variable', target: 'inventory', value: ['key'] }, {}, mockReconciler);
+
+            expect(runtimeState.getAllVariables()).toEqual({ door_open: true, player_name: 'Bob', inventory: ['key'] });
+        });
+
+        it('refuses to change a variable\'s type', () => {
+            runtimeState.initVariables({ door_open: false, score: 3, best: 'none' });
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+            executeAction({ type: 'set_variable', target: 'door_open', value: 1 }, {}, mockReconciler);
+            executeAction({ type: 'copy_variable', target: 'best', from: 'score' }, {}, mockReconciler);
+            executeAction({ type: 'random_range', target: 'door_open', min: 0, max: 1 }, {}, mockReconciler);
+
+            expect(runtimeState.getAllVariables()).toEqual({ door_open: false, score: 3, best: 'none' });
+            expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('cannot store a number in boolean variable "door_open"'));
+            consoleSpy.mockRestore();
+        });
+
+        it('refuses numeric actions on non-number variables', () => {
+            runtimeState.initVariables({ player_name: 'Ada' });
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+            executeAction({ type: 'increment', target: 'player_name', value: 1 }, {}, mockReconciler);
+            executeAction({ type: 'clamp', target: 'player_name', min: 0 }, {}, mockReconciler);
+
+            expect(runtimeState.getVariable('player_name')).toBe('Ada');
+            expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('increment needs a number, but "player_name" is a string'));
+            consoleSpy.mockRestore();
+        });
+
+        it('leaves the variable alone when a value does not evaluate to a number', () => {
+            runtimeState.initVariables({ score: 5 });
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+            executeAction({ type: 'set_variable', target: 'score', value: '$event.node' }, { nodeId: 'coin' }, mockReconciler);
+            executeAction({ type: 'multiply', target: 'score', value: '$event.node * 2' }, { nodeId: 'coin' }, mockReconciler);
+
+            expect(runtimeState.getVariable('score')).toBe(5);
+            expect(consoleSpy).toHaveBeenCalledTimes(2);
+            consoleSpy.mockRestore();
+        });
     });
 
     describe('destroy_node action', () => {
@@ -69,6 +208,28 @@ describe('ActionExecutor', () => {
             expect(mockReconciler.reconcile).toHaveBeenCalledWith(mockDoc);
         });
 
+        it('destroys descendants along with their parent', () => {
+            const mockDoc: GameDocument = {
+                activeScene: 'level_1',
+                scenes: {
+                    level_1: {
+                        nodes: [
+                            { id: 'car', type: 'mesh', primitive: 'box', position: [0, 0, 0] },
+                            { id: 'wheel', type: 'mesh', primitive: 'sphere', position: [1, 0, 0], parent: 'car' },
+                            { id: 'hubcap', type: 'mesh', primitive: 'sphere', position: [0, 0, 0.1], parent: 'wheel' },
+                            { id: 'tree', type: 'mesh', primitive: 'box', position: [5, 0, 0] },
+                        ],
+                    },
+                },
+            };
+
+            vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue(mockDoc);
+
+            executeAction({ type: 'destroy_node', target: 'car' }, {}, mockReconciler);
+
+            expect([...runtimeState.destroyedNodes].sort()).toEqual(['car', 'hubcap', 'wheel']);
+        });
+
         it('resolves $event.node placeholder from payload', () => {
             const mockDoc: GameDocument = {
                 activeScene: 'level_1',
@@ -89,6 +250,30 @@ describe('ActionExecutor', () => {
 
             expect(runtimeState.isDestroyed('coin_1')).toBe(true);
         });
+
+        it('resolves other $event fields from the payload', () => {
+            const mockDoc: GameDocument = {
+                activeScene: 'level_1',
+                scenes: {
+                    level_1: {
+                        nodes: [
+                            { id: 'lava', type: 'mesh', primitive: 'box', position: [0, 0, 0] },
+                            { id: 'player', type: 'mesh', primitive: 'box', position: [0, 0, 0] },
+                        ],
+                    },
+                },
+            };
+
+            vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue(mockDoc);
+
+            executeAction(
+                { type: 'destroy_node', target: '$event.otherId' },
+                { nodeId: 'lava', otherId: 'player' },
+                mockReconciler
+            );
+
+            expect([...runtimeState.destroyedNodes]).toEqual(['player']);
+        });
     });
 
     describe('transition_scene action (Phase 3)', () => {
@@ -110,12 +295,10 @@ describe('ActionExecutor', () => {
             runtimeState.initVariables({ score: 10 });
 
             vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue(mockDoc);
-            vi.spyOn(GameDocumentStore.gameDocumentStore.getState(), 'patchDoc').mockImplementation(
-                (updater) => {
-                    const draft = structuredClone(mockDoc);
-                    updater(draft);
+            vi.spyOn(GameDocumentStore.gameDocumentStore.getState(), 'enterPlayScene').mockImplementation(
+                (scene) => {
                     // Simulate the store update
-                    vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue(draft);
+                    vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue({ ...mockDoc, activeScene: scene });
                 }
             );
 
@@ -128,6 +311,9 @@ describe('ActionExecutor', () => {
             // Verify destroyed nodes were cleared
             expect(runtimeState.destroyedNodes.size).toBe(0);
 
+            // The scene changes for play only, not as an edit
+            expect(GameDocumentStore.gameDocumentStore.getState().enterPlayScene).toHaveBeenCalledWith('level_2');
+
             // Verify reconciler was called
             expect(mockReconciler.reconcile).toHaveBeenCalled();
         });
@@ -150,11 +336,9 @@ describe('ActionExecutor', () => {
             runtimeState.initVariables({ score: 50, lives: 3 });
 
             vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue(mockDoc);
-            vi.spyOn(GameDocumentStore.gameDocumentStore.getState(), 'patchDoc').mockImplementation(
-                (updater) => {
-                    const draft = structuredClone(mockDoc);
-                    updater(draft);
-                    vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue(draft);
+            vi.spyOn(GameDocumentStore.gameDocumentStore.getState(), 'enterPlayScene').mockImplementation(
+                (scene) => {
+                    vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue({ ...mockDoc, activeScene: scene });
                 }
             );
 
@@ -206,11 +390,9 @@ describe('ActionExecutor', () => {
             runtimeState.isPlaying = true;
 
             vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue(mockDoc);
-            vi.spyOn(GameDocumentStore.gameDocumentStore.getState(), 'patchDoc').mockImplementation(
-                (updater) => {
-                    const draft = structuredClone(mockDoc);
-                    updater(draft);
-                    vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue(draft);
+            vi.spyOn(GameDocumentStore.gameDocumentStore.getState(), 'enterPlayScene').mockImplementation(
+                (scene) => {
+                    vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue({ ...mockDoc, activeScene: scene });
                 }
             );
 
@@ -222,6 +404,276 @@ describe('ActionExecutor', () => {
 
             expect(runtimeState.isPlaying).toBe(true);
         });
+
+        it('cancels running timers and starts the new scene\'s timers', () => {
+            const mockDoc: GameDocument = {
+                activeScene: 'level_1',
+                scenes: {
+                    level_1: { nodes: [] },
+                    level_2: {
+                        nodes: [],
+                        timers: {
+                            countdown: { event: 'time.up', duration: 60 },
+                            wave: { event: 'wave.spawn', duration: 5, autoStart: false },
+                        },
+                    },
+                },
+            };
+
+            runtimeState.startTimer('old', { event: 'old.tick', duration: 1 });
+
+            vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue(mockDoc);
+            vi.spyOn(GameDocumentStore.gameDocumentStore.getState(), 'enterPlayScene').mockImplementation(
+                (scene) => {
+                    vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue({ ...mockDoc, activeScene: scene });
+                }
+            );
+
+            executeAction(
+                { type: 'transition_scene', to: 'level_2' },
+                {},
+                mockReconciler
+            );
+
+            expect([...runtimeState.timers.keys()]).toEqual(['countdown']);
+        });
+    });
+
+    describe('timer actions', () => {
+        const mockDoc: GameDocument = {
+            activeScene: 'level_1',
+            scenes: {
+                level_1: {
+                    nodes: [],
+                    timers: { wave: { event: 'wave.spawn', duration: 5, repeat: true, times: 3, autoStart: false } },
+                },
+            },
+        };
+
+        beforeEach(() => {
+            vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue(mockDoc);
+        });
+
+        it('starts a scene timer, with action fields overriding its definition', () => {
+            executeAction({ type: 'start_timer', timer: 'wave', duration: 2 }, {}, mockReconciler);
+
+            expect(runtimeState.timers.get('wave')).toMatchObject({
+                event: 'wave.spawn',
+                duration: 2,
+                repeat: true,
+                times: 3,
+            });
+        });
+
+        it('starts an ad-hoc timer and cancels it', () => {
+            executeAction({ type: 'start_timer', timer: 'fuse', event: 'bomb.explode', duration: 3 }, {}, mockReconciler);
+            expect(runtimeState.timers.get('fuse')).toMatchObject({ event: 'bomb.explode', repeat: false });
+
+            executeAction({ type: 'cancel_timer', timer: 'fuse' }, {}, mockReconciler);
+            expect(runtimeState.timers.has('fuse')).toBe(false);
+        });
+
+        it('refuses ad-hoc timers without an event or duration', () => {
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+            executeAction({ type: 'start_timer', timer: 'fuse', duration: 3 }, {}, mockReconciler);
+
+            expect(runtimeState.timers.has('fuse')).toBe(false);
+            expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Cannot start timer "fuse"'));
+            consoleSpy.mockRestore();
+        });
+    });
+
+    describe('spawn_node action', () => {
+        const mockDoc: GameDocument = {
+            activeScene: 'level_1',
+            scenes: {
+                level_1: {
+                    nodes: [
+                        { id: 'chest', type: 'mesh', primitive: 'box', position: [4, 0, 2] },
+                        { id: 'coin_1', type: 'mesh', primitive: 'sphere', position: [0, 0, 0] },
+                    ],
+                },
+            },
+            prefabs: {
+                coin: { type: 'mesh', primitive: 'sphere', color: '#ffd700', size: 0.5 },
+            },
+        };
+
+        beforeEach(() => {
+            vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue(mockDoc);
+        });
+
+        it('instantiates a prefab into RuntimeState without touching the document', () => {
+            executeAction(
+                { type: 'spawn_node', prefab: 'coin', position: [1, 2, 3] },
+                {},
+                mockReconciler
+            );
+
+            // coin_1 is authored, so the spawned node takes the next free id
+            expect(runtimeState.getDynamicNodes()).toEqual([
+                { id: 'coin_2', type: 'mesh', primitive: 'sphere', color: '#ffd700', size: 0.5, position: [1, 2, 3] },
+            ]);
+            expect(mockDoc.scenes.level_1!.nodes).toHaveLength(2);
+            expect(mockReconciler.reconcile).toHaveBeenCalledWith(mockDoc);
+        });
+
+        it('places inline nodes relative to where $event.node is now', () => {
+            // The chest was authored at [4, 0, 2] but has been pushed since
+            mockReconciler.getNodePosition = vi.fn(() => [6, 0.5, 2]);
+
+            executeAction(
+                {
+                    type: 'spawn_node',
+                    node: { type: 'mesh', primitive: 'box' },
+                    position: [0, 1, 0],
+                    relativeTo: '$event.node',
+                    idPrefix: 'loot',
+                },
+                { nodeId: 'chest' },
+                mockReconciler
+            );
+
+            expect(mockReconciler.getNodePosition).toHaveBeenCalledWith('chest');
+            expect(runtimeState.dynamicNodes.get('loot_1')?.position).toEqual([6, 1.5, 2]);
+        });
+
+        it('logs an error when the anchor is not in the scene', () => {
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+            mockReconciler.getNodePosition = vi.fn(() => undefined);
+
+            executeAction(
+                { type: 'spawn_node', prefab: 'coin', relativeTo: 'ghost' },
+                {},
+                mockReconciler
+            );
+
+            expect(runtimeState.getDynamicNodes()).toEqual([]);
+            expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Cannot spawn relative to unknown node'));
+            consoleSpy.mockRestore();
+        });
+
+        it('logs an error for unknown prefabs', () => {
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+            executeAction({ type: 'spawn_node', prefab: 'gem' }, {}, mockReconciler);
+
+            expect(runtimeState.getDynamicNodes()).toEqual([]);
+            expect(consoleSpy).toHaveBeenCalledWith(
+                expect.stringContaining('Cannot spawn unknown prefab')
+            );
+
+            consoleSpy.mockRestore();
+        });
+
+        it('clears spawned nodes on reset', () => {
+            executeAction({ type: 'spawn_node', prefab: 'coin' }, {}, mockReconciler);
+
+            runtimeState.reset();
+
+            expect(runtimeState.getDynamicNodes()).toEqual([]);
+        });
+    });
+
+    describe('node property actions', () => {
+        const mockDoc: GameDocument = {
+            activeScene: 'level_1',
+            scenes: {
+                level_1: {
+                    nodes: [
+                        { id: 'door', type: 'mesh', primitive: 'box', position: [0, 1, 0], size: 2, color: '#000000' },
+                    ],
+                },
+            },
+        };
+
+        beforeEach(() => {
+            vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue(mockDoc);
+        });
+
+        it('overrides a property in RuntimeState without touching the document', () => {
+            executeAction(
+                { type: 'set_node_property', target: '$event.node', property: 'color', value: '#ff0000' },
+                { nodeId: 'door' },
+                mockReconciler
+            );
+
+            expect(runtimeState.nodeOverrides.get('door')).toEqual({ color: '#ff0000' });
+            expect(mockDoc.scenes.level_1!.nodes[0]!.color).toBe('#000000');
+            expect(mockReconciler.reconcile).toHaveBeenCalledTimes(1);
+        });
+
+        it('tweens from the current value, override first', () => {
+            executeAction(
+                { type: 'tween_node_property', target: 'door', property: 'scale', to: [4, 4, 4], duration: 1 },
+                {},
+                mockReconciler
+            );
+            runtimeState.setNodeProperty('door', 'position', [0, 5, 0]);
+            executeAction(
+                { type: 'tween_node_property', target: 'door', property: 'position', to: [0, 1, 0], duration: 2, easing: 'easeOut' },
+                {},
+                mockReconciler
+            );
+
+            expect(runtimeState.tweens.get('door:scale')).toMatchObject({ from: [2, 2, 2], to: [4, 4, 4], easing: 'linear' });
+            expect(runtimeState.tweens.get('door:position')).toMatchObject({ from: [0, 5, 0], duration: 2, easing: 'easeOut' });
+        });
+
+        it('logs an error for unknown nodes', () => {
+            const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+            executeAction(
+                { type: 'set_node_property', target: 'window', property: 'position', value: [0, 0, 0] },
+                {},
+                mockReconciler
+            );
+
+            expect(runtimeState.nodeOverrides.size).toBe(0);
+            expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('unknown node: "window"'));
+
+            consoleSpy.mockRestore();
+        });
+    });
+
+    describe('animation actions', () => {
+        it('plays and stops animations through the reconciler', () => {
+            mockReconciler.playAnimation = vi.fn();
+            mockReconciler.stopAnimation = vi.fn();
+
+            executeAction({ type: 'play_animation', animation: 'bounce', target: '$event.node' }, { nodeId: 'coin_3' }, mockReconciler);
+            executeAction({ type: 'stop_animation', animation: 'spin' }, {}, mockReconciler);
+
+            expect(mockReconciler.playAnimation).toHaveBeenCalledWith('bounce', 'coin_3');
+            expect(mockReconciler.stopAnimation).toHaveBeenCalledWith('spin', undefined);
+        });
+    });
+
+    describe('clip actions', () => {
+        it('plays and stops model clips on the resolved node', () => {
+            mockReconciler.playClip = vi.fn();
+            mockReconciler.stopClip = vi.fn();
+
+            executeAction({ type: 'play_clip', target: '$event.node', clip: 'Run', speed: 1.5 }, { nodeId: 'hero' }, mockReconciler);
+            executeAction({ type: 'stop_clip', target: 'hero' }, {}, mockReconciler);
+
+            expect(mockReconciler.playClip).toHaveBeenCalledWith('hero', 'Run', { loop: undefined, speed: 1.5 });
+            expect(mockReconciler.stopClip).toHaveBeenCalledWith('hero');
+        });
+    });
+
+    describe('sound actions', () => {
+        it('plays and stops sounds through the reconciler', () => {
+            mockReconciler.playSound = vi.fn();
+            mockReconciler.stopSound = vi.fn();
+
+            executeAction({ type: 'play_sound', sound: 'coin', target: '$event.node', volume: 0.5 }, { nodeId: 'coin_2' }, mockReconciler);
+            executeAction({ type: 'stop_sound', target: 'radio' }, {}, mockReconciler);
+
+            expect(mockReconciler.playSound).toHaveBeenCalledWith({ sound: 'coin', nodeId: 'coin_2', volume: 0.5 });
+            expect(mockReconciler.stopSound).toHaveBeenCalledWith({ sound: undefined, nodeId: 'radio' });
+        });
     });
 
     describe('unknown action type', () => {
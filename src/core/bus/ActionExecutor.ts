@@ -1,5 +1,15 @@
-import type { Action } from '../../schema/game.schema';
+import {
+    getVariableType,
+    type Action,
+    type GameDocument,
+    type NumericValue,
+    type SceneNode,
+    type SpawnNodeAction,
+    type TweenableProperty,
+    type VariableValue,
+} from '../../schema/game.schema';
 import { runtimeState } from '../state/RuntimeState';
+import { evaluateExpression } from './ConditionEvaluator';
 import { getGame, gameDocumentStore } from '../state/GameDocumentStore';
 import type { SceneReconciler } from '../reconciler/SceneReconciler';
 
@@ -7,7 +17,10 @@ import type { SceneReconciler } from '../reconciler/SceneReconciler';
  * ActionExecutor
  *
  * Evaluates action directives encoded in JSON (e.g. `increment`, `destroy_node`)
- * against the live RuntimeState singleton.
+ * against the live RuntimeState singleton. Numeric values may be expressions
+ * over variables and `$event.*` fields, evaluated when the action runs.
+ * Variables keep their type: numeric actions refuse non-number variables
+ * and nothing overwrites a variable with a value of another type.
  */
 export const executeAction = (
     action: Action,
@@ -16,20 +29,74 @@ export const executeAction = (
 ) => {
     switch (action.type) {
         case 'increment': {
-            const current = runtimeState.getVariable(action.target);
-            runtimeState.setVariable(action.target, current + action.value);
+            const current = readNumber(action.type, action.target);
+            const value = resolveNumber(action.value, payload);
+            if (current === null || value === null) break;
+            runtimeState.setVariable(action.target, current + value);
+            break;
+        }
+
+        case 'set_variable': {
+            const value = resolveValue(action.value, payload);
+            if (value === null) break;
+            assignVariable(action.type, action.target, value);
+            break;
+        }
+
+        case 'multiply': {
+            const current = readNumber(action.type, action.target);
+            const value = resolveNumber(action.value, payload);
+            if (current === null || value === null) break;
+            runtimeState.setVariable(action.target, current * value);
+            break;
+        }
+
+        case 'clamp': {
+            const current = readNumber(action.type, action.target);
+            const min = action.min === undefined ? -Infinity : resolveNumber(action.min, payload);
+            const max = action.max === undefined ? Infinity : resolveNumber(action.max, payload);
+            if (current === null || min === null || max === null) break;
+            runtimeState.setVariable(action.target, Math.min(Math.max(current, min), max));
+            break;
+        }
+
+        case 'random_range': {
+            const min = resolveNumber(action.min, payload);
+            const max = resolveNumber(action.max, payload);
+            if (min === null || max === null) break;
+            if (min > max) {
+                console.warn(`[ActionExecutor] random_range for "${action.target}" has min ${min} above max ${max}`);
+                break;
+            }
+
+            if (action.integer) {
+                const low = Math.ceil(min);
+                const high = Math.floor(max);
+                if (low > high) {
+                    console.warn(`[ActionExecutor] random_range for "${action.target}" has no whole number between ${min} and ${max}`);
+                    break;
+                }
+                assignVariable(action.type, action.target, low + Math.floor(Math.random() * (high - low + 1)));
+            } else {
+                assignVariable(action.type, action.target, min + Math.random() * (max - min));
+            }
+            break;
+        }
+
+        case 'copy_variable': {
+            assignVariable(action.type, action.target, runtimeState.getVariable(action.from));
             break;
         }
 
         case 'destroy_node': {
             // Resolve $event variables (like $event.node referencing the clicked mesh)
-            const targetId =
-                action.target === '$event.node'
-                    ? (payload.nodeId ?? '')
-                    : action.target;
+            const targetId = resolveNodeRef(action.target, payload);
 
             if (targetId) {
-                runtimeState.markDestroyed(targetId);
+                // Children go with their parent
+                for (const id of [targetId, ...getDescendantIds(getGame(), targetId)]) {
+                    runtimeState.markDestroyed(id);
+                }
                 // Immediately reconcile so the mesh disappears
                 reconciler.reconcile(getGame());
             }
@@ -47,7 +114,7 @@ export const executeAction = (
             }
 
             // 1. Capture variables to persist
-            const persistedVars: Record<string, number> = {};
+            const persistedVars: Record<string, VariableValue> = {};
             if (action.persistVars && action.persistVars.length > 0) {
                 for (const varKey of action.persistVars) {
                     persistedVars[varKey] = runtimeState.getVariable(varKey);
@@ -55,22 +122,22 @@ export const executeAction = (
                 console.log('[ActionExecutor] Persisting variables across transition:', persistedVars);
             }
 
-            // 2. Reset runtime state (clear destroyed nodes, variables)
-            // BUT preserve isPlaying flag
+            // 2. Reset the scene's runtime state BUT preserve isPlaying flag
             const wasPlaying = runtimeState.isPlaying;
-            runtimeState.destroyedNodes.clear();
+            runtimeState.clearSceneState();
 
-            // 3. Update the active scene in the document
-            gameDocumentStore.getState().patchDoc((draft) => {
-                draft.activeScene = targetScene;
-            });
+            // 3. Switch the active scene for the rest of play (not an edit)
+            gameDocumentStore.getState().enterPlayScene(targetScene);
 
-            // 4. Initialize new scene's variables (read fresh doc after update)
+            // 4. Initialize new scene's variables and timers (read fresh doc after update)
             const updatedDoc = getGame();
             const newSceneData = updatedDoc.scenes[targetScene];
             if (newSceneData?.variables) {
                 runtimeState.initVariables(newSceneData.variables);
             }
+            if (newSceneData?.timers) {
+                runtimeState.initTimers(newSceneData.timers);
+            }
 
             // 5. Restore persisted variables (override scene defaults)
             for (const [key, value] of Object.entries(persistedVars)) {
@@ -85,7 +152,245 @@ export const executeAction = (
             break;
         }
 
+        case 'spawn_node': {
+            spawnNode(action, payload, reconciler);
+            // Immediately reconcile so the new mesh appears
+            reconciler.reconcile(getGame());
+            break;
+        }
+
+        case 'start_timer': {
+            // Fields on the action override the scene's timer definition
+            const doc = getGame();
+            const defined = doc.scenes[doc.activeScene]?.timers?.[action.timer];
+            const event = action.event ?? defined?.event;
+            const duration = action.duration ?? defined?.duration;
+            if (event === undefined || duration === undefined) {
+                console.error(`[ActionExecutor] Cannot start timer "${action.timer}": no event or duration`);
+                break;
+            }
+
+            runtimeState.startTimer(action.timer, {
+                event,
+                duration,
+                repeat: action.repeat ?? defined?.repeat,
+                times: action.times ?? defined?.times,
+            });
+            break;
+        }
+
+        case 'cancel_timer': {
+            runtimeState.cancelTimer(action.timer);
+            break;
+        }
+
+        case 'set_node_property': {
+            const targetId = resolveNodeRef(action.target, payload);
+            if (!findNode(getGame(), targetId)) {
+                console.error(`[ActionExecutor] Cannot set "${action.property}" of unknown node: "${targetId}"`);
+                break;
+            }
+            runtimeState.setNodeProperty(targetId, action.property, action.value);
+            // Immediately reconcile so the change shows
+            reconciler.reconcile(getGame());
+            break;
+        }
+
+        case 'tween_node_property': {
+            const targetId = resolveNodeRef(action.target, payload);
+            const node = findNode(getGame(), targetId);
+            if (!node) {
+                console.error(`[ActionExecutor] Cannot tween "${action.property}" of unknown node: "${targetId}"`);
+                break;
+            }
+            runtimeState.startTween({
+                nodeId: targetId,
+                property: action.property,
+                from: getNodeProperty(node, action.property),
+                to: action.to,
+                duration: action.duration,
+                easing: action.easing ?? 'linear',
+            });
+            break;
+        }
+
+        case 'play_animation': {
+            const nodeId = action.target ? resolveNodeRef(action.target, payload) : undefined;
+            reconciler.playAnimation(action.animation, nodeId);
+            break;
+        }
+
+        case 'stop_animation': {
+            const nodeId = action.target ? resolveNodeRef(action.target, payload) : undefined;
+            reconciler.stopAnimation(action.animation, nodeId);
+            break;
+        }
+
+        case 'play_clip': {
+            const nodeId = resolveNodeRef(action.target, payload);
+            reconciler.playClip(nodeId, action.clip, { loop: action.loop, speed: action.speed });
+            break;
+        }
+
+        case 'stop_clip': {
+            reconciler.stopClip(resolveNodeRef(action.target, payload));
+            break;
+        }
+
+        case 'play_sound': {
+            const nodeId = action.target ? resolveNodeRef(action.target, payload) : undefined;
+            reconciler.playSound({ sound: action.sound, nodeId, volume: action.volume });
+            break;
+        }
+
+        case 'stop_sound': {
+            const nodeId = action.target ? resolveNodeRef(action.target, payload) : undefined;
+            reconciler.stopSound({ sound: action.sound, nodeId });
+            break;
+        }
+
         default:
             console.warn('[ActionExecutor] Unknown action type:', (action as any).type);
     }
 };
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve a node reference: "$event.node" means the event's nodeId and
+ * "$event.<field>" any other payload field (e.g. a trigger's otherId).
+ */
+function resolveNodeRef(ref: string, payload: Record<string, any>): string {
+    if (ref === '$event.node') return payload.nodeId ?? '';
+    if (ref.startsWith('$event.')) {
+        const value = payload[ref.slice('$event.'.length)];
+        return typeof value === 'string' ? value : '';
+    }
+    return ref;
+}
+
+/**
+ * Resolve an action value: strings are evaluated as expressions, anything
+ * else passes through. Returns null (and logs) when the expression fails.
+ */
+function resolveValue(value: VariableValue, payload: Record<string, any>): VariableValue | null {
+    if (typeof value !== 'string') return value;
+
+    try {
+        return evaluateExpression(value, payload);
+    } catch (error) {
+        console.error(`[ActionExecutor] Cannot evaluate value "${value}":`, error);
+        return null;
+    }
+}
+
+/** Like `resolveValue`, but the result must be a number. */
+function resolveNumber(value: NumericValue, payload: Record<string, any>): number | null {
+    const result = resolveValue(value, payload);
+    if (result === null) return null;
+    if (typeof result === 'number' && !Number.isNaN(result)) return result;
+
+    console.error(`[ActionExecutor] Value "${value}" is not a number: ${JSON.stringify(result)}`);
+    return null;
+}
+
+/** Current value of a variable a numeric action operates on, or null (and logs) if it isn't a number. */
+function readNumber(actionType: Action['type'], key: string): number | null {
+    const value = runtimeState.getVariable(key);
+    if (typeof value === 'number') return value;
+
+    console.error(`[ActionExecutor] ${actionType} needs a number, but "${key}" is a ${getVariableType(value)}`);
+    return null;
+}
+
+/** Set a variable, unless that would change the type of one that already exists. */
+function assignVariable(actionType: Action['type'], key: string, value: VariableValue): void {
+    if (runtimeState.hasVariable(key)) {
+        const expected = getVariableType(runtimeState.getVariable(key));
+        const actual = getVariableType(value);
+        if (expected !== actual) {
+            console.error(`[ActionExecutor] ${actionType} cannot store a ${actual} in ${expected} variable "${key}"`);
+            return;
+        }
+    }
+    runtimeState.setVariable(key, value);
+}
+
+function spawnNode(action: SpawnNodeAction, payload: Record<string, any>, reconciler: SceneReconciler): void {
+    const doc = getGame();
+    const template = action.prefab ? doc.prefabs?.[action.prefab] : action.node;
+    if (!template) {
+        console.error(`[ActionExecutor] Cannot spawn unknown prefab: "${action.prefab}"`);
+        return;
+    }
+
+    const [x, y, z] = action.position ?? [0, 0, 0];
+    let origin: [number, number, number] = [0, 0, 0];
+    if (action.relativeTo) {
+        const anchorId = resolveNodeRef(action.relativeTo, payload);
+        // Where the anchor is now, not where it was authored (or relative to its parent)
+        const anchorPosition = reconciler.getNodePosition(anchorId);
+        if (!anchorPosition) {
+            console.error(`[ActionExecutor] Cannot spawn relative to unknown node: "${anchorId}"`);
+            return;
+        }
+        origin = anchorPosition;
+    }
+
+    const id = nextSpawnId(doc, action.idPrefix ?? action.prefab ?? 'spawned');
+    runtimeState.spawnNode({
+        ...structuredClone(template),
+        id,
+        position: [origin[0] + x, origin[1] + y, origin[2] + z],
+    });
+}
+
+/** Look a node up among the active scene's authored and spawned nodes. */
+function findNode(doc: GameDocument, nodeId: string) {
+    return (
+        doc.scenes[doc.activeScene]?.nodes.find((n) => n.id === nodeId) ??
+        runtimeState.dynamicNodes.get(nodeId)
+    );
+}
+
+/** A node's current value of a tweenable property: its play-mode override, else the authored value. */
+function getNodeProperty(node: SceneNode, property: TweenableProperty): [number, number, number] | string {
+    const override = runtimeState.nodeOverrides.get(node.id)?.[property];
+    if (override !== undefined) return override;
+
+    switch (property) {
+        case 'position':
+            return node.position;
+        case 'rotation':
+            // Quaternion rotations have no Euler angles to start from
+            return node.rotation?.length === 3 ? node.rotation : [0, 0, 0];
+        case 'scale':
+            return node.scale ?? [node.size ?? 1, node.size ?? 1, node.size ?? 1];
+        case 'color':
+            return node.color ?? '#ffffff';
+    }
+}
+
+/** IDs of every node below `nodeId` in the active scene's hierarchy. */
+function getDescendantIds(doc: GameDocument, nodeId: string): string[] {
+    const nodes = [...(doc.scenes[doc.activeScene]?.nodes ?? []), ...runtimeState.getDynamicNodes()];
+    const descendants: string[] = [];
+    const pending = [nodeId];
+    while (pending.length > 0) {
+        const parentId = pending.pop();
+        for (const node of nodes) {
+            if (node.parent === parentId && node.id !== nodeId && !descendants.includes(node.id)) {
+                descendants.push(node.id);
+                pending.push(node.id);
+            }
+        }
+    }
+    return descendants;
+}
+
+/** First `${prefix}_N` id not used by an authored or previously spawned node. */
+function nextSpawnId(doc: GameDocument, prefix: string): string {
+    let n = 1;
+    while (findNode(doc, `${prefix}_${n}`)) n++;
+    return `${prefix}_${n}`;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { evaluateCondition } from './ConditionEvaluator';
+import { runtimeState } from '../state/RuntimeState';
+
+describe('ConditionEvaluator', () => {
+    beforeEach(() => {
+        runtimeState.reset();
+    });
+
+    describe('evaluateCondition', () => {
+        it('compares runtime variables', () => {
+            runtimeState.initVariables({ boss_health: 0 });
+
+            expect(evaluateCondition('boss_health <= 0')).toBe(true);
+            expect(evaluateCondition('boss_health > 0')).toBe(false);
+        });
+
+        it('treats unknown variables as 0', () => {
+            expect(evaluateCondition('missing == 0')).toBe(true);
+        });
+
+        it('evaluates arithmetic and boolean logic', () => {
+            runtimeState.initVariables({ score: 40, lives: 2 });
+
+            expect(evaluateCondition('score + 10 * 2 >= 60 && !(lives < 1)')).toBe(true);
+            expect(evaluateCondition('score % 3 == 1 || false')).toBe(true);
+            expect(evaluateCondition('-lives == 0 - 2')).toBe(true);
+        });
+
+        it('reads $event fields, mapping $event.node to nodeId', () => {
+            expect(evaluateCondition('$event.node == "coin_1"', { nodeId: 'coin_1' })).toBe(true);
+            expect(evaluateCondition("$event.damage > 5", { damage: 7 })).toBe(true);
+            expect(evaluateCondition('$event.missing == 0', {})).toBe(true);
+        });
+
+        it('throws on type mismatches in arithmetic', () => {
+            expect(() => evaluateCondition('"a" + 1')).toThrow('expects a number');
+        });
+
+        it('reads boolean and string variables but rejects lists', () => {
+            runtimeState.initVariables({ door_open: true, player_name: 'Ada', inventory: ['key'] });
+
+            expect(evaluateCondition('door_open && player_name == "Ada"')).toBe(true);
+            expect(evaluateCondition('!door_open')).toBe(false);
+            expect(() => evaluateCondition('inventory')).toThrow('"inventory" is a list');
+        });
+    });
+});
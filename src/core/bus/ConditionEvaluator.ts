@@ -0,0 +1,107 @@
+/**
+ * ConditionEvaluator.ts
+ *
+ * Evaluates `Subscription.when` conditions and computed action values
+ * against the live RuntimeState variables and the event payload. Parsing
+ * (and the grammar) lives in schema/expression.ts, shared with the
+ * validator.
+ */
+
+import {
+    ConditionError,
+    parseCondition,
+    type BinaryOperator,
+    type ConditionNode,
+    type ConditionValue,
+} from '../../schema/expression';
+import { runtimeState } from '../state/RuntimeState';
+import type { EventPayload } from './EventBus';
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Evaluate a condition against the live RuntimeState and event payload.
+ * The result is coerced to a boolean (non-zero numbers and non-empty
+ * strings are truthy).
+ */
+export function evaluateCondition(source: string, payload: EventPayload = {}): boolean {
+    return Boolean(evaluateExpression(source, payload));
+}
+
+/** Evaluate an expression against the live RuntimeState and event payload, uncoerced. */
+export function evaluateExpression(source: string, payload: EventPayload = {}): ConditionValue {
+    return evaluateNode(parseCondition(source), payload);
+}
+
+// ── Evaluation ───────────────────────────────────────────────────────────────
+
+function evaluateNode(node: ConditionNode, payload: EventPayload): ConditionValue {
+    switch (node.kind) {
+        case 'literal':
+            return node.value;
+
+        case 'variable': {
+            const value = runtimeState.getVariable(node.name);
+            if (Array.isArray(value)) {
+                throw new ConditionError(`Variable "${node.name}" is a list and cannot be used in expressions`);
+            }
+            return value;
+        }
+
+        case 'event': {
+            // `$event.node` mirrors the destroy_node convention for payload.nodeId
+            const value = node.field === 'node' ? payload.nodeId : payload[node.field];
+            if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+                return value;
+            }
+            return 0;
+        }
+
+        case 'unary': {
+            const operand = evaluateNode(node.operand, payload);
+            return node.op === '!' ? !operand : -asNumber(operand, '-');
+        }
+
+        case 'binary':
+            return evaluateBinary(node.op, node.left, node.right, payload);
+    }
+}
+
+function evaluateBinary(
+    op: BinaryOperator,
+    leftNode: ConditionNode,
+    rightNode: ConditionNode,
+    payload: EventPayload,
+): ConditionValue {
+    // Short-circuit boolean operators
+    if (op === '&&') {
+        return Boolean(evaluateNode(leftNode, payload)) && Boolean(evaluateNode(rightNode, payload));
+    }
+    if (op === '||') {
+        return Boolean(evaluateNode(leftNode, payload)) || Boolean(evaluateNode(rightNode, payload));
+    }
+
+    const left = evaluateNode(leftNode, payload);
+    const right = evaluateNode(rightNode, payload);
+
+    switch (op) {
+        case '==': return left === right;
+        case '!=': return left !== right;
+        case '<': return asNumber(left, op) < asNumber(right, op);
+        case '<=': return asNumber(left, op) <= asNumber(right, op);
+        case '>': return asNumber(left, op) > asNumber(right, op);
+        case '>=': return asNumber(left, op) >= asNumber(right, op);
+        case '+': return asNumber(left, op) + asNumber(right, op);
+        case '-': return asNumber(left, op) - asNumber(right, op);
+        case '*': return asNumber(left, op) * asNumber(right, op);
+        case '/': return asNumber(left, op) / asNumber(right, op);
+        case '%': return asNumber(left, op) % asNumber(right, op);
+    }
+}
+
+function asNumber(value: ConditionValue, op: string): number {
+    if (typeof value !== 'number') {
+        throw new ConditionError(`Operator "${op}" expects a number but got ${JSON.stringify(value)}`);
+    }
+    return value;
+}
@@ -76,4 +76,87 @@ describe('EventBus', () => {
 
         expect(runtimeState.getVariable('score')).toBe(0); // Should remain 0
     });
+
+    it('runs actions only when the subscription condition holds', () => {
+        vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue({
+            activeScene: 'boss_room',
+            scenes: {
+                boss_room: {
+                    nodes: [],
+                    subscriptions: [
+                        { id: 'hit', on: 'boss.hit', actions: [{ type: 'increment', target: 'boss_health', value: -1 }] },
+                        { id: 'defeat', on: 'boss.hit', when: 'boss_health <= 0', actions: [{ type: 'destroy_node', target: 'boss' }] }
+                    ]
+                }
+            }
+        } as any);
+
+        runtimeState.initVariables({ boss_health: 2 });
+
+        bus.publish('boss.hit');
+        expect(runtimeState.isDestroyed('boss')).toBe(false);
+
+        bus.publish('boss.hit');
+        expect(runtimeState.isDestroyed('boss')).toBe(true);
+    });
+
+    it('skips subscriptions whose condition fails to evaluate', () => {
+        vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue({
+            activeScene: 'level_1',
+            scenes: {
+                level_1: {
+                    nodes: [],
+                    subscriptions: [
+                        { id: 'bad', on: 'on_click', when: '"text" * 2', actions: [{ type: 'increment', target: 'score', value: 10 }] }
+                    ]
+                }
+            }
+        } as any);
+        const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        runtimeState.initVariables({ score: 0 });
+        bus.publish('on_click');
+
+        expect(runtimeState.getVariable('score')).toBe(0);
+        expect(warnSpy).toHaveBeenCalled();
+        warnSpy.mockRestore();
+    });
+
+    describe('events told from both sides', () => {
+        const collision = [{ nodeId: 'goal', otherId: 'ball' }, { nodeId: 'ball', otherId: 'goal' }];
+
+        beforeEach(() => {
+            vi.spyOn(GameDocumentStore, 'getGame').mockReturnValue({
+                activeScene: 'pitch',
+                scenes: {
+                    pitch: {
+                        nodes: [],
+                        subscriptions: [
+                            { id: 'any', on: 'collision.enter', actions: [{ type: 'increment', target: 'contacts', value: 1 }] },
+                            {
+                                id: 'score',
+                                on: 'collision.enter',
+                                when: "$event.node == 'ball' && $event.otherId == 'goal'",
+                                actions: [{ type: 'destroy_node', target: '$event.node' }],
+                            },
+                        ],
+                    },
+                },
+            } as any);
+            runtimeState.initVariables({ contacts: 0 });
+        });
+
+        it('runs an unfiltered subscription once', () => {
+            bus.publishEither('collision.enter', collision);
+
+            expect(runtimeState.getVariable('contacts')).toBe(1);
+        });
+
+        it('runs a filtered subscription with the side its condition names', () => {
+            bus.publishEither('collision.enter', collision);
+
+            expect(runtimeState.isDestroyed('ball')).toBe(true);
+            expect(runtimeState.isDestroyed('goal')).toBe(false);
+        });
+    });
 });
@@ -15,6 +15,7 @@ import { getGame } from '../state/GameDocumentStore';
 import { runtimeState } from '../state/RuntimeState';
 import type { SceneReconciler } from '../reconciler/SceneReconciler';
 import { executeAction } from './ActionExecutor';
+import { evaluateCondition } from './ConditionEvaluator';
 
 export interface EventPayload {
     nodeId?: string;
@@ -27,6 +28,15 @@ export class EventBus {
     // ── Public ────────────────────────────────────────────────────────────
 
     publish(eventName: string, payload: EventPayload = {}): void {
+        this.publishEither(eventName, [payload]);
+    }
+
+    /**
+     * Publish one event that can be told from several sides, e.g. a collision
+     * as `{ nodeId: a, otherId: b }` or `{ nodeId: b, otherId: a }`. Each
+     * subscription runs once, with the first payload its condition accepts.
+     */
+    publishEither(eventName: string, payloads: EventPayload[]): void {
         // Guard: Do not process logic if the editor is stopped.
         if (!runtimeState.isPlaying) return;
 
@@ -37,13 +47,26 @@ export class EventBus {
         for (const sub of sceneData.subscriptions) {
             if (sub.on !== eventName) continue;
 
-            // (Phase 2+) evaluate `sub.when` condition here if present
+            const payload = sub.when
+                ? payloads.find((candidate) => this.checkCondition(sub.id, sub.when!, candidate))
+                : payloads[0];
+            if (!payload) continue;
             this.executeActions(sub.actions, payload);
         }
     }
 
     // ── Internals ─────────────────────────────────────────────────────────
 
+    private checkCondition(subId: string, when: string, payload: EventPayload): boolean {
+        try {
+            return evaluateCondition(when, payload);
+        } catch (error) {
+            // A broken condition should never run its actions
+            console.warn(`[EventBus] Condition for subscription "${subId}" failed:`, error);
+            return false;
+        }
+    }
+
     private executeActions(actions: Action[], payload: EventPayload): void {
         for (const action of actions) {
             executeAction(action, payload, this.reconciler);
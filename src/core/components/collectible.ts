@@ -0,0 +1,57 @@
+/**
+ * collectible.ts
+ *
+ * Fires the collectible's event once when its collector node (the player)
+ * overlaps it during play. Destroyed pickups and destroyed collectors are
+ * skipped, so a collected item never retriggers.
+ *
+ * Overlap compares world-space bounding boxes of each node's whole
+ * hierarchy, so GLB models (a TransformNode around the imported meshes)
+ * collect and get collected like primitives.
+ */
+
+import type { TransformNode } from '@babylonjs/core';
+import type { CollectibleComponent } from '../../schema/game.schema';
+import type { EventBus } from '../bus/EventBus';
+import { runtimeState } from '../state/RuntimeState';
+import type { FrameBehavior } from './types';
+
+/** Node id used when the component does not name a collector. */
+export const DEFAULT_COLLECTOR_ID = 'player';
+
+export function createCollectibleBehavior(
+    nodeId: string,
+    component: CollectibleComponent,
+    getNode: (id: string) => TransformNode | undefined,
+    bus: EventBus,
+): FrameBehavior {
+    const collectorId = component.collector ?? DEFAULT_COLLECTOR_ID;
+    let collected = false;
+
+    return {
+        update(target) {
+            if (collected) return;
+            if (runtimeState.isDestroyed(nodeId) || runtimeState.isDestroyed(collectorId)) return;
+
+            const collector = getNode(collectorId);
+            if (!collector) return;
+
+            if (overlaps(collector, target)) {
+                collected = true;
+                bus.publish(component.event, { nodeId, collectorId });
+            }
+        },
+
+        reset() {
+            collected = false;
+        },
+    };
+}
+
+function overlaps(a: TransformNode, b: TransformNode): boolean {
+    const boxA = a.getHierarchyBoundingVectors(true);
+    const boxB = b.getHierarchyBoundingVectors(true);
+    return boxA.min.x <= boxB.max.x && boxA.max.x >= boxB.min.x
+        && boxA.min.y <= boxB.max.y && boxA.max.y >= boxB.min.y
+        && boxA.min.z <= boxB.max.z && boxA.max.z >= boxB.min.z;
+}
@@ -0,0 +1,170 @@
+/**
+ * playerController.ts
+ *
+ * Keyboard-driven character movement: walk with W/A/S/D (or remapped keys),
+ * jump, fall under gravity, and stop against meshes with a static physics
+ * body. Movement follows the active camera's facing or the world axes.
+ *
+ * Collision is a simple swept AABB test per axis against the colliders'
+ * world bounding boxes, so walls block, floors carry and ceilings bump.
+ * The player moves in world space too, so it works when parented. The
+ * authored position is restored when play stops.
+ */
+
+import { Vector3, type Camera, type TransformNode } from '@babylonjs/core';
+import type { PlayerControllerComponent } from '../../schema/game.schema';
+import { runtimeState } from '../state/RuntimeState';
+import type { FrameBehavior } from './types';
+
+const DEFAULT_SPEED = 5;
+const DEFAULT_JUMP_SPEED = 6;
+const DEFAULT_GRAVITY = 20;
+const DEFAULT_KEYS = { forward: 'w', back: 's', left: 'a', right: 'd', jump: ' ' };
+/** Longer frames are split up so fast falls don't tunnel through thin floors. */
+const MAX_STEP_SECONDS = 1 / 30;
+/** Gap left between the player and a collider after resolving a hit. */
+const SKIN = 1e-4;
+
+type Axis = 'x' | 'y' | 'z';
+
+interface Box {
+    min: Vector3;
+    max: Vector3;
+}
+
+export interface PlayerControllerContext {
+    isDown: (key: string) => boolean;
+    getCamera: () => Camera | null;
+    /** Nodes the player cannot pass through. */
+    getColliders: () => TransformNode[];
+}
+
+export function createPlayerControllerBehavior(
+    nodeId: string,
+    component: PlayerControllerComponent,
+    context: PlayerControllerContext,
+): FrameBehavior {
+    const speed = component.speed ?? DEFAULT_SPEED;
+    const jumpSpeed = component.jumpSpeed ?? DEFAULT_JUMP_SPEED;
+    const gravity = component.gravity ?? DEFAULT_GRAVITY;
+    const keys = { ...DEFAULT_KEYS, ...component.keys };
+
+    // Captured on the first frame of play
+    let authored: Vector3 | null = null;
+    // Player bounds relative to its world position: center offset and half size
+    let offset: Vector3 | null = null;
+    let half: Vector3 | null = null;
+
+    let verticalSpeed = 0;
+    let grounded = false;
+
+    /** Unit forward and right vectors on the ground plane. */
+    const getBasis = (): { forward: [number, number]; right: [number, number] } => {
+        const camera = component.movement === 'world' ? null : context.getCamera();
+        const direction = camera?.getDirection(new Vector3(0, 0, 1));
+        const length = direction ? Math.hypot(direction.x, direction.z) : 0;
+
+        // Looking straight down (or no camera): fall back to world axes
+        if (!direction || length < 1e-6) return { forward: [0, 1], right: [1, 0] };
+
+        const fx = direction.x / length;
+        const fz = direction.z / length;
+        return { forward: [fx, fz], right: [fz, -fx] };
+    };
+
+    const overlaps = (position: Vector3, box: Box): boolean => {
+        for (const axis of ['x', 'y', 'z'] as const) {
+            const center = position[axis] + offset![axis];
+            if (center + half![axis] <= box.min[axis] || center - half![axis] >= box.max[axis]) return false;
+        }
+        return true;
+    };
+
+    /** Move a world position along one axis, stopping at the first collider in the way. Returns whether it hit. */
+    const moveAxis = (position: Vector3, axis: Axis, delta: number, colliders: Box[]): boolean => {
+        if (delta === 0) return false;
+        position[axis] += delta;
+
+        let hit = false;
+        for (const box of colliders) {
+            if (!overlaps(position, box)) continue;
+            position[axis] = delta > 0
+                ? box.min[axis] - half![axis] - offset![axis] - SKIN
+                : box.max[axis] + half![axis] - offset![axis] + SKIN;
+            hit = true;
+        }
+        return hit;
+    };
+
+    const step = (position: Vector3, dt: number, colliders: Box[]): void => {
+        const input = (key: string) => (context.isDown(key) ? 1 : 0);
+        const ahead = input(keys.forward) - input(keys.back);
+        const side = input(keys.right) - input(keys.left);
+
+        if (ahead !== 0 || side !== 0) {
+            const { forward, right } = getBasis();
+            let dx = forward[0] * ahead + right[0] * side;
+            let dz = forward[1] * ahead + right[1] * side;
+            const length = Math.hypot(dx, dz);
+            dx = (dx / length) * speed * dt;
+            dz = (dz / length) * speed * dt;
+
+            moveAxis(position, 'x', dx, colliders);
+            moveAxis(position, 'z', dz, colliders);
+        }
+
+        if (gravity === 0) return;
+
+        if (grounded && jumpSpeed > 0 && context.isDown(keys.jump)) {
+            verticalSpeed = jumpSpeed;
+        }
+        verticalSpeed -= gravity * dt;
+
+        const hit = moveAxis(position, 'y', verticalSpeed * dt, colliders);
+        grounded = hit && verticalSpeed < 0;
+        if (hit) verticalSpeed = 0;
+    };
+
+    return {
+        update(target, deltaSeconds) {
+            if (runtimeState.isDestroyed(nodeId)) return;
+
+            const position = target.getAbsolutePosition().clone();
+
+            if (!authored) {
+                authored = target.position.clone();
+                const bounds = target.getHierarchyBoundingVectors(true);
+                offset = new Vector3(
+                    (bounds.min.x + bounds.max.x) / 2 - position.x,
+                    (bounds.min.y + bounds.max.y) / 2 - position.y,
+                    (bounds.min.z + bounds.max.z) / 2 - position.z,
+                );
+                half = new Vector3(
+                    (bounds.max.x - bounds.min.x) / 2,
+                    (bounds.max.y - bounds.min.y) / 2,
+                    (bounds.max.z - bounds.min.z) / 2,
+                );
+            }
+
+            const colliders = context.getColliders()
+                .filter((collider) => collider !== target)
+                .map((collider) => collider.getHierarchyBoundingVectors(true));
+
+            let remaining = deltaSeconds;
+            while (remaining > 0) {
+                const dt = Math.min(remaining, MAX_STEP_SECONDS);
+                step(position, dt, colliders);
+                remaining -= dt;
+            }
+            // Back into the parent's space
+            target.setAbsolutePosition(position);
+        },
+
+        reset(target) {
+            if (authored) target.position.copyFrom(authored);
+            authored = null;
+            verticalSpeed = 0;
+            grounded = false;
+        },
+    };
+}
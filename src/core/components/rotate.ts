@@ -0,0 +1,56 @@
+/**
+ * rotate.ts
+ *
+ * Spins a node around one of its local axes at a constant speed while the
+ * game is playing, and restores the authored orientation on stop.
+ */
+
+import { Space, Vector3, type Quaternion } from '@babylonjs/core';
+import type { TransformNode } from '@babylonjs/core';
+import type { RotateComponent } from '../../schema/game.schema';
+import type { FrameBehavior } from './types';
+
+interface OrientationSnapshot {
+    rotation: Vector3;
+    rotationQuaternion: Quaternion | null;
+}
+
+export function createRotateBehavior(component: RotateComponent): FrameBehavior {
+    // Captured on the first frame of play so `reset` can undo the spin
+    let authored: OrientationSnapshot | null = null;
+
+    return {
+        update(target, deltaSeconds) {
+            if (!authored) {
+                authored = {
+                    rotation: target.rotation.clone(),
+                    rotationQuaternion: target.rotationQuaternion?.clone() ?? null,
+                };
+            }
+
+            const radians = (component.speed * Math.PI / 180) * deltaSeconds;
+
+            // A quaternion (authored or imported) makes Euler angles inert
+            if (target.rotationQuaternion) {
+                target.rotate(axisVector(component.axis), radians, Space.LOCAL);
+            } else {
+                target.rotation[component.axis] += radians;
+            }
+        },
+
+        reset(target) {
+            if (!authored) return;
+            target.rotation.copyFrom(authored.rotation);
+            target.rotationQuaternion = authored.rotationQuaternion?.clone() ?? null;
+            authored = null;
+        },
+    };
+}
+
+function axisVector(axis: RotateComponent['axis']): Vector3 {
+    switch (axis) {
+        case 'x': return new Vector3(1, 0, 0);
+        case 'y': return new Vector3(0, 1, 0);
+        case 'z': return new Vector3(0, 0, 1);
+    }
+}
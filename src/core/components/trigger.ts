@@ -0,0 +1,91 @@
+/**
+ * trigger.ts
+ *
+ * Trigger volumes: an invisible box or sphere around a node that reports
+ * other nodes entering, staying in and leaving it during play. A node
+ * counts as inside when its origin is; destroyed nodes leave the volume.
+ *
+ * Payloads carry both ends: `{ nodeId: <trigger>, otherId: <visitor> }`,
+ * plus `deltaSeconds` for onStay.
+ */
+
+import type { TransformNode } from '@babylonjs/core';
+import type { TriggerComponent } from '../../schema/game.schema';
+import type { EventBus } from '../bus/EventBus';
+import { runtimeState } from '../state/RuntimeState';
+import type { FrameBehavior } from './types';
+
+/** Nodes a trigger may react to: node id → its tags. */
+export type TriggerCandidates = ReadonlyMap<string, readonly string[]>;
+
+export function createTriggerBehavior(
+    nodeId: string,
+    component: TriggerComponent,
+    getNode: (id: string) => TransformNode | undefined,
+    getCandidates: () => TriggerCandidates,
+    bus: EventBus,
+): FrameBehavior {
+    const inside = new Set<string>();
+
+    const matches = (id: string, tags: readonly string[]): boolean => {
+        if (!component.nodes && !component.tags) return true;
+        return (component.nodes?.includes(id) ?? false)
+            || tags.some((tag) => component.tags?.includes(tag));
+    };
+
+    const exit = (otherId: string): void => {
+        inside.delete(otherId);
+        if (component.onExit) bus.publish(component.onExit, { nodeId, otherId });
+    };
+
+    return {
+        update(target, deltaSeconds) {
+            // A destroyed trigger stops reporting, without exit events
+            if (runtimeState.isDestroyed(nodeId)) {
+                inside.clear();
+                return;
+            }
+
+            const center = target.getAbsolutePosition();
+            const scaling = target.scaling;
+            const contains = (x: number, y: number, z: number): boolean => {
+                const dx = x - center.x;
+                const dy = y - center.y;
+                const dz = z - center.z;
+                if (component.shape === 'sphere') {
+                    const radius = component.radius ?? 0.5 * Math.max(scaling.x, scaling.y, scaling.z);
+                    return dx * dx + dy * dy + dz * dz <= radius * radius;
+                }
+                const [sx, sy, sz] = component.size ?? [scaling.x, scaling.y, scaling.z];
+                return Math.abs(dx) <= sx / 2 && Math.abs(dy) <= sy / 2 && Math.abs(dz) <= sz / 2;
+            };
+
+            // Copied: events may reconcile the scene and change the candidates
+            const seen = new Set<string>();
+            for (const [otherId, tags] of [...getCandidates()]) {
+                if (otherId === nodeId || runtimeState.isDestroyed(otherId) || !matches(otherId, tags)) continue;
+                const other = getNode(otherId);
+                if (!other) continue;
+
+                const p = other.getAbsolutePosition();
+                if (!contains(p.x, p.y, p.z)) continue;
+
+                seen.add(otherId);
+                if (!inside.has(otherId)) {
+                    inside.add(otherId);
+                    if (component.onEnter) bus.publish(component.onEnter, { nodeId, otherId });
+                } else if (component.onStay) {
+                    bus.publish(component.onStay, { nodeId, otherId, deltaSeconds });
+                }
+            }
+
+            for (const otherId of inside) {
+                if (!seen.has(otherId)) exit(otherId);
+            }
+        },
+
+        reset() {
+            inside.clear();
+        },
+    };
+}
@@ -0,0 +1,18 @@
+/**
+ * types.ts
+ *
+ * Shared contracts for components that run every frame during play mode.
+ */
+
+import type { TransformNode } from '@babylonjs/core';
+
+export interface FrameBehavior {
+    /**
+     * Advance the behavior by one frame. Only called while
+     * `runtimeState.isPlaying` is true. `target` is resolved fresh each
+     * frame so GLB roots that replace their placeholder are picked up.
+     */
+    update(target: TransformNode, deltaSeconds: number): void;
+    /** Restore authored state when play stops. */
+    reset?(target: TransformNode): void;
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fireEvent } from '@testing-library/react';
+import { InputManager } from './InputManager';
+
+describe('InputManager', () => {
+    let publish: ReturnType<typeof vi.fn<(eventName: string, payload: object) => void>>;
+    let input: InputManager;
+
+    beforeEach(() => {
+        publish = vi.fn();
+        input = new InputManager(publish);
+    });
+
+    afterEach(() => {
+        input.dispose();
+        document.body.innerHTML = '';
+    });
+
+    it('publishes keydown bindings with the owning node id', () => {
+        input.bind('player', { type: 'keybind', key: 'ArrowUp', event: 'player.up' });
+
+        fireEvent.keyDown(window, { key: 'ArrowUp' });
+
+        expect(publish).toHaveBeenCalledWith('player.up', { nodeId: 'player', key: 'ArrowUp', phase: 'down' });
+    });
+
+    it('matches single-character keys case-insensitively', () => {
+        input.bind('player', { type: 'keybind', key: 'W', event: 'player.forward' });
+
+        fireEvent.keyDown(window, { key: 'w' });
+
+        expect(publish).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores auto-repeat and modifier chords', () => {
+        input.bind('player', { type: 'keybind', key: 'k', event: 'player.kick' });
+
+        fireEvent.keyDown(window, { key: 'k', metaKey: true });
+        fireEvent.keyDown(window, { key: 'k', repeat: true });
+
+        expect(publish).not.toHaveBeenCalled();
+    });
+
+    it('tracks which keys are down for polling', () => {
+        fireEvent.keyDown(window, { key: 'W' });
+        expect(input.isDown('w')).toBe(true);
+        expect(input.isDown('a')).toBe(false);
+
+        fireEvent.keyUp(window, { key: 'w' });
+        expect(input.isDown('w')).toBe(false);
+    });
+
+    it('fires keyup bindings on release', () => {
+        input.bind('door', { type: 'keybind', key: ' ', event: 'door.release', phase: 'up' });
+
+        fireEvent.keyDown(window, { key: ' ' });
+        expect(publish).not.toHaveBeenCalled();
+
+        fireEvent.keyUp(window, { key: ' ' });
+        expect(publish).toHaveBeenCalledWith('door.release', { nodeId: 'door', key: ' ', phase: 'up' });
+    });
+
+    it('fires held bindings every frame until the key is released', () => {
+        input.bind('player', { type: 'keybind', key: 'd', event: 'player.right', phase: 'held' });
+
+        fireEvent.keyDown(window, { key: 'd' });
+        input.update(0.016);
+        input.update(0.016);
+        fireEvent.keyUp(window, { key: 'd' });
+        input.update(0.016);
+
+        expect(publish).toHaveBeenCalledTimes(2);
+        expect(publish).toHaveBeenCalledWith('player.right', {
+            nodeId: 'player',
+            key: 'd',
+            phase: 'held',
+            deltaSeconds: 0.016,
+        });
+    });
+
+    it('ignores keys while a text input has focus', () => {
+        input.bind('player', { type: 'keybind', key: 'a', event: 'player.left' });
+        const field = document.createElement('input');
+        document.body.appendChild(field);
+        field.focus();
+
+        fireEvent.keyDown(window, { key: 'a' });
+
+        expect(publish).not.toHaveBeenCalled();
+    });
+
+    it('ignores keys while the CopilotKit sidebar has focus', () => {
+        input.bind('player', { type: 'keybind', key: 'a', event: 'player.left' });
+        const sidebar = document.createElement('div');
+        sidebar.className = 'copilotKitSidebar';
+        const button = document.createElement('button');
+        sidebar.appendChild(button);
+        document.body.appendChild(sidebar);
+        button.focus();
+
+        fireEvent.keyDown(window, { key: 'a' });
+
+        expect(publish).not.toHaveBeenCalled();
+    });
+
+    it('drops bindings when their node is unbound', () => {
+        input.bind('player', { type: 'keybind', key: 'a', event: 'player.left' });
+        input.unbindNode('player');
+
+        fireEvent.keyDown(window, { key: 'a' });
+
+        expect(publish).not.toHaveBeenCalled();
+    });
+});
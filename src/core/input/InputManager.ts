@@ -0,0 +1,132 @@
+/**
+ * InputManager.ts
+ *
+ * Scene-level keyboard input. Keybind components register here; the
+ * manager listens on `window` and publishes the bound events through the
+ * EventBus with the owning node in the payload.
+ *
+ * Phases
+ * ──────
+ *   down → once when the key is pressed (auto-repeat is ignored)
+ *   up   → once when the key is released
+ *   held → every frame while the key is down (driven by `update`)
+ *
+ * Other components (the player controller) poll `isDown` instead of binding
+ * events.
+ *
+ * Keys are ignored while a text field or the CopilotKit sidebar has focus,
+ * and while Ctrl/⌘/Alt is held, so editor shortcuts never leak into play.
+ */
+
+import type { KeybindComponent } from '../../schema/game.schema';
+import type { EventPayload } from '../bus/EventBus';
+
+type Publish = (eventName: string, payload: EventPayload) => void;
+
+interface Binding {
+    nodeId: string;
+    event: string;
+    phase: NonNullable<KeybindComponent['phase']>;
+}
+
+export class InputManager {
+    // Normalized key → bindings listening for it
+    private bindings: Map<string, Binding[]> = new Map();
+    private pressed: Set<string> = new Set();
+
+    constructor(private publish: Publish) {
+        window.addEventListener('keydown', this.onKeyDown);
+        window.addEventListener('keyup', this.onKeyUp);
+        window.addEventListener('blur', this.onBlur);
+    }
+
+    // ── Public API ───────────────────────────────────────────────────────────
+
+    bind(nodeId: string, component: KeybindComponent): void {
+        const key = normalizeKey(component.key);
+        const list = this.bindings.get(key) ?? [];
+        list.push({ nodeId, event: component.event, phase: component.phase ?? 'down' });
+        this.bindings.set(key, list);
+    }
+
+    /** Drop every binding owned by a node (called when the node is disposed). */
+    unbindNode(nodeId: string): void {
+        for (const [key, list] of this.bindings) {
+            const remaining = list.filter((b) => b.nodeId !== nodeId);
+            if (remaining.length > 0) {
+                this.bindings.set(key, remaining);
+            } else {
+                this.bindings.delete(key);
+            }
+        }
+    }
+
+    /** Whether a key (a KeyboardEvent.key, as in keybind components) is currently down. */
+    isDown(key: string): boolean {
+        return this.pressed.has(normalizeKey(key));
+    }
+
+    /** Fire `held` bindings for every key currently down. Called once per frame. */
+    update(deltaSeconds: number): void {
+        for (const key of this.pressed) {
+            this.fire(key, 'held', { deltaSeconds });
+        }
+    }
+
+    dispose(): void {
+        window.removeEventListener('keydown', this.onKeyDown);
+        window.removeEventListener('keyup', this.onKeyUp);
+        window.removeEventListener('blur', this.onBlur);
+        this.bindings.clear();
+        this.pressed.clear();
+    }
+
+    // ── Internals ────────────────────────────────────────────────────────────
+
+    private onKeyDown = (e: KeyboardEvent): void => {
+        if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTypingTarget()) return;
+
+        const key = normalizeKey(e.key);
+        this.pressed.add(key);
+        this.fire(key, 'down');
+    };
+
+    private onKeyUp = (e: KeyboardEvent): void => {
+        const key = normalizeKey(e.key);
+        // Only report releases of presses we actually saw
+        if (!this.pressed.delete(key)) return;
+
+        this.fire(key, 'up');
+    };
+
+    private onBlur = (): void => {
+        // Key-ups are lost when the window loses focus; don't leave keys stuck
+        this.pressed.clear();
+    };
+
+    private fire(key: string, phase: Binding['phase'], extra: EventPayload = {}): void {
+        const list = this.bindings.get(key);
+        if (!list) return;
+
+        for (const binding of list) {
+            if (binding.phase !== phase) continue;
+            this.publish(binding.event, { ...extra, nodeId: binding.nodeId, key, phase });
+        }
+    }
+}
+
+/** Single characters match case-insensitively ("w" fires with Shift held). */
+function normalizeKey(key: string): string {
+    return key.length === 1 ? key.toLowerCase() : key;
+}
+
+function isTypingTarget(): boolean {
+    const el = document.activeElement as HTMLElement | null;
+    if (!el) return false;
+
+    if (el.isContentEditable) return true;
+    if (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT') return true;
+
+    // CopilotKit renders its sidebar under `copilotKit*` class names
+    return el.closest('[class*="copilotKit"]') !== null;
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Vector3, type TransformNode } from '@babylonjs/core';
+import { PhysicsWorld } from './PhysicsWorld';
+import { runtimeState } from '../state/RuntimeState';
+import type { SceneNode } from '../../schema/game.schema';
+
+function makeTarget(x: number, y: number, z: number, scale = 1): TransformNode {
+    return {
+        position: new Vector3(x, y, z),
+        rotation: Vector3.Zero(),
+        rotationQuaternion: null,
+        scaling: new Vector3(scale, scale, scale),
+    } as unknown as TransformNode;
+}
+
+const floorNode: SceneNode = { id: 'floor', type: 'mesh', primitive: 'ground', position: [0, 0, 0] };
+const crateNode: SceneNode = { id: 'crate', type: 'mesh', primitive: 'box', position: [0, 3, 0] };
+
+describe('PhysicsWorld', () => {
+    let publish: ReturnType<typeof vi.fn<(eventName: string, payloads: object[]) => void>>;
+    let targets: Map<string, TransformNode>;
+    let physics: PhysicsWorld;
+
+    beforeEach(() => {
+        runtimeState.reset();
+        publish = vi.fn();
+        targets = new Map([
+            ['floor', makeTarget(0, 0, 0)],
+            ['crate', makeTarget(0, 3, 0)],
+        ]);
+        physics = new PhysicsWorld(publish, (id) => targets.get(id));
+        physics.add('floor', floorNode, { type: 'physics', body: 'static' });
+        physics.add('crate', crateNode, { type: 'physics', body: 'dynamic' });
+    });
+
+    afterEach(() => {
+        physics.dispose();
+    });
+
+    function simulate(seconds: number): void {
+        for (let t = 0; t < seconds; t += 1 / 60) physics.step(1 / 60);
+    }
+
+    it('does nothing until play starts', () => {
+        simulate(1);
+
+        expect(targets.get('crate')!.position.y).toBe(3);
+        expect(physics.isSimulated('crate')).toBe(false);
+    });
+
+    it('drops dynamic bodies under gravity and lands them on static ones', () => {
+        physics.start();
+        simulate(3);
+
+        // Box half-height above the ground plane
+        expect(targets.get('crate')!.position.y).toBeCloseTo(0.5, 1);
+        expect(targets.get('floor')!.position.y).toBe(0);
+        expect(physics.isSimulated('crate')).toBe(true);
+        expect(physics.isSimulated('floor')).toBe(false);
+    });
+
+    it('publishes collision.enter once per contact, told from both sides', () => {
+        physics.start();
+        simulate(2);
+
+        const [, payloads] = publish.mock.calls.find(([eventName]) => eventName === 'collision.enter')!;
+        expect(payloads).toHaveLength(2);
+        expect(payloads).toEqual(expect.arrayContaining([
+            { nodeId: 'crate', otherId: 'floor' },
+            { nodeId: 'floor', otherId: 'crate' },
+        ]));
+    });
+
+    it('restores authored poses and removes bodies on stop', () => {
+        physics.start();
+        simulate(1);
+        physics.stop();
+
+        const crate = targets.get('crate')!;
+        expect(crate.position.y).toBe(3);
+        expect(crate.rotationQuaternion).toBeNull();
+        expect(physics.isSimulated('crate')).toBe(false);
+    });
+
+    it('drops bodies of destroyed nodes', () => {
+        physics.start();
+        runtimeState.markDestroyed('floor');
+        simulate(1);
+
+        expect(targets.get('crate')!.position.y).toBeLessThan(0);
+    });
+
+    it('moves kinematic bodies with their node', () => {
+        targets.set('paddle', makeTarget(0, 0.5, 0));
+        physics.add('paddle', { id: 'paddle', type: 'mesh', primitive: 'box', position: [0, 0.5, 0] }, {
+            type: 'physics', body: 'kinematic',
+        });
+        physics.start();
+
+        // Raise the paddle into the falling crate's path
+        targets.get('paddle')!.position.y = 1.5;
+        simulate(2);
+
+        expect(targets.get('crate')!.position.y).toBeCloseTo(2.5, 1);
+        expect(targets.get('paddle')!.position.y).toBe(1.5);
+    });
+});
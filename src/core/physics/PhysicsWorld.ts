@@ -0,0 +1,269 @@
+/**
+ * PhysicsWorld.ts
+ *
+ * Rigid-body simulation for nodes with a `physics` component, backed by
+ * cannon-es. Bodies only exist while playing: `start` builds one per
+ * registered node from its current transform, `stop` removes them and puts
+ * every node back where it was authored.
+ *
+ * Body types
+ * ──────────
+ *   static    → never moves (floors, walls)
+ *   dynamic   → driven by gravity and collisions; writes its pose back to the node
+ *   kinematic → follows its node (moved by behaviors or actions) and pushes
+ *               dynamic bodies out of the way
+ *
+ * Collisions publish `collision.enter` / `collision.exit` once per contact,
+ * told from both sides (`{ nodeId, otherId }` either way round) so each
+ * subscription runs once, with `$event.node` whichever side its `when` names.
+ */
+
+import * as CANNON from 'cannon-es';
+import { Quaternion, type TransformNode, type Vector3 } from '@babylonjs/core';
+import type { PhysicsComponent, SceneNode } from '../../schema/game.schema';
+import type { EventPayload } from '../bus/EventBus';
+import { runtimeState } from '../state/RuntimeState';
+
+/** Publishes one event told from several sides; see EventBus.publishEither. */
+type Publish = (eventName: string, payloads: EventPayload[]) => void;
+
+const GRAVITY = -9.81;
+const FIXED_TIME_STEP = 1 / 60;
+const MAX_SUB_STEPS = 3;
+const DEFAULT_MASS = 1;
+const DEFAULT_FRICTION = 0.3;
+const DEFAULT_RESTITUTION = 0;
+/** Ground colliders are slabs this thick, so fast bodies don't tunnel through. */
+const GROUND_THICKNESS = 1;
+/** Primitive ground meshes are 10×10 units before scaling. */
+const GROUND_SIZE = 10;
+
+interface Registration {
+    node: SceneNode;
+    component: PhysicsComponent;
+}
+
+/** Where a node stood when play started, restored on stop. */
+interface Pose {
+    position: Vector3;
+    rotation: Vector3;
+    rotationQuaternion: Quaternion | null;
+}
+
+export class PhysicsWorld {
+    private world: CANNON.World | null = null;
+    private registrations: Map<string, Registration> = new Map();
+    private bodies: Map<string, CANNON.Body> = new Map();
+    private nodeIds: Map<CANNON.Body, string> = new Map();
+    private poses: Map<string, Pose> = new Map();
+
+    constructor(
+        private publish: Publish,
+        private getNode: (id: string) => TransformNode | undefined,
+    ) { }
+
+    // ── Public API ───────────────────────────────────────────────────────────
+
+    /** Register a node's physics component. Nodes spawned during play get a body right away. */
+    add(nodeId: string, node: SceneNode, component: PhysicsComponent): void {
+        this.registrations.set(nodeId, { node, component });
+        if (this.world) this.createBody(nodeId);
+    }
+
+    /** Keep a registered node's definition current; bodies built from then on use it. */
+    updateNode(nodeId: string, node: SceneNode): void {
+        const registration = this.registrations.get(nodeId);
+        if (registration) registration.node = node;
+    }
+
+    /** Drop a node's body and registration (called when the node is disposed). */
+    remove(nodeId: string): void {
+        this.removeBody(nodeId);
+        this.registrations.delete(nodeId);
+        this.poses.delete(nodeId);
+    }
+
+    /** Whether the simulation, not the document, currently owns this node's transform. */
+    isSimulated(nodeId: string): boolean {
+        return this.bodies.get(nodeId)?.type === CANNON.Body.DYNAMIC;
+    }
+
+    /** Nodes with a static body, which player controllers collide with. */
+    getStaticNodeIds(): string[] {
+        return [...this.registrations]
+            .filter(([, { component }]) => component.body === 'static')
+            .map(([nodeId]) => nodeId);
+    }
+
+    /** Play started — build the world and a body for every registered node. */
+    start(): void {
+        if (this.world) return;
+
+        this.world = new CANNON.World({ gravity: new CANNON.Vec3(0, GRAVITY, 0) });
+        this.world.addEventListener('beginContact', this.onBeginContact);
+        this.world.addEventListener('endContact', this.onEndContact);
+
+        for (const nodeId of this.registrations.keys()) {
+            this.createBody(nodeId);
+        }
+    }
+
+    /** Play stopped — tear the world down and return nodes to their authored poses. */
+    stop(): void {
+        if (!this.world) return;
+
+        for (const [nodeId, pose] of this.poses) {
+            const target = this.getNode(nodeId);
+            if (!target) continue;
+            target.position.copyFrom(pose.position);
+            target.rotation.copyFrom(pose.rotation);
+            target.rotationQuaternion = pose.rotationQuaternion?.clone() ?? null;
+        }
+
+        this.world.removeEventListener('beginContact', this.onBeginContact);
+        this.world.removeEventListener('endContact', this.onEndContact);
+        this.world = null;
+        this.bodies.clear();
+        this.nodeIds.clear();
+        this.poses.clear();
+    }
+
+    /** Advance the simulation by one frame and sync bodies with their nodes. */
+    step(deltaSeconds: number): void {
+        if (!this.world) return;
+
+        for (const [nodeId, body] of this.bodies) {
+            // Destroyed nodes stop colliding
+            if (runtimeState.isDestroyed(nodeId)) {
+                this.removeBody(nodeId);
+                continue;
+            }
+            if (body.type === CANNON.Body.KINEMATIC) {
+                const target = this.getNode(nodeId);
+                if (target) this.copyNodeToBody(target, body);
+            }
+        }
+
+        this.world.step(FIXED_TIME_STEP, deltaSeconds, MAX_SUB_STEPS);
+
+        for (const [nodeId, body] of this.bodies) {
+            if (body.type !== CANNON.Body.DYNAMIC) continue;
+            const target = this.getNode(nodeId);
+            if (!target) continue;
+
+            target.position.set(body.position.x, body.position.y, body.position.z);
+            const q = body.quaternion;
+            if (target.rotationQuaternion) {
+                target.rotationQuaternion.copyFromFloats(q.x, q.y, q.z, q.w);
+            } else {
+                target.rotationQuaternion = new Quaternion(q.x, q.y, q.z, q.w);
+            }
+        }
+    }
+
+    dispose(): void {
+        this.stop();
+        this.registrations.clear();
+    }
+
+    // ── Internals ────────────────────────────────────────────────────────────
+
+    private createBody(nodeId: string): void {
+        const registration = this.registrations.get(nodeId);
+        const target = this.getNode(nodeId);
+        if (!this.world || !registration || !target || this.bodies.has(nodeId)) return;
+        if (runtimeState.isDestroyed(nodeId)) return;
+
+        const { node, component } = registration;
+
+        this.poses.set(nodeId, {
+            position: target.position.clone(),
+            rotation: target.rotation.clone(),
+            rotationQuaternion: target.rotationQuaternion?.clone() ?? null,
+        });
+
+        const body = new CANNON.Body({
+            type: BODY_TYPES[component.body],
+            mass: component.body === 'dynamic' ? (component.mass ?? DEFAULT_MASS) : 0,
+            material: new CANNON.Material({
+                friction: component.friction ?? DEFAULT_FRICTION,
+                restitution: component.restitution ?? DEFAULT_RESTITUTION,
+            }),
+        });
+        addShape(body, node, component, target.scaling);
+        this.copyNodeToBody(target, body);
+
+        this.world.addBody(body);
+        this.bodies.set(nodeId, body);
+        this.nodeIds.set(body, nodeId);
+    }
+
+    private removeBody(nodeId: string): void {
+        const body = this.bodies.get(nodeId);
+        if (!body) return;
+        this.world?.removeBody(body);
+        this.bodies.delete(nodeId);
+        this.nodeIds.delete(body);
+    }
+
+    private copyNodeToBody(target: TransformNode, body: CANNON.Body): void {
+        body.position.set(target.position.x, target.position.y, target.position.z);
+
+        const q = target.rotationQuaternion;
+        if (q) {
+            body.quaternion.set(q.x, q.y, q.z, q.w);
+        } else {
+            // Babylon applies Euler angles yaw (Y), pitch (X), roll (Z)
+            body.quaternion.setFromEuler(target.rotation.x, target.rotation.y, target.rotation.z, 'YXZ');
+        }
+    }
+
+    private onBeginContact = (event: { bodyA?: CANNON.Body; bodyB?: CANNON.Body }): void => {
+        this.publishContact('collision.enter', event);
+    };
+
+    private onEndContact = (event: { bodyA?: CANNON.Body; bodyB?: CANNON.Body }): void => {
+        this.publishContact('collision.exit', event);
+    };
+
+    private publishContact(eventName: string, event: { bodyA?: CANNON.Body; bodyB?: CANNON.Body }): void {
+        // Bodies removed mid-step still report their last contacts
+        const a = event.bodyA && this.nodeIds.get(event.bodyA);
+        const b = event.bodyB && this.nodeIds.get(event.bodyB);
+        if (!a || !b) return;
+
+        this.publish(eventName, [{ nodeId: a, otherId: b }, { nodeId: b, otherId: a }]);
+    }
+}
+
+const BODY_TYPES: Record<PhysicsComponent['body'], CANNON.BodyType> = {
+    static: CANNON.Body.STATIC,
+    dynamic: CANNON.Body.DYNAMIC,
+    kinematic: CANNON.Body.KINEMATIC,
+};
+
+/**
+ * Fit a collider to the node's primitive. Meshes are built at unit size
+ * (ground 10×10), so the node's scaling gives the extents.
+ */
+function addShape(body: CANNON.Body, node: SceneNode, component: PhysicsComponent, scaling: Vector3): void {
+    const shape = component.shape ?? (node.primitive === 'sphere' ? 'sphere' : 'box');
+
+    if (node.primitive === 'ground' && !component.shape) {
+        const halfExtents = new CANNON.Vec3(
+            (GROUND_SIZE / 2) * scaling.x,
+            GROUND_THICKNESS / 2,
+            (GROUND_SIZE / 2) * scaling.z,
+        );
+        // Top face flush with the ground plane
+        body.addShape(new CANNON.Box(halfExtents), new CANNON.Vec3(0, -GROUND_THICKNESS / 2, 0));
+        return;
+    }
+
+    if (shape === 'sphere') {
+        body.addShape(new CANNON.Sphere(0.5 * Math.max(scaling.x, scaling.y, scaling.z)));
+        return;
+    }
+
+    body.addShape(new CANNON.Box(new CANNON.Vec3(0.5 * scaling.x, 0.5 * scaling.y, 0.5 * scaling.z)));
+}
@@ -1,7 +1,15 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fireEvent } from '@testing-library/react';
 import { SceneReconciler } from './SceneReconciler';
-import { GameDocument } from '../../schema/game.schema';
+import {
+    GameDocument,
+    MaterialDefinition,
+    PlayerControllerComponent,
+    SceneNode,
+    TriggerComponent,
+} from '../../schema/game.schema';
 import * as BabylonCore from '@babylonjs/core';
+import { runtimeState } from '../state/RuntimeState';
 
 describe('SceneReconciler', () => {
     let reconciler: SceneReconciler;
@@ -56,6 +64,260 @@ describe('SceneReconciler', () => {
         expect(mesh.scaling.z).toBe(5);
     });
 
+    it('applies Euler rotation in degrees and non-uniform scale over size', () => {
+        reconciler.reconcile({
+            activeScene: 'test',
+            scenes: { test: { nodes: [{ id: 'wall', type: 'mesh', primitive: 'box', position: [0, 0, 0], rotation: [0, 90, 0], scale: [6, 3, 0.5], size: 2 }] } }
+        });
+
+        const mesh = (reconciler as any).nodeMap.get('wall');
+        expect(mesh.rotation.y).toBeCloseTo(Math.PI / 2);
+        expect(mesh.rotationQuaternion).toBeNull();
+        expect([mesh.scaling.x, mesh.scaling.y, mesh.scaling.z]).toEqual([6, 3, 0.5]);
+    });
+
+    it('applies quaternion rotations', () => {
+        reconciler.reconcile({
+            activeScene: 'test',
+            scenes: { test: { nodes: [{ id: 'prop', type: 'mesh', primitive: 'box', position: [0, 0, 0], rotation: [0, 0.7071, 0, 0.7071] }] } }
+        });
+
+        const mesh = (reconciler as any).nodeMap.get('prop');
+        expect(mesh.rotationQuaternion).toMatchObject({ x: 0, y: 0.7071, z: 0, w: 0.7071 });
+    });
+
+    it('parents nodes to earlier or later nodes and detaches them when the parent goes', () => {
+        const nodes = [
+            { id: 'handle', type: 'mesh' as const, primitive: 'box' as const, position: [0.4, 0, 0] as [number, number, number], parent: 'door' },
+            { id: 'door', type: 'mesh' as const, primitive: 'box' as const, position: [2, 1, 0] as [number, number, number] },
+        ];
+        reconciler.reconcile({ activeScene: 'test', scenes: { test: { nodes } } });
+
+        const handle = (reconciler as any).nodeMap.get('handle');
+        const door = (reconciler as any).nodeMap.get('door');
+        expect(handle.parent).toBe(door);
+        expect(handle.position.x).toBe(0.4);
+
+        reconciler.reconcile({ activeScene: 'test', scenes: { test: { nodes: [nodes[0]!] } } });
+
+        expect(handle.parent).toBeNull();
+        expect(door.dispose).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports where a rendered node is now rather than where it was authored', () => {
+        reconciler.reconcile({
+            activeScene: 'test',
+            scenes: { test: { nodes: [{ id: 'chest', type: 'mesh', primitive: 'box', position: [4, 0, 2] }] } }
+        });
+        (reconciler as any).nodeMap.get('chest').position.set(6, 0.5, 2);
+
+        expect(reconciler.getNodePosition('chest')).toEqual([6, 0.5, 2]);
+        expect(reconciler.getNodePosition('ghost')).toBeUndefined();
+    });
+
+    describe('lights', () => {
+        const lightDoc = (light: Partial<SceneNode>): GameDocument => ({
+            activeScene: 'test',
+            scenes: { test: { nodes: [{ id: 'sun', type: 'light', position: [5, 10, 5], ...light }] } },
+        });
+
+        it('defaults to a hemispheric light pointing at the sky', () => {
+            reconciler.reconcile(lightDoc({ intensity: 0.8 }));
+
+            const light = (reconciler as any).nodeMap.get('sun');
+            expect(light).toBeInstanceOf(BabylonCore.HemisphericLight);
+            expect(light.direction.y).toBe(1);
+            expect(light.intensity).toBe(0.8);
+        });
+
+        it('creates spot lights at the node position with range and cone angle', () => {
+            reconciler.reconcile(lightDoc({ lightType: 'spot', direction: [0, -1, 0], range: 20, coneAngle: 90 }));
+
+            const light = (reconciler as any).nodeMap.get('sun');
+            expect(light).toBeInstanceOf(BabylonCore.SpotLight);
+            expect([light.position.x, light.position.y, light.position.z]).toEqual([5, 10, 5]);
+            expect(light.range).toBe(20);
+            expect(light.angle).toBeCloseTo(Math.PI / 2);
+        });
+
+        it('recreates the light when its type changes', () => {
+            reconciler.reconcile(lightDoc({}));
+            const hemispheric = (reconciler as any).nodeMap.get('sun');
+
+            reconciler.reconcile(lightDoc({ lightType: 'directional', direction: [-1, -2, -1] }));
+            const directional = (reconciler as any).nodeMap.get('sun');
+
+            expect(hemispheric.dispose).toHaveBeenCalledTimes(1);
+            expect(directional).toBeInstanceOf(BabylonCore.DirectionalLight);
+            expect(directional.direction.x).toBe(-1);
+            expect(directional.position.y).toBe(10);
+        });
+    });
+
+    describe('PBR materials', () => {
+        const materialDoc = (steel: MaterialDefinition): GameDocument => ({
+            activeScene: 'test',
+            assets: { steel_normal: { type: 'texture', url: '/textures/steel_normal.png' } },
+            materials: { steel },
+            scenes: {
+                test: {
+                    nodes: [
+                        { id: 'pipe_1', type: 'mesh', primitive: 'box', position: [0, 0, 0], material: 'steel' },
+                        { id: 'pipe_2', type: 'mesh', primitive: 'box', position: [2, 0, 0], material: 'steel', color: '#ff0000' },
+                        { id: 'lamp', type: 'mesh', primitive: 'sphere', position: [0, 2, 0], material: { emissive: '#ffcc00', alpha: 0.5 } },
+                    ],
+                },
+            },
+        });
+
+        it('shares library materials between nodes and builds inline ones per node', () => {
+            reconciler.reconcile(materialDoc({ metallic: 1, roughness: 0.3, normalTexture: 'steel_normal', uvScale: [4, 2] }));
+
+            const pipe1 = (reconciler as any).nodeMap.get('pipe_1');
+            const pipe2 = (reconciler as any).nodeMap.get('pipe_2');
+            const lamp = (reconciler as any).nodeMap.get('lamp');
+
+            expect(pipe1.material).toBeInstanceOf(BabylonCore.PBRMaterial);
+            expect(pipe2.material).toBe(pipe1.material);
+            expect(pipe1.material.metallic).toBe(1);
+            expect(pipe1.material.roughness).toBe(0.3);
+            expect(pipe1.material.bumpTexture).toMatchObject({ url: '/textures/steel_normal.png', uScale: 4, vScale: 2 });
+            expect(lamp.material.name).toBe('pbr_lamp');
+            expect(lamp.material.alpha).toBe(0.5);
+        });
+
+        it('rebuilds a material only when its definition changes', () => {
+            reconciler.reconcile(materialDoc({ normalTexture: 'steel_normal' }));
+            const material = (reconciler as any).nodeMap.get('pipe_1').material;
+            const normalMap = material.bumpTexture;
+
+            reconciler.reconcile(materialDoc({ normalTexture: 'steel_normal' }));
+            expect(material.bumpTexture).toBe(normalMap);
+
+            reconciler.reconcile(materialDoc({ normalTexture: 'steel_normal', roughness: 0.5 }));
+            expect(material.bumpTexture).not.toBe(normalMap);
+            expect(normalMap.dispose).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('cameras', () => {
+        const cameraDoc = (camera: Partial<SceneNode> = {}): GameDocument => ({
+            activeScene: 'test',
+            scenes: {
+                test: {
+                    activeCamera: 'cam',
+                    nodes: [
+                        { id: 'player', type: 'mesh', primitive: 'box', position: [1, 0, 1] },
+                        { id: 'cam', type: 'camera', cameraType: 'follow', position: [0, 5, -10], target: 'player', fov: 60, ...camera },
+                    ],
+                },
+            },
+        });
+
+        beforeEach(() => {
+            runtimeState.reset();
+        });
+
+        it('creates camera nodes aimed at their target', () => {
+            reconciler.reconcile(cameraDoc());
+
+            const cam = (reconciler as any).nodeMap.get('cam');
+            expect(cam).toBeInstanceOf(BabylonCore.FollowCamera);
+            expect(cam.lockedTarget).toBe((reconciler as any).nodeMap.get('player'));
+            expect(cam.fov).toBeCloseTo(Math.PI / 3);
+            expect(reconciler.getScene().activeCamera).toBe((reconciler as any).editorCamera);
+        });
+
+        it('looks through the active camera in play mode and restores the editor view on stop', () => {
+            reconciler.reconcile(cameraDoc());
+            const editorCamera = (reconciler as any).editorCamera;
+            editorCamera.alpha = 1;
+
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(0.016);
+            expect(reconciler.getScene().activeCamera).toBe((reconciler as any).nodeMap.get('cam'));
+
+            // The user orbits the editor camera while play runs
+            editorCamera.alpha = 2;
+
+            runtimeState.reset();
+            reconciler.reconcile(cameraDoc());
+
+            expect(reconciler.getScene().activeCamera).toBe(editorCamera);
+            expect(editorCamera.alpha).toBe(1);
+        });
+
+        it('recreates the camera when its type changes', () => {
+            reconciler.reconcile(cameraDoc());
+            const follow = (reconciler as any).nodeMap.get('cam');
+
+            reconciler.reconcile(cameraDoc({ cameraType: 'fixed', target: [0, 0, 0] }));
+
+            const fixed = (reconciler as any).nodeMap.get('cam');
+            expect(follow.dispose).toHaveBeenCalledTimes(1);
+            expect(fixed).toBeInstanceOf(BabylonCore.UniversalCamera);
+            expect(fixed.setTarget).toHaveBeenCalledWith(expect.objectContaining({ x: 0, y: 0, z: 0 }));
+        });
+    });
+
+    describe('shadows', () => {
+        const shadowDoc = (sunCasts: boolean): GameDocument => ({
+            activeScene: 'test',
+            scenes: {
+                test: {
+                    nodes: [
+                        { id: 'sun', type: 'light', lightType: 'directional', position: [5, 10, 5], castShadows: sunCasts },
+                        { id: 'crate', type: 'mesh', primitive: 'box', position: [0, 0.5, 0], castShadows: true },
+                        { id: 'floor', type: 'mesh', primitive: 'ground', position: [0, 0, 0], receiveShadows: true },
+                    ],
+                },
+            },
+        });
+
+        beforeEach(() => {
+            runtimeState.reset();
+        });
+
+        it('renders shadow casters into the light\'s shadow map', () => {
+            reconciler.reconcile(shadowDoc(true));
+
+            const generator = (reconciler as any).shadowGenerators.get('sun');
+            const crate = (reconciler as any).nodeMap.get('crate');
+            const floor = (reconciler as any).nodeMap.get('floor');
+            expect(generator.getShadowMap().renderList).toEqual([crate]);
+            expect(floor.receiveShadows).toBe(true);
+            expect(crate.receiveShadows).toBe(false);
+        });
+
+        it('drops destroyed and removed casters from the render list', () => {
+            reconciler.reconcile(shadowDoc(true));
+            const generator = (reconciler as any).shadowGenerators.get('sun');
+
+            runtimeState.markDestroyed('crate');
+            reconciler.reconcile(shadowDoc(true));
+            expect(generator.getShadowMap().renderList).toEqual([]);
+
+            runtimeState.reset();
+            reconciler.reconcile(shadowDoc(true));
+            expect(generator.getShadowMap().renderList).toHaveLength(1);
+
+            const doc = shadowDoc(true);
+            doc.scenes.test!.nodes.splice(1, 1);
+            reconciler.reconcile(doc);
+            expect(generator.getShadowMap().renderList).toEqual([]);
+        });
+
+        it('disposes the generator when the light stops casting shadows', () => {
+            reconciler.reconcile(shadowDoc(true));
+            const generator = (reconciler as any).shadowGenerators.get('sun');
+
+            reconciler.reconcile(shadowDoc(false));
+
+            expect(generator.dispose).toHaveBeenCalledTimes(1);
+            expect((reconciler as any).shadowGenerators.has('sun')).toBe(false);
+        });
+    });
+
     it('garbage collects meshes when they are removed from the document', () => {
         reconciler.reconcile({
             activeScene: 'test',
@@ -74,4 +336,949 @@ describe('SceneReconciler', () => {
         expect(mesh.dispose).toHaveBeenCalledTimes(1);
         expect((reconciler as any).nodeMap.has('temp_node')).toBe(false);
     });
+
+    it('renders nodes spawned at runtime and disposes them once cleared', () => {
+        const doc: GameDocument = { activeScene: 'test', scenes: { test: { nodes: [] } } };
+        runtimeState.spawnNode({ id: 'coin_1', type: 'mesh', primitive: 'sphere', position: [1, 2, 3] });
+
+        reconciler.reconcile(doc);
+
+        const mesh = (reconciler as any).nodeMap.get('coin_1');
+        expect(mesh.position.x).toBe(1);
+
+        runtimeState.reset();
+        reconciler.reconcile(doc);
+
+        expect(mesh.dispose).toHaveBeenCalledTimes(1);
+        expect((reconciler as any).nodeMap.has('coin_1')).toBe(false);
+    });
+
+    describe('rotate component', () => {
+        const rotatingDoc: GameDocument = {
+            activeScene: 'test',
+            scenes: {
+                test: {
+                    nodes: [{
+                        id: 'spinner',
+                        type: 'mesh',
+                        primitive: 'box',
+                        position: [0, 0, 0],
+                        components: [{ type: 'rotate', axis: 'y', speed: 90 }],
+                    }],
+                },
+            },
+        };
+
+        beforeEach(() => {
+            runtimeState.reset();
+        });
+
+        it('spins the mesh by speed × delta while playing', () => {
+            reconciler.reconcile(rotatingDoc);
+            const mesh = (reconciler as any).nodeMap.get('spinner');
+
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(2);
+
+            expect(mesh.rotation.y).toBeCloseTo(Math.PI);
+        });
+
+        it('does not spin in edit mode', () => {
+            reconciler.reconcile(rotatingDoc);
+            const mesh = (reconciler as any).nodeMap.get('spinner');
+
+            (reconciler as any).updateFrame(2);
+
+            expect(mesh.rotation.y).toBe(0);
+        });
+
+        it('keeps the runtime spin when gameplay triggers a reconcile', () => {
+            reconciler.reconcile(rotatingDoc);
+            const mesh = (reconciler as any).nodeMap.get('spinner');
+
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(1);
+            reconciler.reconcile(rotatingDoc);
+
+            expect(mesh.rotation.y).toBeCloseTo(Math.PI / 2);
+        });
+
+        it('restores the authored orientation when play stops', () => {
+            reconciler.reconcile(rotatingDoc);
+            const mesh = (reconciler as any).nodeMap.get('spinner');
+
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(1);
+            (reconciler as any).updateFrame(1);
+            expect(mesh.rotation.y).not.toBe(0);
+
+            runtimeState.reset();
+            (reconciler as any).updateFrame(1);
+
+            expect(mesh.rotation.y).toBe(0);
+        });
+
+        it('attaches components added or edited after the node was created', () => {
+            const spinner = { ...rotatingDoc.scenes.test!.nodes[0]!, components: undefined };
+            reconciler.reconcile({ activeScene: 'test', scenes: { test: { nodes: [spinner] } } });
+            const mesh = (reconciler as any).nodeMap.get('spinner');
+
+            reconciler.reconcile(rotatingDoc);
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(1);
+            expect(mesh.rotation.y).toBeCloseTo(Math.PI / 2);
+
+            reconciler.reconcile({
+                activeScene: 'test',
+                scenes: { test: { nodes: [{ ...spinner, components: [{ type: 'rotate', axis: 'x', speed: 90 }] }] } },
+            });
+            // The replaced behavior restored the authored orientation before the new one took over
+            expect(mesh.rotation.y).toBe(0);
+            (reconciler as any).updateFrame(1);
+            expect(mesh.rotation.x).toBeCloseTo(Math.PI / 2);
+            expect(mesh.rotation.y).toBe(0);
+        });
+
+        it('detaches click actions and key bindings when components are removed', () => {
+            const button: SceneNode = {
+                id: 'button',
+                type: 'mesh',
+                primitive: 'box',
+                position: [0, 0, 0],
+                components: [
+                    { type: 'clickable', event: 'button.clicked' },
+                    { type: 'keybind', key: 'e', event: 'button.pressed' },
+                ],
+            };
+            const publish = vi.fn();
+            reconciler.bus = { publish } as any;
+            reconciler.reconcile({ activeScene: 'test', scenes: { test: { nodes: [button] } } });
+            const mesh = (reconciler as any).nodeMap.get('button');
+            const actionManager = mesh.actionManager;
+            expect(actionManager).toBeTruthy();
+
+            reconciler.reconcile({ activeScene: 'test', scenes: { test: { nodes: [{ ...button, components: [] }] } } });
+
+            expect(actionManager.dispose).toHaveBeenCalled();
+            expect(mesh.actionManager).toBeNull();
+            runtimeState.isPlaying = true;
+            fireEvent.keyDown(window, { key: 'e' });
+            expect(publish).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('collectible component', () => {
+        const pickupDoc: GameDocument = {
+            activeScene: 'test',
+            scenes: {
+                test: {
+                    nodes: [
+                        { id: 'player', type: 'mesh', primitive: 'box', position: [0, 0, 0] },
+                        {
+                            id: 'coin',
+                            type: 'mesh',
+                            primitive: 'sphere',
+                            position: [3, 0, 0],
+                            components: [{ type: 'collectible', event: 'coin.collected' }],
+                        },
+                    ],
+                },
+            },
+        };
+
+        let publish: ReturnType<typeof vi.fn>;
+
+        beforeEach(() => {
+            runtimeState.reset();
+            publish = vi.fn();
+            reconciler.bus = { publish } as any;
+        });
+
+        it('publishes once when the player overlaps the collectible', () => {
+            reconciler.reconcile(pickupDoc);
+            const player = (reconciler as any).nodeMap.get('player');
+            player.position.set(2.5, 0, 0);
+
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(0.016);
+            (reconciler as any).updateFrame(0.016);
+
+            expect(publish).toHaveBeenCalledTimes(1);
+            expect(publish).toHaveBeenCalledWith('coin.collected', { nodeId: 'coin', collectorId: 'player' });
+        });
+
+        it('does not fire without an overlap', () => {
+            reconciler.reconcile(pickupDoc);
+
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(0.016);
+
+            expect(publish).not.toHaveBeenCalled();
+        });
+
+        it('skips collectibles that are already destroyed', () => {
+            reconciler.reconcile(pickupDoc);
+            const player = (reconciler as any).nodeMap.get('player');
+            player.position.set(2.5, 0, 0);
+
+            runtimeState.isPlaying = true;
+            runtimeState.markDestroyed('coin');
+            (reconciler as any).updateFrame(0.016);
+
+            expect(publish).not.toHaveBeenCalled();
+        });
+
+        it('collects with GLB models as collector and collectible', () => {
+            reconciler.reconcile(pickupDoc);
+            // Loaded models replace the placeholder mesh with a TransformNode root
+            const player = new BabylonCore.TransformNode('player');
+            const coin = new BabylonCore.TransformNode('coin');
+            coin.position.set(3, 0, 0);
+            (reconciler as any).nodeMap.set('player', player);
+            (reconciler as any).nodeMap.set('coin', coin);
+
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(0.016);
+            expect(publish).not.toHaveBeenCalled();
+
+            player.position.set(2.2, 0, 0);
+            (reconciler as any).updateFrame(0.016);
+            expect(publish).toHaveBeenCalledWith('coin.collected', { nodeId: 'coin', collectorId: 'player' });
+        });
+
+        it('can be collected again after play restarts', () => {
+            reconciler.reconcile(pickupDoc);
+            const player = (reconciler as any).nodeMap.get('player');
+            player.position.set(2.5, 0, 0);
+
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(0.016);
+            runtimeState.reset();
+            (reconciler as any).updateFrame(0.016);
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(0.016);
+
+            expect(publish).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('physics component', () => {
+        const physicsDoc: GameDocument = {
+            activeScene: 'test',
+            scenes: {
+                test: {
+                    nodes: [
+                        {
+                            id: 'floor',
+                            type: 'mesh',
+                            primitive: 'ground',
+                            position: [0, 0, 0],
+                            components: [{ type: 'physics', body: 'static' }],
+                        },
+                        {
+                            id: 'ball',
+                            type: 'mesh',
+                            primitive: 'sphere',
+                            position: [0, 5, 0],
+                            components: [{ type: 'physics', body: 'dynamic' }],
+                        },
+                    ],
+                },
+            },
+        };
+
+        let publish: ReturnType<typeof vi.fn>;
+        let publishEither: ReturnType<typeof vi.fn>;
+
+        beforeEach(() => {
+            runtimeState.reset();
+            publish = vi.fn();
+            publishEither = vi.fn();
+            reconciler.bus = { publish, publishEither } as any;
+        });
+
+        function playFor(seconds: number): void {
+            runtimeState.isPlaying = true;
+            for (let t = 0; t < seconds; t += 1 / 60) (reconciler as any).updateFrame(1 / 60);
+        }
+
+        it('simulates dynamic bodies only while playing', () => {
+            reconciler.reconcile(physicsDoc);
+            const ball = (reconciler as any).nodeMap.get('ball');
+
+            (reconciler as any).updateFrame(1);
+            expect(ball.position.y).toBe(5);
+
+            playFor(0.5);
+            expect(ball.position.y).toBeLessThan(5);
+        });
+
+        it('keeps the simulated pose when gameplay triggers a reconcile', () => {
+            reconciler.reconcile(physicsDoc);
+            const ball = (reconciler as any).nodeMap.get('ball');
+
+            playFor(0.5);
+            const y = ball.position.y;
+            reconciler.reconcile(physicsDoc);
+
+            expect(ball.position.y).toBe(y);
+        });
+
+        it('publishes collision events through the bus', () => {
+            reconciler.reconcile(physicsDoc);
+
+            playFor(2);
+
+            expect(publishEither).toHaveBeenCalledWith('collision.enter', expect.arrayContaining([{ nodeId: 'ball', otherId: 'floor' }]));
+        });
+
+        it('resets bodies to their authored position when play stops', () => {
+            reconciler.reconcile(physicsDoc);
+            const ball = (reconciler as any).nodeMap.get('ball');
+
+            playFor(1);
+            runtimeState.reset();
+            (reconciler as any).updateFrame(0.016);
+
+            expect(ball.position.y).toBe(5);
+            expect(ball.rotationQuaternion).toBeNull();
+        });
+
+        it('removes the body when the node leaves the document', () => {
+            reconciler.reconcile(physicsDoc);
+            playFor(0.1);
+
+            reconciler.reconcile({
+                ...physicsDoc,
+                scenes: { test: { nodes: [physicsDoc.scenes.test!.nodes[0]!] } },
+            });
+
+            expect((reconciler as any).physics.bodies.has('ball')).toBe(false);
+        });
+    });
+
+    describe('timers', () => {
+        let publish: ReturnType<typeof vi.fn>;
+
+        beforeEach(() => {
+            runtimeState.reset();
+            publish = vi.fn();
+            reconciler.bus = { publish } as any;
+        });
+
+        it('publishes timer events through the bus while playing', () => {
+            runtimeState.startTimer('wave', { event: 'wave.spawn', duration: 1, repeat: true });
+
+            (reconciler as any).updateFrame(5);
+            expect(publish).not.toHaveBeenCalled();
+
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(0.6);
+            (reconciler as any).updateFrame(0.6);
+
+            expect(publish).toHaveBeenCalledTimes(1);
+            expect(publish).toHaveBeenCalledWith('wave.spawn', { timer: 'wave', count: 1 });
+        });
+    });
+
+    describe('node overrides', () => {
+        const overrideDoc: GameDocument = {
+            activeScene: 'test',
+            materials: { steel: { metallic: 1 } },
+            scenes: {
+                test: {
+                    nodes: [
+                        { id: 'door', type: 'mesh', primitive: 'box', position: [0, 1, 0], material: 'steel' },
+                        { id: 'crate', type: 'mesh', primitive: 'box', position: [3, 0, 0] },
+                    ],
+                },
+            },
+        };
+
+        beforeEach(() => {
+            runtimeState.reset();
+        });
+
+        it('renders overrides during play and the authored nodes again when play stops', () => {
+            reconciler.reconcile(overrideDoc);
+            const door = (reconciler as any).nodeMap.get('door');
+            const crate = (reconciler as any).nodeMap.get('crate');
+            const steel = door.material;
+
+            runtimeState.isPlaying = true;
+            runtimeState.setNodeProperty('door', 'position', [0, 4, 0]);
+            runtimeState.setNodeProperty('door', 'color', '#ff0000');
+            runtimeState.setNodeProperty('crate', 'scale', [2, 1, 2]);
+            runtimeState.setNodeProperty('crate', 'color', '#00ff00');
+            reconciler.reconcile(overrideDoc);
+
+            expect(door.position.y).toBe(4);
+            expect(door.material).toBeInstanceOf(BabylonCore.StandardMaterial);
+            expect([crate.scaling.x, crate.scaling.y, crate.scaling.z]).toEqual([2, 1, 2]);
+            expect(crate.material).toBeInstanceOf(BabylonCore.StandardMaterial);
+
+            runtimeState.reset();
+            reconciler.reconcile(overrideDoc);
+
+            expect(door.position.y).toBe(1);
+            expect(door.material).toBe(steel);
+            expect(crate.scaling.x).toBe(1);
+            expect(crate.material).toBeNull();
+        });
+
+        it('advances tweens every frame while playing', () => {
+            reconciler.reconcile(overrideDoc);
+            const crate = (reconciler as any).nodeMap.get('crate');
+
+            runtimeState.isPlaying = true;
+            runtimeState.startTween({
+                nodeId: 'crate', property: 'position', from: [3, 0, 0], to: [3, 2, 0], duration: 1, easing: 'linear',
+            });
+            (reconciler as any).updateFrame(0.5);
+            expect(crate.position.y).toBeCloseTo(1);
+
+            (reconciler as any).updateFrame(1);
+            expect(crate.position.y).toBe(2);
+            expect(runtimeState.tweens.size).toBe(0);
+        });
+    });
+
+    describe('animations', () => {
+        const animationDoc = (activeScene = 'test'): GameDocument => ({
+            activeScene,
+            scenes: {
+                test: {
+                    nodes: [
+                        { id: 'door', type: 'mesh', primitive: 'box', position: [0, 0, 0], size: 1 },
+                        { id: 'lamp', type: 'light', lightType: 'point', position: [0, 3, 0], intensity: 1 },
+                    ],
+                    animations: {
+                        pulse: {
+                            target: 'lamp',
+                            tracks: [{ property: 'intensity', keyframes: [{ time: 0, value: 1 }, { time: 1, value: 3 }] }],
+                            loop: 'pingPong',
+                            autoPlay: true,
+                        },
+                        open: {
+                            target: 'door',
+                            tracks: [
+                                { property: 'scale', keyframes: [{ time: 1, value: [2, 2, 2] }] },
+                                { property: 'color', keyframes: [{ time: 1, value: '#ff0000' }] },
+                            ],
+                        },
+                    },
+                },
+                other: { nodes: [] },
+            },
+        });
+
+        let beginDirectAnimation: ReturnType<typeof vi.fn>;
+
+        beforeEach(() => {
+            runtimeState.reset();
+            beginDirectAnimation = (reconciler as any).scene.beginDirectAnimation;
+        });
+
+        it('auto-plays animations when play starts and plays others on request', () => {
+            reconciler.reconcile(animationDoc());
+            reconciler.playAnimation('open');
+            expect(beginDirectAnimation).not.toHaveBeenCalled();
+
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(0.016);
+            expect(beginDirectAnimation).toHaveBeenCalledTimes(1);
+            expect(beginDirectAnimation.mock.calls[0]![0]).toBe((reconciler as any).nodeMap.get('lamp'));
+
+            reconciler.playAnimation('open');
+            const door = (reconciler as any).nodeMap.get('door');
+            const [target, animations] = beginDirectAnimation.mock.calls[1]!;
+            expect(target).toBe(door);
+            expect(animations.map((a: any) => a.targetProperty)).toEqual(['scaling', 'material.diffuseColor']);
+            expect(door.material).toBeInstanceOf(BabylonCore.StandardMaterial);
+        });
+
+        it('leaves animated properties alone until play stops', () => {
+            reconciler.reconcile(animationDoc());
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(0.016);
+            reconciler.playAnimation('open');
+
+            const door = (reconciler as any).nodeMap.get('door');
+            const lamp = (reconciler as any).nodeMap.get('lamp');
+            door.scaling.setAll(2);
+            lamp.intensity = 2.5;
+            reconciler.reconcile(animationDoc());
+            expect(door.scaling.x).toBe(2);
+            expect(lamp.intensity).toBe(2.5);
+
+            runtimeState.reset();
+            reconciler.reconcile(animationDoc());
+            expect(door.scaling.x).toBe(1);
+            expect(lamp.intensity).toBe(1);
+            expect(door.material).toBeNull();
+            expect(beginDirectAnimation.mock.results[1]!.value.stop).toHaveBeenCalled();
+        });
+
+        it('stops animations when the scene changes', () => {
+            reconciler.reconcile(animationDoc());
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(0.016);
+
+            reconciler.reconcile(animationDoc('other'));
+
+            expect(beginDirectAnimation.mock.results[0]!.value.stop).toHaveBeenCalled();
+        });
+    });
+
+    describe('GLB assets', () => {
+        const hero: SceneNode = { id: 'hero', type: 'mesh', asset: 'knight', position: [0, 0, 0] };
+        const assetDoc = (nodes: SceneNode[]): GameDocument => ({
+            activeScene: 'test',
+            assets: { knight: { type: 'glb', url: '/models/knight.glb' } },
+            scenes: { test: { nodes } },
+        });
+
+        let finishLoad: (container: unknown) => void;
+        let container: { instantiateModelsToScene: ReturnType<typeof vi.fn>; animationGroups: unknown[]; dispose: () => void };
+
+        beforeEach(() => {
+            container = { instantiateModelsToScene: vi.fn(), animationGroups: [], dispose: vi.fn() };
+            vi.mocked(BabylonCore.SceneLoader.LoadAssetContainerAsync).mockReturnValueOnce(
+                new Promise((resolve) => { finishLoad = resolve; }) as any,
+            );
+        });
+
+        it('drops a model that finishes loading after its node was removed', async () => {
+            reconciler.reconcile(assetDoc([hero]));
+            reconciler.reconcile(assetDoc([]));
+
+            finishLoad(container);
+            await new Promise((resolve) => setTimeout(resolve, 0));
+
+            expect(container.instantiateModelsToScene).not.toHaveBeenCalled();
+            expect((reconciler as any).nodeMap.has('hero')).toBe(false);
+        });
+
+        it('leaves a re-created node to its own load', async () => {
+            reconciler.reconcile(assetDoc([hero]));
+            reconciler.reconcile(assetDoc([]));
+            reconciler.reconcile(assetDoc([hero]));
+            const placeholder = (reconciler as any).nodeMap.get('hero');
+
+            finishLoad(container);
+            await new Promise((resolve) => setTimeout(resolve, 0));
+
+            expect(container.instantiateModelsToScene).not.toHaveBeenCalled();
+            expect((reconciler as any).nodeMap.get('hero')).toBe(placeholder);
+            expect((reconciler as any).loadingNodes.get('hero')).toBe(placeholder);
+        });
+    });
+
+    describe('animation clips', () => {
+        const clipDoc: GameDocument = {
+            activeScene: 'test',
+            scenes: {
+                test: {
+                    nodes: [
+                        { id: 'hero', type: 'mesh', primitive: 'box', position: [0, 0, 0], animationClip: 'Idle', animationSpeed: 2 },
+                    ],
+                },
+            },
+        };
+
+        function mockGroup(): BabylonCore.AnimationGroup {
+            return {
+                start: vi.fn(),
+                stop: vi.fn(),
+                dispose: vi.fn(),
+                targetedAnimations: [],
+            } as unknown as BabylonCore.AnimationGroup;
+        }
+
+        let idle: BabylonCore.AnimationGroup;
+        let run: BabylonCore.AnimationGroup;
+
+        beforeEach(() => {
+            runtimeState.reset();
+            idle = mockGroup();
+            run = mockGroup();
+            reconciler.reconcile(clipDoc);
+        });
+
+        it('announces loaded clips and auto-plays the node clip when play starts', () => {
+            const dispatchEventSpy = vi.spyOn(window, 'dispatchEvent');
+            (reconciler as any).registerClips('hero', 'knight', new Map([['Idle', idle], ['Run', run]]));
+
+            const event = dispatchEventSpy.mock.calls[0]![0] as CustomEvent;
+            expect(event.type).toBe('assets:animation_clips');
+            expect(event.detail).toEqual({ asset: 'knight', clips: ['Idle', 'Run'] });
+            expect(idle.start).not.toHaveBeenCalled();
+
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(0.016);
+            expect(idle.start).toHaveBeenCalledWith(true, 2);
+
+            runtimeState.isPlaying = false;
+            (reconciler as any).updateFrame(0.016);
+            expect(idle.stop).toHaveBeenCalled();
+            dispatchEventSpy.mockRestore();
+        });
+
+        it('starts the clip of a model that finishes loading during play', () => {
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(0.016);
+
+            (reconciler as any).registerClips('hero', 'knight', new Map([['Idle', idle]]));
+
+            expect(idle.start).toHaveBeenCalledWith(true, 2);
+        });
+
+        it('switches clips during play only, defaulting to the node settings', () => {
+            (reconciler as any).registerClips('hero', 'knight', new Map([['Idle', idle], ['Run', run]]));
+            reconciler.playClip('hero', 'Run');
+            expect(run.start).not.toHaveBeenCalled();
+
+            runtimeState.isPlaying = true;
+            reconciler.playClip('hero', 'Run', { loop: false });
+            expect(run.start).toHaveBeenCalledWith(false, 2);
+
+            reconciler.stopClip('hero');
+            expect(run.stop).toHaveBeenCalled();
+        });
+
+        it('disposes the clips of removed nodes', () => {
+            (reconciler as any).registerClips('hero', 'knight', new Map([['Idle', idle]]));
+
+            reconciler.reconcile({ activeScene: 'test', scenes: { test: { nodes: [] } } });
+
+            expect(idle.dispose).toHaveBeenCalled();
+        });
+    });
+
+    describe('audio', () => {
+        const audioDoc: GameDocument = {
+            activeScene: 'test',
+            assets: {
+                song: { type: 'audio', url: '/audio/song.mp3' },
+                coin: { type: 'audio', url: '/audio/coin.wav' },
+            },
+            scenes: {
+                test: {
+                    nodes: [{
+                        id: 'radio',
+                        type: 'mesh',
+                        primitive: 'box',
+                        position: [0, 0, 0],
+                        components: [{ type: 'audioSource', sound: 'song', loop: true, autoPlay: true }],
+                    }],
+                },
+            },
+        };
+
+        let sounds: any[];
+
+        beforeEach(() => {
+            runtimeState.reset();
+            sounds = (BabylonCore.Sound as any).instances;
+            sounds.length = 0;
+            reconciler.reconcile(audioDoc);
+            for (const sound of sounds) sound.readyToPlayCallback();
+        });
+
+        it('plays audio sources only while playing and silences them on reset', () => {
+            const [radio] = sounds;
+            expect(radio.url).toBe('/audio/song.mp3');
+            expect(radio.play).not.toHaveBeenCalled();
+
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(0.016);
+            expect(radio.play).toHaveBeenCalledTimes(1);
+
+            runtimeState.reset();
+            expect(radio.stop).toHaveBeenCalled();
+        });
+
+        it('suppresses play_sound in edit mode', () => {
+            reconciler.playSound({ sound: 'coin' });
+            reconciler.playSound({ nodeId: 'radio' });
+
+            expect(sounds).toHaveLength(1);
+            expect(sounds[0].play).not.toHaveBeenCalled();
+        });
+
+        it('plays one-shots from the asset manifest', () => {
+            runtimeState.isPlaying = true;
+            reconciler.playSound({ sound: 'coin', nodeId: 'radio', volume: 0.5 });
+
+            const coin = sounds[1];
+            expect(coin.url).toBe('/audio/coin.wav');
+            expect(coin.options).toMatchObject({ volume: 0.5, spatialSound: true });
+
+            reconciler.stopSound({ sound: 'coin' });
+            expect(coin.dispose).toHaveBeenCalled();
+        });
+
+        it('silences destroyed nodes and disposes removed ones', () => {
+            runtimeState.isPlaying = true;
+            (reconciler as any).updateFrame(0.016);
+            const [radio] = sounds;
+
+            runtimeState.markDestroyed('radio');
+            reconciler.reconcile(audioDoc);
+            expect(radio.stop).toHaveBeenCalled();
+
+            reconciler.reconcile({ ...audioDoc, scenes: { test: { nodes: [] } } });
+            expect(radio.dispose).toHaveBeenCalled();
+        });
+    });
+
+    describe('trigger component', () => {
+        const zoneDoc = (trigger: Partial<TriggerComponent> = {}): GameDocument => ({
+            activeScene: 'test',
+            scenes: {
+                test: {
+                    nodes: [
+                        {
+                            id: 'zone',
+                            type: 'mesh',
+                            primitive: 'box',
+                            position: [0, 0, 0],
+                            scale: [4, 2, 4],
+                            components: [{
+                                type: 'trigger',
+                                onEnter: 'zone.entered',
+                                onExit: 'zone.left',
+                                ...trigger,
+                            }],
+                        },
+                        { id: 'player', type: 'mesh', primitive: 'box', position: [10, 0, 0], tags: ['hero'] },
+                        { id: 'crate', type: 'mesh', primitive: 'box', position: [10, 0, 0] },
+                    ],
+                },
+            },
+        });
+
+        let publish: ReturnType<typeof vi.fn>;
+
+        beforeEach(() => {
+            runtimeState.reset();
+            publish = vi.fn();
+            reconciler.bus = { publish } as any;
+            runtimeState.isPlaying = true;
+        });
+
+        const move = (id: string, x: number) => (reconciler as any).nodeMap.get(id).position.set(x, 0, 0);
+
+        it('publishes enter and exit once as a node crosses the volume', () => {
+            reconciler.reconcile(zoneDoc());
+
+            move('player', 1.5);
+            (reconciler as any).updateFrame(0.016);
+            (reconciler as any).updateFrame(0.016);
+            move('player', 2.5);
+            (reconciler as any).updateFrame(0.016);
+
+            expect(publish.mock.calls).toEqual([
+                ['zone.entered', { nodeId: 'zone', otherId: 'player' }],
+                ['zone.left', { nodeId: 'zone', otherId: 'player' }],
+            ]);
+        });
+
+        it('publishes onStay every frame while inside', () => {
+            reconciler.reconcile(zoneDoc({ onStay: 'zone.stay' }));
+
+            move('player', 0);
+            (reconciler as any).updateFrame(0.016);
+            (reconciler as any).updateFrame(0.016);
+            (reconciler as any).updateFrame(0.016);
+
+            expect(publish).toHaveBeenCalledWith('zone.stay', { nodeId: 'zone', otherId: 'player', deltaSeconds: 0.016 });
+            expect(publish.mock.calls.filter(([event]) => event === 'zone.stay')).toHaveLength(2);
+        });
+
+        it('uses an explicit size or sphere radius instead of the node scale', () => {
+            reconciler.reconcile(zoneDoc({ shape: 'sphere', radius: 1 }));
+
+            move('player', 1.5);
+            (reconciler as any).updateFrame(0.016);
+            expect(publish).not.toHaveBeenCalled();
+
+            move('player', 0.9);
+            (reconciler as any).updateFrame(0.016);
+            expect(publish).toHaveBeenCalledWith('zone.entered', { nodeId: 'zone', otherId: 'player' });
+        });
+
+        it('only reacts to filtered node ids and tags', () => {
+            reconciler.reconcile(zoneDoc({ tags: ['hero'] }));
+
+            move('crate', 0);
+            (reconciler as any).updateFrame(0.016);
+            expect(publish).not.toHaveBeenCalled();
+
+            move('player', 0);
+            (reconciler as any).updateFrame(0.016);
+            expect(publish).toHaveBeenCalledTimes(1);
+            expect(publish).toHaveBeenCalledWith('zone.entered', { nodeId: 'zone', otherId: 'player' });
+        });
+
+        it('reports destroyed nodes as leaving', () => {
+            reconciler.reconcile(zoneDoc({ nodes: ['crate'] }));
+
+            move('crate', 0);
+            (reconciler as any).updateFrame(0.016);
+            runtimeState.markDestroyed('crate');
+            (reconciler as any).updateFrame(0.016);
+
+            expect(publish).toHaveBeenLastCalledWith('zone.left', { nodeId: 'zone', otherId: 'crate' });
+        });
+
+        it('forgets who was inside when play restarts', () => {
+            reconciler.reconcile(zoneDoc());
+
+            move('player', 0);
+            (reconciler as any).updateFrame(0.016);
+            runtimeState.reset();
+            (reconciler as any).updateFrame(0.016);
+            runtimeState.isPlaying = true;
+            move('player', 0);
+            (reconciler as any).updateFrame(0.016);
+
+            expect(publish.mock.calls.filter(([event]) => event === 'zone.entered')).toHaveLength(2);
+        });
+    });
+
+    describe('playerController component', () => {
+        const levelDoc = (
+            controller: Partial<PlayerControllerComponent> = {},
+            extraNodes: SceneNode[] = [],
+        ): GameDocument => ({
+            activeScene: 'test',
+            scenes: {
+                test: {
+                    nodes: [
+                        {
+                            id: 'player',
+                            type: 'mesh',
+                            primitive: 'box',
+                            position: [0, 0.5, 0],
+                            components: [{ type: 'playerController', ...controller }],
+                        },
+                        ...extraNodes,
+                    ],
+                },
+            },
+        });
+
+        // Top face at y = 0
+        const floor: SceneNode = {
+            id: 'floor',
+            type: 'mesh',
+            primitive: 'box',
+            position: [0, -0.5, 0],
+            scale: [20, 1, 20],
+            components: [{ type: 'physics', body: 'static' }],
+        };
+
+        beforeEach(() => {
+            runtimeState.reset();
+        });
+
+        afterEach(() => {
+            reconciler.dispose();
+        });
+
+        function playFor(seconds: number): void {
+            runtimeState.isPlaying = true;
+            for (let t = 0; t < seconds - 1e-9; t += 1 / 60) (reconciler as any).updateFrame(1 / 60);
+        }
+
+        const player = () => (reconciler as any).nodeMap.get('player');
+
+        it('walks along the camera facing', () => {
+            reconciler.reconcile(levelDoc({ gravity: 0 }));
+            (reconciler as any).editorCamera.getDirection.mockReturnValue(new BabylonCore.Vector3(1, -1, 0));
+
+            fireEvent.keyDown(window, { key: 'w' });
+            playFor(1);
+
+            expect(player().position.x).toBeCloseTo(5);
+            expect(player().position.z).toBeCloseTo(0);
+        });
+
+        it('walks along world axes with remapped keys', () => {
+            reconciler.reconcile(levelDoc({ gravity: 0, speed: 2, movement: 'world', keys: { right: 'ArrowRight' } }));
+            (reconciler as any).editorCamera.getDirection.mockReturnValue(new BabylonCore.Vector3(1, 0, 0));
+
+            fireEvent.keyDown(window, { key: 'ArrowRight' });
+            fireEvent.keyDown(window, { key: 'd' });
+            playFor(1);
+
+            expect(player().position.x).toBeCloseTo(2);
+            expect(player().position.z).toBeCloseTo(0);
+        });
+
+        it('falls onto static meshes and jumps off them', () => {
+            reconciler.reconcile(levelDoc({}, [floor]));
+            player().position.y = 3;
+
+            playFor(1);
+            expect(player().position.y).toBeCloseTo(0.5, 3);
+
+            fireEvent.keyDown(window, { key: ' ' });
+            playFor(0.1);
+            expect(player().position.y).toBeGreaterThan(0.8);
+        });
+
+        it('is stopped by walls', () => {
+            const wall: SceneNode = {
+                id: 'wall',
+                type: 'mesh',
+                primitive: 'box',
+                position: [3, 0.5, 0],
+                components: [{ type: 'physics', body: 'static' }],
+            };
+            reconciler.reconcile(levelDoc({ movement: 'world' }, [floor, wall]));
+
+            fireEvent.keyDown(window, { key: 'd' });
+            playFor(2);
+
+            expect(player().position.x).toBeCloseTo(2, 3);
+        });
+
+        it('collides in world space when parented', () => {
+            const platform: SceneNode = { id: 'platform', type: 'mesh', primitive: 'box', position: [0, 2, 0] };
+            const wall: SceneNode = {
+                id: 'wall',
+                type: 'mesh',
+                primitive: 'box',
+                position: [3, 2.5, 0],
+                components: [{ type: 'physics', body: 'static' }],
+            };
+            const doc = levelDoc({ gravity: 0, movement: 'world' }, [platform, wall]);
+            doc.scenes.test!.nodes[0]!.parent = 'platform';
+            reconciler.reconcile(doc);
+
+            fireEvent.keyDown(window, { key: 'd' });
+            playFor(2);
+
+            // Stopped by the wall in world space, written back relative to the platform
+            expect(player().position.x).toBeCloseTo(2, 3);
+            expect(player().position.y).toBeCloseTo(0.5);
+            expect(player().getAbsolutePosition().y).toBeCloseTo(2.5);
+        });
+
+        it('keeps its position through reconciles and returns to it when play stops', () => {
+            const doc = levelDoc({ gravity: 0, movement: 'world' });
+            reconciler.reconcile(doc);
+
+            fireEvent.keyDown(window, { key: 'w' });
+            playFor(1);
+            reconciler.reconcile(doc);
+            expect(player().position.z).toBeCloseTo(5);
+
+            runtimeState.reset();
+            (reconciler as any).updateFrame(1 / 60);
+            expect(player().position.z).toBe(0);
+        });
+    });
 });
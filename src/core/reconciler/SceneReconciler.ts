@@ -8,11 +8,22 @@
  * Responsibilities
  * ────────────────
  * 1. Initialise Babylon Engine, Scene, and Camera.
- * 2. Reconcile loop:
+ * 2. Reconcile loop (over the document's nodes plus nodes spawned during play):
  *    • Node in JSON but not in scene  → Create it, attach components.
  *    • Node in JSON and in scene      → Update its properties.
  *    • Node marked destroyed          → Hide it (isVisible = false).
+ *    • Node with play-mode overrides  → Render the overridden properties.
  *    • Node in scene but not in JSON  → Dispose it.
+ *    • Node with a `parent`           → Attach it; its transform is local.
+ * 3. Cameras: play mode looks through the scene's `activeCamera` node; edit
+ *    mode keeps the orbiting editor camera, whose pose is restored on stop.
+ * 4. Frame loop: while playing, advance per-frame component behaviors
+ *    (rotate, player controller, collectible overlap, trigger volumes, …), held keybinds,
+ *    the physics world, timers and property tweens; keyframe animations and the
+ *    clips of GLB models run on Babylon's animation system. When play stops, let
+ *    behaviors and physics restore authored state and stop the animations.
+ * 5. Audio: audioSource components and play_sound one-shots only sound while
+ *    playing, and fall silent when play stops or RuntimeState is reset.
  */
 
 import * as BABYLON from '@babylonjs/core';
@@ -20,23 +31,107 @@ import {
     Engine,
     Scene,
     ArcRotateCamera,
+    UniversalCamera,
+    FollowCamera,
     HemisphericLight,
+    DirectionalLight,
+    PointLight,
+    SpotLight,
+    ShadowGenerator,
     MeshBuilder,
     Vector3,
+    Quaternion,
+    TransformNode,
     Color3,
     StandardMaterial,
+    PBRMaterial,
     SceneLoader,
     type AbstractMesh,
     type Node,
+    type Light,
+    type Camera,
+    type IShadowLight,
     type AssetContainer,
+    type AnimationGroup,
 } from '@babylonjs/core';
 import '@babylonjs/loaders/glTF';
 
-import type { GameDocument, SceneNode } from '../../schema/game.schema';
+import {
+    MATERIAL_TEXTURE_FIELDS,
+    type AnimatableProperty,
+    type GameDocument,
+    type MaterialDefinition,
+    type SceneData,
+    type SceneNode,
+} from '../../schema/game.schema';
 import { runtimeState } from '../state/RuntimeState';
 import { attachClickable } from '../components/clickable';
+import { createRotateBehavior } from '../components/rotate';
+import { createCollectibleBehavior } from '../components/collectible';
+import { createTriggerBehavior } from '../components/trigger';
+import { createPlayerControllerBehavior } from '../components/playerController';
+import type { FrameBehavior } from '../components/types';
+import { InputManager } from '../input/InputManager';
+import { PhysicsWorld } from '../physics/PhysicsWorld';
+import { AnimationPlayer } from '../animation/AnimationPlayer';
+import { ClipPlayer, type AnimationClipsDetail } from '../animation/ClipPlayer';
+import { AudioManager } from '../audio/AudioManager';
 import type { EventBus } from '../bus/EventBus';
 
+type LightType = NonNullable<SceneNode['lightType']>;
+
+// Hemispheric lights point at the sky; the others shine downwards
+const DEFAULT_LIGHT_DIRECTIONS: Record<LightType, [number, number, number]> = {
+    hemispheric: [0, 1, 0],
+    directional: [0, -1, 0],
+    point: [0, -1, 0],
+    spot: [0, -1, 0],
+};
+
+const SHADOW_MAP_SIZE = 1024;
+
+type CameraType = NonNullable<SceneNode['cameraType']>;
+
+const DEFAULT_CAMERA_FOV = 45; // degrees
+
+function getLightType(node: SceneNode): LightType {
+    return node.lightType ?? 'hemispheric';
+}
+
+function getCameraType(node: SceneNode): CameraType {
+    return node.cameraType ?? 'free';
+}
+
+/** The Babylon class a light or camera node needs; changing it means recreating the node. */
+function getNodeVariant(node: SceneNode): string | undefined {
+    if (node.type === 'light') return getLightType(node);
+    if (node.type === 'camera') return getCameraType(node);
+    return undefined;
+}
+
+/**
+ * The node as play mode shows it: its authored properties with RuntimeState's
+ * overrides on top. An overridden color or texture replaces the node's
+ * material, and a color also its texture.
+ */
+function withOverrides(node: SceneNode): SceneNode {
+    const overrides = runtimeState.nodeOverrides.get(node.id);
+    if (!overrides) return node;
+
+    const result: SceneNode = { ...node, ...overrides };
+    if (overrides.color !== undefined || overrides.texture !== undefined) delete result.material;
+    if (overrides.color !== undefined && overrides.texture === undefined) delete result.texture;
+    return result;
+}
+
+function toVector3(v: [number, number, number]): Vector3 {
+    return new Vector3(v[0], v[1], v[2]);
+}
+
+function degreesToRadians(degrees: number): number {
+    return degrees * Math.PI / 180;
+}
+
 export class SceneReconciler {
     private engine: Engine;
     private scene: Scene;
@@ -45,8 +140,80 @@ export class SceneReconciler {
     // Asset loading cache: URL → AssetContainer
     private assetCache: Map<string, AssetContainer> = new Map();
 
-    // Track nodes currently loading assets: nodeId → asset URL
-    private loadingNodes: Map<string, string> = new Map();
+    // Track nodes currently loading assets: nodeId → placeholder. A load whose
+    // placeholder is no longer here finished for a node since removed or re-created
+    private loadingNodes: Map<string, AbstractMesh> = new Map();
+
+    // Per-frame component behaviors: nodeId → behaviors
+    private behaviors: Map<string, FrameBehavior[]> = new Map();
+
+    // Play state seen on the previous frame, to detect the stop edge
+    private wasPlaying = false;
+
+    // Light / camera kind each node was created as, to recreate on change
+    private nodeVariants: Map<string, string> = new Map();
+
+    // Orbiting camera used while editing (and in play when no camera is authored)
+    private editorCamera: ArcRotateCamera;
+
+    // Editor camera pose saved when play starts, restored when it stops
+    private editorPose: { alpha: number; beta: number; radius: number; target: Vector3 } | null = null;
+
+    // Camera node the active scene plays through (SceneData.activeCamera)
+    private activeCameraId: string | undefined;
+
+    // Authored pose last applied to each camera node (serialized); during play
+    // only a changed pose is re-applied, so user-controlled cameras stay put
+    private appliedCameraPoses: Map<string, string> = new Map();
+
+    // Shadow generators of shadow-casting lights: lightId → generator
+    private shadowGenerators: Map<string, ShadowGenerator> = new Map();
+
+    // Nodes whose meshes go into every shadow map (castShadows, not destroyed)
+    private shadowCasterIds: Set<string> = new Set();
+
+    // Definition (serialized) each PBR material was last built from, so
+    // unchanged materials aren't rebuilt on every reconcile: name → key
+    private materialKeys: Map<string, string> = new Map();
+
+    // Authored position and rotation last applied to each node (serialized), so
+    // reconciles during play don't undo runtime movement unless the document changed it
+    private appliedPositions: Map<string, string> = new Map();
+    private appliedRotations: Map<string, string> = new Map();
+
+    // Components (serialized) each mesh's behaviors, bindings and bodies were
+    // attached from, so edited components get re-attached: id → key
+    private componentKeys: Map<string, string> = new Map();
+
+    // Tags of every mesh node, which trigger volumes filter on: id → tags
+    private meshTags: Map<string, string[]> = new Map();
+
+    // Document and authored nodes of the last reconcile, so tweens can
+    // re-render single nodes between reconciles
+    private doc: GameDocument | null = null;
+    private liveNodes: Map<string, SceneNode> = new Map();
+
+    // Meshes currently shown with a play-mode color or texture; they fall
+    // back to the default material once the override is gone
+    private restyledMeshes: Set<string> = new Set();
+
+    // Keyboard → EventBus routing for keybind components
+    private input: InputManager;
+
+    // Rigid bodies for physics components (only simulated while playing)
+    private physics: PhysicsWorld;
+
+    // Keyframe animations from the scene's animations block (only run while playing)
+    private animations: AnimationPlayer;
+
+    // Animation clips of loaded GLB models (only run while playing)
+    private clips: ClipPlayer = new ClipPlayer();
+
+    // Sounds of audioSource components and play_sound (only heard while playing)
+    private audio: AudioManager;
+
+    // Scene shown by the last reconcile; animations stop when it changes
+    private sceneId: string | null = null;
 
     // Set after construction to break the circular dependency:
     // SceneReconciler ← EventBus ← SceneReconciler
@@ -54,13 +221,29 @@ export class SceneReconciler {
 
     // ── Construction ─────────────────────────────────────────────────────────
 
-    constructor(canvas: HTMLCanvasElement) {
+    constructor(private canvas: HTMLCanvasElement) {
         this.engine = new Engine(canvas, true, {
             preserveDrawingBuffer: true,
             stencil: true,
         });
 
         this.scene = new Scene(this.engine);
+        this.input = new InputManager((event, payload) => this.bus?.publish(event, payload));
+        this.physics = new PhysicsWorld(
+            (event, payloads) => this.bus?.publishEither(event, payloads),
+            (id) => this.nodeMap.get(id) as TransformNode | undefined,
+        );
+        this.animations = new AnimationPlayer(
+            this.scene,
+            (event, payload) => this.bus?.publish(event, payload),
+            (id) => this.nodeMap.get(id),
+            (id, property) => this.getAnimationPath(id, property),
+        );
+        this.audio = new AudioManager(this.scene, (id) => this.nodeMap.get(id) as TransformNode | undefined);
+
+        // The render loop pauses in background tabs, so don't wait for the
+        // next frame to notice play has stopped before silencing sounds
+        window.addEventListener('runtime:reset', this.onRuntimeReset);
 
         const camera = new ArcRotateCamera(
             '__editor_cam',
@@ -73,8 +256,12 @@ export class SceneReconciler {
         camera.attachControl(canvas, true);
         camera.lowerRadiusLimit = 3;
         camera.upperRadiusLimit = 40;
+        this.editorCamera = camera;
 
-        this.engine.runRenderLoop(() => this.scene.render());
+        this.engine.runRenderLoop(() => {
+            this.updateFrame(this.engine.getDeltaTime() / 1000);
+            this.scene.render();
+        });
         window.addEventListener('resize', () => this.engine.resize());
     }
 
@@ -82,6 +269,14 @@ export class SceneReconciler {
         return this.scene;
     }
 
+    /** Where a rendered node is right now, in world space (after physics, behaviors and parenting). */
+    getNodePosition(nodeId: string): [number, number, number] | undefined {
+        const target = this.nodeMap.get(nodeId) as TransformNode | undefined;
+        if (!target) return undefined;
+        const position = target.getAbsolutePosition();
+        return [position.x, position.y, position.z];
+    }
+
     // ── Public API ───────────────────────────────────────────────────────────
 
     reconcile(doc: GameDocument): void {
@@ -91,55 +286,203 @@ export class SceneReconciler {
             return;
         }
 
+        // Play stopped since the last frame — restore behaviors before the
+        // authored transforms are re-applied below
+        if (this.wasPlaying && !runtimeState.isPlaying) {
+            this.stopPlay();
+        }
+
+        // Animations belong to their scene
+        const sceneChanged = this.sceneId !== doc.activeScene;
+        if (sceneChanged) {
+            this.animations.stopAll();
+            this.sceneId = doc.activeScene;
+        }
+
         const visitedIds = new Set<string>();
+        this.shadowCasterIds.clear();
+        this.meshTags.clear();
+        this.liveNodes.clear();
+        this.doc = doc;
 
-        for (const node of sceneData.nodes) {
+        const authoredNodes = [...sceneData.nodes, ...runtimeState.getDynamicNodes()];
+        const nodes = authoredNodes.map(withOverrides);
+
+        for (const authored of authoredNodes) this.liveNodes.set(authored.id, authored);
+
+        for (const node of nodes) {
             visitedIds.add(node.id);
+            if (node.type === 'mesh') this.meshTags.set(node.id, node.tags ?? []);
 
             let item = this.nodeMap.get(node.id);
 
+            // Babylon lights and cameras can't change class — recreate when the type
+            // changes. Children are kept and re-attached by the parenting pass below.
+            if (item && this.nodeVariants.get(node.id) !== getNodeVariant(node)) {
+                // Disposing a light also disposes its shadow generator
+                this.shadowGenerators.delete(node.id);
+                item.dispose(true);
+                this.nodeMap.delete(node.id);
+                item = undefined;
+            }
+
             // 1. Create if missing
             if (!item) {
                 item = this.createNode(node, doc);
                 this.nodeMap.set(node.id, item);
+            }
 
-                // Attach components only on creation
-                if (node.type === 'mesh' && node.components && this.bus) {
+            // Attach components on creation, and again whenever they change
+            if (node.type === 'mesh') {
+                const componentKey = JSON.stringify(node.components ?? []);
+                if (this.componentKeys.get(node.id) !== componentKey) {
+                    this.detachComponents(item as AbstractMesh, node.id);
                     this.attachComponents(item as AbstractMesh, node);
+                    this.componentKeys.set(node.id, componentKey);
+                } else {
+                    this.physics.updateNode(node.id, node);
                 }
             }
 
-            // 2. Update position
-            this.updatePosition(item, node);
-
-            // 3. Update mesh material (color or texture)
-            if (node.type === 'mesh' && (node.color || node.texture)) {
-                this.updateMaterial(item as AbstractMesh, node, doc);
+            // 2. Update transform (position, rotation, scale); cameras are posed below
+            if (node.type !== 'camera') {
+                this.updateTransform(item, node);
             }
 
-            // 4. Update light intensity
-            if (node.type === 'light' && node.intensity !== undefined) {
-                (item as HemisphericLight).intensity = node.intensity;
+            // 3. Update mesh material (PBR material, color or texture)
+            if (node.type === 'mesh') {
+                this.updateLook(item as AbstractMesh, node, doc);
             }
 
-            // 5. Apply size / uniform scaling
-            if (node.type === 'mesh' && node.size !== undefined) {
-                (item as AbstractMesh).scaling.setAll(node.size);
+            // 4. Update light intensity, color and shape
+            if (node.type === 'light') {
+                this.updateLight(item as Light, node);
             }
 
-            // 6. Respect destroyed-node state — hide or show
+            // 5. Respect destroyed-node state — hide or show (and silence)
             if (node.type === 'mesh') {
                 (item as AbstractMesh).isVisible = !runtimeState.isDestroyed(node.id);
+                if (runtimeState.isDestroyed(node.id)) this.audio.stop({ nodeId: node.id });
+            }
+
+            // 6. Shadows: generators for lights, receiving and casting for meshes
+            if (node.type === 'light') {
+                this.updateShadowGenerator(item as Light, node);
+            } else if (node.type === 'mesh') {
+                for (const mesh of this.getShadowMeshes(item)) {
+                    mesh.receiveShadows = node.receiveShadows ?? false;
+                }
+                if (node.castShadows && !runtimeState.isDestroyed(node.id)) {
+                    this.shadowCasterIds.add(node.id);
+                }
             }
         }
 
+        // Parent once every node exists, so children may precede their parent.
+        // This also detaches children from parents about to be disposed below.
+        for (const node of nodes) {
+            const item = this.nodeMap.get(node.id);
+            if (item) this.updateParent(item, node, visitedIds);
+        }
+
+        // Pose cameras once their targets exist
+        for (const node of nodes) {
+            const item = this.nodeMap.get(node.id);
+            if (item && node.type === 'camera') this.updateCamera(item as Camera, node);
+        }
+
         // Dispose orphans (nodes removed from the document)
         for (const [id, item] of this.nodeMap) {
             if (!visitedIds.has(id)) {
                 item.dispose();
                 this.nodeMap.delete(id);
+                this.loadingNodes.delete(id);
+                this.behaviors.delete(id);
+                this.componentKeys.delete(id);
+                this.appliedPositions.delete(id);
+                this.appliedRotations.delete(id);
+                this.nodeVariants.delete(id);
+                this.appliedCameraPoses.delete(id);
+                this.shadowGenerators.delete(id);
+                this.restyledMeshes.delete(id);
+                this.input.unbindNode(id);
+                this.physics.remove(id);
+                this.clips.remove(id);
+                this.audio.remove(id);
             }
         }
+
+        this.syncShadowCasters();
+
+        this.activeCameraId = sceneData.activeCamera;
+        this.updateActiveCamera();
+
+        // A scene entered during play starts its auto-playing animations
+        if (sceneChanged && this.wasPlaying) {
+            this.autoPlayAnimations(sceneData);
+        }
+    }
+
+    /**
+     * Switch a node's model to one of its animation clips (play mode only).
+     * `loop` and `speed` default to the node's animationLoop / animationSpeed.
+     */
+    playClip(nodeId: string, clip: string, options: { loop?: boolean; speed?: number } = {}): void {
+        if (!runtimeState.isPlaying) return;
+        if (!this.clips.hasClips(nodeId)) {
+            console.warn(`[Reconciler] Node "${nodeId}" has no loaded model with animation clips`);
+            return;
+        }
+        const node = this.liveNodes.get(nodeId);
+        this.clips.play(nodeId, clip, {
+            loop: options.loop ?? node?.animationLoop ?? true,
+            speed: options.speed ?? node?.animationSpeed ?? 1,
+        });
+    }
+
+    /** Stop the clip a node's model is playing, holding its current pose. */
+    stopClip(nodeId: string): void {
+        this.clips.stop(nodeId);
+    }
+
+    /**
+     * Play an audio asset once (from `nodeId`'s position if given), or
+     * without `sound` the node's audioSource (play mode only).
+     */
+    playSound(options: { sound?: string; nodeId?: string; volume?: number }): void {
+        if (!runtimeState.isPlaying) return;
+
+        if (options.sound === undefined) {
+            if (options.nodeId !== undefined) this.audio.play(options.nodeId);
+            return;
+        }
+        const asset = this.doc?.assets?.[options.sound];
+        if (asset?.type !== 'audio') {
+            console.warn(`[Reconciler] Sound "${options.sound}" is not an audio asset`);
+            return;
+        }
+        this.audio.playOneShot(options.sound, asset.url, { nodeId: options.nodeId, volume: options.volume });
+    }
+
+    /** Stop the sounds of an audio asset, of a node, or that asset on that node. */
+    stopSound(options: { sound?: string; nodeId?: string }): void {
+        this.audio.stop({ soundKey: options.sound, nodeId: options.nodeId });
+    }
+
+    /** Play one of the active scene's animations, on its own target or on `nodeId` (play mode only). */
+    playAnimation(animationId: string, nodeId?: string): void {
+        const definition = this.doc?.scenes[this.doc.activeScene]?.animations?.[animationId];
+        if (!definition) {
+            console.warn(`[Reconciler] Animation "${animationId}" not found in the active scene`);
+            return;
+        }
+        if (!runtimeState.isPlaying) return;
+        this.animations.play(animationId, definition, nodeId);
+    }
+
+    /** Stop one of the active scene's animations, everywhere or on `nodeId` only. */
+    stopAnimation(animationId: string, nodeId?: string): void {
+        this.animations.stop(animationId, nodeId);
     }
 
     dispose(): void {
@@ -151,6 +494,24 @@ export class SceneReconciler {
         }
         this.assetCache.clear();
         this.loadingNodes.clear();
+        this.behaviors.clear();
+        this.componentKeys.clear();
+        this.appliedPositions.clear();
+        this.appliedRotations.clear();
+        this.nodeVariants.clear();
+        this.appliedCameraPoses.clear();
+        this.shadowGenerators.clear();
+        this.shadowCasterIds.clear();
+        this.materialKeys.clear();
+        this.meshTags.clear();
+        this.liveNodes.clear();
+        this.restyledMeshes.clear();
+        this.input.dispose();
+        this.physics.dispose();
+        this.animations.dispose();
+        this.clips.dispose();
+        this.audio.dispose();
+        window.removeEventListener('runtime:reset', this.onRuntimeReset);
 
         this.scene.dispose();
         this.engine.dispose();
@@ -158,15 +519,163 @@ export class SceneReconciler {
 
     // ── Internals ────────────────────────────────────────────────────────────
 
+    private onRuntimeReset = (): void => {
+        this.audio.stopAll();
+    };
+
+    private updateFrame(deltaSeconds: number): void {
+        const playing = runtimeState.isPlaying;
+
+        if (playing && !this.wasPlaying) {
+            this.startPlay();
+        }
+
+        if (playing) {
+            for (const [id, behaviors] of this.behaviors) {
+                const target = this.nodeMap.get(id) as TransformNode | undefined;
+                if (!target) continue;
+                for (const behavior of behaviors) {
+                    behavior.update(target, deltaSeconds);
+                }
+            }
+            this.input.update(deltaSeconds);
+            this.physics.step(deltaSeconds);
+
+            for (const firing of runtimeState.advanceTimers(deltaSeconds)) {
+                this.bus?.publish(firing.event, { timer: firing.timer, count: firing.count });
+            }
+            for (const nodeId of runtimeState.advanceTweens(deltaSeconds)) {
+                this.refreshNode(nodeId);
+            }
+        } else if (this.wasPlaying) {
+            this.stopPlay();
+        }
+
+        this.wasPlaying = playing;
+    }
+
+    /** Play just started — remember the editor view, start physics and switch to the play camera. */
+    private startPlay(): void {
+        this.physics.start();
+        this.audio.start();
+        const sceneData = this.doc?.scenes[this.doc.activeScene];
+        if (sceneData) this.autoPlayAnimations(sceneData);
+
+        const cam = this.editorCamera;
+        this.editorPose = { alpha: cam.alpha, beta: cam.beta, radius: cam.radius, target: cam.target.clone() };
+        this.updateActiveCamera();
+        this.wasPlaying = true;
+    }
+
+    /** Play just stopped — let behaviors and physics restore authored state and return to the editor view. */
+    private stopPlay(): void {
+        this.physics.stop();
+        this.animations.stopAll();
+        this.clips.stopAll();
+        this.audio.stopAll();
+
+        for (const [id, behaviors] of this.behaviors) {
+            const target = this.nodeMap.get(id) as TransformNode | undefined;
+            if (!target) continue;
+            for (const behavior of behaviors) {
+                behavior.reset?.(target);
+            }
+        }
+
+        this.updateActiveCamera();
+        if (this.editorPose) {
+            const cam = this.editorCamera;
+            cam.setTarget(this.editorPose.target);
+            cam.alpha = this.editorPose.alpha;
+            cam.beta = this.editorPose.beta;
+            cam.radius = this.editorPose.radius;
+            this.editorPose = null;
+        }
+        this.wasPlaying = false;
+    }
+
+    private autoPlayAnimations(sceneData: SceneData): void {
+        for (const [animationId, definition] of Object.entries(sceneData.animations ?? {})) {
+            if (definition.autoPlay) this.animations.play(animationId, definition);
+        }
+        for (const node of sceneData.nodes) this.autoPlayClip(node);
+    }
+
+    /** Start a node's animationClip, unless it waits for play_clip or its model hasn't loaded yet. */
+    private autoPlayClip(node: SceneNode): void {
+        if (!node.animationClip || node.animationAutoPlay === false || !this.clips.hasClips(node.id)) return;
+        this.clips.play(node.id, node.animationClip, {
+            loop: node.animationLoop ?? true,
+            speed: node.animationSpeed ?? 1,
+        });
+    }
+
+    /**
+     * Path of a node property that animation tracks drive, or null if the
+     * node has none. Rotation tracks use Euler angles, so they drop any
+     * quaternion; color tracks on meshes get a material of the node's own.
+     */
+    private getAnimationPath(nodeId: string, property: AnimatableProperty): string | null {
+        const node = this.liveNodes.get(nodeId);
+        const item = this.nodeMap.get(nodeId);
+        if (!node || !item) return null;
+
+        if (node.type === 'light') {
+            if (property === 'color') return 'diffuse';
+            if (property === 'intensity') return 'intensity';
+            return property === 'position' && (item as TransformNode).position ? 'position' : null;
+        }
+        if (node.type !== 'mesh') return null;
+
+        const mesh = item as AbstractMesh;
+        switch (property) {
+            case 'position':
+                return 'position';
+            case 'rotation':
+                mesh.rotationQuaternion = null;
+                return 'rotation';
+            case 'scale':
+                return 'scaling';
+            case 'color': {
+                const matName = `mat_${nodeId}`;
+                if (mesh.material?.name !== matName) {
+                    const mat = (this.scene.getMaterialByName(matName) as StandardMaterial | null)
+                        ?? new StandardMaterial(matName, this.scene);
+                    mat.diffuseTexture = null;
+                    mesh.material = mat;
+                    this.restyledMeshes.add(nodeId);
+                }
+                return 'material.diffuseColor';
+            }
+            default:
+                return null;
+        }
+    }
+
+    /** Play mode looks through the scene's activeCamera (if any), edit mode through the editor camera. */
+    private updateActiveCamera(): void {
+        const playCamera = runtimeState.isPlaying && this.activeCameraId
+            ? (this.nodeMap.get(this.activeCameraId) as Camera | undefined)
+            : undefined;
+        const next = playCamera ?? this.editorCamera;
+        if (this.scene.activeCamera === next) return;
+
+        this.scene.activeCamera?.detachControl();
+        this.scene.activeCamera = next;
+
+        // Follow and fixed cameras aren't user-controlled
+        const cameraType = next === this.editorCamera ? 'orbit' : this.nodeVariants.get(this.activeCameraId!);
+        if (cameraType === 'free' || cameraType === 'orbit') {
+            next.attachControl(this.canvas, true);
+        }
+    }
+
     private createNode(node: SceneNode, doc: GameDocument): Node {
         if (node.type === 'light') {
-            const light = new HemisphericLight(
-                node.id,
-                new Vector3(0, 1, 0),
-                this.scene,
-            );
-            light.intensity = node.intensity ?? 1;
-            return light;
+            return this.createLight(node);
+        }
+        if (node.type === 'camera') {
+            return this.createCamera(node);
         }
 
         // Check if this node references an external asset
@@ -197,6 +706,147 @@ export class SceneReconciler {
         }
     }
 
+    private createLight(node: SceneNode): Light {
+        const lightType = getLightType(node);
+        const position = new Vector3(node.position[0], node.position[1], node.position[2]);
+        const direction = toVector3(node.direction ?? DEFAULT_LIGHT_DIRECTIONS[lightType]);
+
+        let light: Light;
+        switch (lightType) {
+            case 'directional':
+                light = new DirectionalLight(node.id, direction, this.scene);
+                break;
+            case 'point':
+                light = new PointLight(node.id, position, this.scene);
+                break;
+            case 'spot':
+                light = new SpotLight(node.id, position, direction, degreesToRadians(node.coneAngle ?? 45), 2, this.scene);
+                break;
+            case 'hemispheric':
+            default:
+                light = new HemisphericLight(node.id, direction, this.scene);
+        }
+
+        this.nodeVariants.set(node.id, lightType);
+        return light;
+    }
+
+    private createCamera(node: SceneNode): Camera {
+        const cameraType = getCameraType(node);
+        const position = toVector3(node.position);
+
+        let camera: Camera;
+        switch (cameraType) {
+            case 'orbit':
+                camera = new ArcRotateCamera(node.id, 0, Math.PI / 3, 10, Vector3.Zero(), this.scene);
+                break;
+            case 'follow':
+                camera = new FollowCamera(node.id, position, this.scene);
+                break;
+            case 'fixed':
+            case 'free':
+            default:
+                camera = new UniversalCamera(node.id, position, this.scene);
+        }
+
+        this.nodeVariants.set(node.id, cameraType);
+        return camera;
+    }
+
+    private updateCamera(camera: Camera, node: SceneNode): void {
+        camera.fov = degreesToRadians(node.fov ?? DEFAULT_CAMERA_FOV);
+
+        const poseKey = JSON.stringify([node.position, node.rotation ?? null, node.target ?? null]);
+        if (runtimeState.isPlaying && this.appliedCameraPoses.get(node.id) === poseKey) return;
+        this.appliedCameraPoses.set(node.id, poseKey);
+
+        const position = toVector3(node.position);
+        const targetNode = typeof node.target === 'string'
+            ? (this.nodeMap.get(node.target) as TransformNode | undefined)
+            : undefined;
+        const targetPoint = Array.isArray(node.target) ? toVector3(node.target) : targetNode?.getAbsolutePosition();
+
+        switch (getCameraType(node)) {
+            case 'orbit': {
+                const orbit = camera as ArcRotateCamera;
+                orbit.setTarget(targetNode ?? targetPoint ?? Vector3.Zero());
+                orbit.setPosition(position);
+                break;
+            }
+            case 'follow': {
+                const follow = camera as FollowCamera;
+                follow.position.copyFrom(position);
+                follow.lockedTarget = (targetNode as AbstractMesh | undefined) ?? null;
+                if (!targetNode && targetPoint) follow.setTarget(targetPoint);
+                break;
+            }
+            default: {
+                const free = camera as UniversalCamera;
+                free.position.copyFrom(position);
+                if (targetPoint) {
+                    free.setTarget(targetPoint);
+                } else {
+                    const [x, y, z] = node.rotation?.length === 3 ? node.rotation : [0, 0, 0];
+                    free.rotation.set(degreesToRadians(x), degreesToRadians(y), degreesToRadians(z));
+                }
+            }
+        }
+    }
+
+    private updateLight(light: Light, node: SceneNode): void {
+        const lightType = getLightType(node);
+        const animated = this.animations.getAnimatedProperties(node.id);
+
+        if (!animated.has('intensity')) light.intensity = node.intensity ?? 1;
+        if (!animated.has('color')) light.diffuse = node.color ? Color3.FromHexString(node.color) : Color3.White();
+
+        if (lightType !== 'point') {
+            const direction = node.direction ?? DEFAULT_LIGHT_DIRECTIONS[lightType];
+            (light as DirectionalLight).direction.set(direction[0], direction[1], direction[2]);
+        }
+        if (lightType === 'point' || lightType === 'spot') {
+            light.range = node.range ?? Number.MAX_VALUE;
+        }
+        if (lightType === 'spot') {
+            (light as SpotLight).angle = degreesToRadians(node.coneAngle ?? 45);
+        }
+    }
+
+    private updateShadowGenerator(light: Light, node: SceneNode): void {
+        const castShadows = Boolean(node.castShadows) && getLightType(node) !== 'hemispheric';
+        const existing = this.shadowGenerators.get(node.id);
+
+        if (existing && !castShadows) {
+            existing.dispose();
+            this.shadowGenerators.delete(node.id);
+        } else if (!existing && castShadows) {
+            const generator = new ShadowGenerator(SHADOW_MAP_SIZE, light as IShadowLight);
+            generator.usePercentageCloserFiltering = true;
+            this.shadowGenerators.set(node.id, generator);
+        }
+    }
+
+    /** Point every shadow map's render list at the current shadow casters. */
+    private syncShadowCasters(): void {
+        const casters: AbstractMesh[] = [];
+        for (const id of this.shadowCasterIds) {
+            const item = this.nodeMap.get(id);
+            if (item) casters.push(...this.getShadowMeshes(item));
+        }
+
+        for (const generator of this.shadowGenerators.values()) {
+            const shadowMap = generator.getShadowMap();
+            if (shadowMap) shadowMap.renderList = [...casters];
+        }
+    }
+
+    /** Meshes that render a node: itself, or the imported meshes of a loaded GLB. */
+    private getShadowMeshes(item: Node): AbstractMesh[] {
+        return item.getClassName() === 'TransformNode'
+            ? item.getChildMeshes()
+            : [item as AbstractMesh];
+    }
+
     private createAssetNode(node: SceneNode, assetUrl: string): Node {
         // Create a placeholder mesh immediately
         const placeholder = MeshBuilder.CreateBox(
@@ -212,15 +862,15 @@ export class SceneReconciler {
         placeholder.material = loadingMat;
 
         // Track that this node is loading
-        this.loadingNodes.set(node.id, assetUrl);
+        this.loadingNodes.set(node.id, placeholder);
 
         // Start async load
-        this.loadAsset(assetUrl, node.id, placeholder);
+        this.loadAsset(assetUrl, node.id, placeholder, node.asset!);
 
         return placeholder;
     }
 
-    private async loadAsset(url: string, nodeId: string, placeholder: AbstractMesh): Promise<void> {
+    private async loadAsset(url: string, nodeId: string, placeholder: AbstractMesh, assetKey: string): Promise<void> {
         try {
             console.log(`[Reconciler] Loading asset: ${url} for node "${nodeId}"`);
 
@@ -243,6 +893,11 @@ export class SceneReconciler {
                 console.log(`[Reconciler] Using cached asset: ${url}`);
             }
 
+            if (this.loadingNodes.get(nodeId) !== placeholder) {
+                console.log(`[Reconciler] Node "${nodeId}" changed while its asset loaded; skipping it`);
+                return;
+            }
+
             // Replace placeholder with actual meshes
             const instances = container.instantiateModelsToScene(
                 (name) => `${nodeId}_${name}`,
@@ -250,15 +905,25 @@ export class SceneReconciler {
                 { doNotInstantiate: false }
             );
 
-            // Set the root as the main node
+            // Parent the imported roots under a node that carries the authored
+            // transform, leaving the glTF root's handedness conversion intact
             if (instances.rootNodes.length > 0) {
-                const root = instances.rootNodes[0];
-                root.id = nodeId;
-                root.name = nodeId;
+                const root = new TransformNode(nodeId, this.scene);
+                for (const imported of instances.rootNodes) {
+                    imported.parent = root;
+                }
 
-                // Copy position from placeholder
-                if (placeholder.position) {
-                    root.position.copyFrom(placeholder.position);
+                // Copy the transform already applied to the placeholder
+                root.position.copyFrom(placeholder.position);
+                root.rotation.copyFrom(placeholder.rotation);
+                root.rotationQuaternion = placeholder.rotationQuaternion?.clone() ?? null;
+                root.scaling.copyFrom(placeholder.scaling);
+
+                // Keep the placeholder's place in the hierarchy; disposing it
+                // would otherwise take its children along
+                root.parent = placeholder.parent;
+                for (const child of placeholder.getChildren()) {
+                    child.parent = root;
                 }
 
                 // Dispose placeholder
@@ -267,6 +932,19 @@ export class SceneReconciler {
                 // Update nodeMap
                 this.nodeMap.set(nodeId, root);
 
+                // The imported meshes inherit the placeholder's shadow settings
+                for (const mesh of root.getChildMeshes()) {
+                    mesh.receiveShadows = placeholder.receiveShadows;
+                }
+                this.syncShadowCasters();
+
+                // Clones are renamed per node; clips keep the names from the model
+                const clips = new Map<string, AnimationGroup>();
+                instances.animationGroups.forEach((group, i) => {
+                    clips.set(container!.animationGroups[i]!.name, group);
+                });
+                this.registerClips(nodeId, assetKey, clips);
+
                 console.log(`[Reconciler] Asset instantiated for node "${nodeId}"`);
             }
 
@@ -275,6 +953,7 @@ export class SceneReconciler {
 
         } catch (error) {
             console.error(`[Reconciler] Failed to load asset "${url}" for node "${nodeId}":`, error);
+            if (this.loadingNodes.get(nodeId) !== placeholder) return;
 
             // Keep placeholder and mark it as error state
             if (placeholder.material) {
@@ -285,14 +964,135 @@ export class SceneReconciler {
         }
     }
 
-    private updatePosition(item: Node, node: SceneNode): void {
-        const positionable = item as unknown as { position: Vector3 };
-        if (positionable.position) {
-            positionable.position.set(node.position[0], node.position[1], node.position[2]);
+    /** Track a loaded model's clips, announce their names, and start its clip if play is running. */
+    private registerClips(nodeId: string, assetKey: string, clips: Map<string, AnimationGroup>): void {
+        this.clips.register(nodeId, clips);
+        window.dispatchEvent(new CustomEvent<AnimationClipsDetail>('assets:animation_clips', {
+            detail: { asset: assetKey, clips: [...clips.keys()] },
+        }));
+
+        const node = this.liveNodes.get(nodeId);
+        if (node && runtimeState.isPlaying) this.autoPlayClip(node);
+    }
+
+    private updateTransform(item: Node, node: SceneNode): void {
+        // Lights have at most a position (hemispheric lights not even that)
+        const transform = item as TransformNode;
+
+        // Dynamic bodies own their pose while playing, animations the properties they drive
+        const simulated = this.physics.isSimulated(node.id);
+        const animated = this.animations.getAnimatedProperties(node.id);
+
+        if (transform.position && !simulated && !animated.has('position')) {
+            const positionKey = JSON.stringify(node.position);
+            if (!runtimeState.isPlaying || this.appliedPositions.get(node.id) !== positionKey) {
+                transform.position.set(node.position[0], node.position[1], node.position[2]);
+                this.appliedPositions.set(node.id, positionKey);
+            }
+        }
+
+        if (transform.rotation && !simulated && !animated.has('rotation')) {
+            const rotationKey = JSON.stringify(node.rotation ?? null);
+            if (!runtimeState.isPlaying || this.appliedRotations.get(node.id) !== rotationKey) {
+                this.applyRotation(transform, node.rotation);
+                this.appliedRotations.set(node.id, rotationKey);
+            }
+        }
+
+        // `scale` wins over the uniform `size` shorthand
+        if (transform.scaling && !animated.has('scale')) {
+            if (node.scale) {
+                transform.scaling.set(node.scale[0], node.scale[1], node.scale[2]);
+            } else {
+                transform.scaling.setAll(node.size ?? 1);
+            }
+        }
+    }
+
+    private updateParent(item: Node, node: SceneNode, liveIds: Set<string>): void {
+        const parent = node.parent && liveIds.has(node.parent)
+            ? (this.nodeMap.get(node.parent) ?? null)
+            : null;
+
+        // The validator rejects cycles, but never let one reach Babylon
+        for (let ancestor = parent; ancestor; ancestor = ancestor.parent) {
+            if (ancestor === item) {
+                console.warn(`[Reconciler] Ignoring parent "${node.parent}" of "${node.id}": it would create a cycle`);
+                return;
+            }
+        }
+
+        if (item.parent !== parent) {
+            item.parent = parent;
+        }
+    }
+
+    private applyRotation(transform: TransformNode, rotation: SceneNode['rotation']): void {
+        if (rotation?.length === 4) {
+            transform.rotationQuaternion = new Quaternion(rotation[0], rotation[1], rotation[2], rotation[3]);
+            return;
+        }
+
+        // Euler angles in degrees; a quaternion would take precedence, so clear it
+        const [x, y, z] = rotation ?? [0, 0, 0];
+        transform.rotationQuaternion = null;
+        transform.rotation.set(degreesToRadians(x), degreesToRadians(y), degreesToRadians(z));
+    }
+
+    /** Re-render one node's transform, look and light between reconciles (tweens). */
+    private refreshNode(nodeId: string): void {
+        const authored = this.liveNodes.get(nodeId);
+        const item = this.nodeMap.get(nodeId);
+        if (!authored || !item || !this.doc) return;
+
+        const node = withOverrides(authored);
+        if (node.type === 'camera') {
+            this.updateCamera(item as Camera, node);
+        } else {
+            this.updateTransform(item, node);
+        }
+        // Only colors tween, so textures aren't reloaded every frame
+        if (node.type === 'mesh' && runtimeState.nodeOverrides.get(nodeId)?.color !== undefined) {
+            this.updateLook(item as AbstractMesh, node, this.doc);
+        }
+        if (node.type === 'light') this.updateLight(item as Light, node);
+    }
+
+    private updateLook(mesh: AbstractMesh, node: SceneNode, doc: GameDocument): void {
+        // A color animation owns the material until play stops
+        if (this.animations.getAnimatedProperties(node.id).has('color')) return;
+
+        const overrides = runtimeState.nodeOverrides.get(node.id);
+        const restyled = overrides?.color !== undefined || overrides?.texture !== undefined;
+
+        if (node.material || node.color || node.texture) {
+            this.updateMaterial(mesh, node, doc);
+        } else if (this.restyledMeshes.has(node.id)) {
+            // The override is gone (play stopped): back to the default material
+            mesh.material = null;
+        }
+
+        if (restyled) {
+            this.restyledMeshes.add(node.id);
+        } else {
+            this.restyledMeshes.delete(node.id);
         }
     }
 
     private updateMaterial(mesh: AbstractMesh, node: SceneNode, doc: GameDocument): void {
+        // PBR materials: shared from the library, or inline for this node
+        if (typeof node.material === 'string') {
+            const definition = doc.materials?.[node.material];
+            if (definition) {
+                mesh.material = this.getPBRMaterial(`material_${node.material}`, definition, doc);
+                return;
+            }
+            console.warn(`[Reconciler] Material "${node.material}" not found in material library`);
+        } else if (node.material) {
+            mesh.material = this.getPBRMaterial(`pbr_${node.id}`, node.material, doc);
+            return;
+        }
+
         const matName = `mat_${node.id}`;
         let mat = this.scene.getMaterialByName(matName) as StandardMaterial | null;
 
@@ -321,16 +1121,140 @@ export class SceneReconciler {
         mesh.material = mat;
     }
 
+    private getPBRMaterial(name: string, definition: MaterialDefinition, doc: GameDocument): PBRMaterial {
+        let mat = this.scene.getMaterialByName(name) as PBRMaterial | null;
+        if (!mat) {
+            mat = new PBRMaterial(name, this.scene);
+        }
+
+        // Rebuild only when the definition or a texture it uses changed
+        const textureUrls = MATERIAL_TEXTURE_FIELDS.map((field) => {
+            const key = definition[field];
+            return key ? doc.assets?.[key]?.url : undefined;
+        });
+        const key = JSON.stringify([definition, textureUrls]);
+        if (this.materialKeys.get(name) === key) return mat;
+        this.materialKeys.set(name, key);
+
+        mat.albedoColor = definition.baseColor ? Color3.FromHexString(definition.baseColor) : Color3.White();
+        mat.metallic = definition.metallic ?? 0;
+        mat.roughness = definition.roughness ?? 1;
+        mat.emissiveColor = definition.emissive ? Color3.FromHexString(definition.emissive) : Color3.Black();
+        mat.emissiveIntensity = definition.emissiveIntensity ?? 1;
+        mat.alpha = definition.alpha ?? 1;
+
+        // Maps are owned by this material, so release the previous ones
+        for (const texture of [mat.albedoTexture, mat.bumpTexture, mat.ambientTexture, mat.metallicTexture]) {
+            texture?.dispose();
+        }
+
+        const [uScale, vScale] = definition.uvScale ?? [1, 1];
+        const loadMap = (textureKey: string | undefined): BABYLON.Texture | null => {
+            if (!textureKey) return null;
+            const asset = doc.assets?.[textureKey];
+            if (!asset || asset.type !== 'texture') {
+                console.warn(`[Reconciler] Texture "${textureKey}" not found in assets for material "${name}"`);
+                return null;
+            }
+            const texture = new BABYLON.Texture(asset.url, this.scene);
+            texture.uScale = uScale;
+            texture.vScale = vScale;
+            return texture;
+        };
+
+        mat.albedoTexture = loadMap(definition.baseColorTexture);
+        mat.bumpTexture = loadMap(definition.normalTexture);
+        mat.ambientTexture = loadMap(definition.aoTexture);
+        mat.metallicTexture = loadMap(definition.metallicRoughnessTexture);
+        // glTF channel packing: roughness in green, metalness in blue
+        mat.useRoughnessFromMetallicTextureGreen = true;
+        mat.useMetallnessFromMetallicTextureBlue = true;
+        mat.useRoughnessFromMetallicTextureAlpha = false;
+
+        return mat;
+    }
+
+    /** Undo attachComponents: behaviors (restored first while playing), key bindings, bodies, sounds and click actions. */
+    private detachComponents(mesh: AbstractMesh, nodeId: string): void {
+        if (runtimeState.isPlaying) {
+            for (const behavior of this.behaviors.get(nodeId) ?? []) {
+                behavior.reset?.(mesh);
+            }
+        }
+        this.behaviors.delete(nodeId);
+        this.input.unbindNode(nodeId);
+        this.physics.remove(nodeId);
+        this.audio.remove(nodeId);
+        if (mesh.actionManager) {
+            mesh.actionManager.dispose();
+            mesh.actionManager = null;
+        }
+    }
+
     private attachComponents(mesh: AbstractMesh, node: SceneNode): void {
-        if (!node.components || !this.bus) return;
+        if (!node.components) return;
+
+        const behaviors: FrameBehavior[] = [];
 
         for (const component of node.components) {
             switch (component.type) {
                 case 'clickable':
-                    attachClickable(mesh, component, this.scene, this.bus);
+                    if (this.bus) attachClickable(mesh, component, this.scene, this.bus);
+                    break;
+                case 'rotate':
+                    behaviors.push(createRotateBehavior(component));
+                    break;
+                case 'keybind':
+                    this.input.bind(node.id, component);
+                    break;
+                case 'physics':
+                    this.physics.add(node.id, node, component);
+                    break;
+                case 'trigger':
+                    if (this.bus) {
+                        behaviors.push(createTriggerBehavior(
+                            node.id,
+                            component,
+                            (id) => this.nodeMap.get(id) as TransformNode | undefined,
+                            () => this.meshTags,
+                            this.bus,
+                        ));
+                    }
+                    break;
+                case 'playerController':
+                    behaviors.push(createPlayerControllerBehavior(node.id, component, {
+                        isDown: (key) => this.input.isDown(key),
+                        getCamera: () => this.scene.activeCamera,
+                        getColliders: () => this.physics.getStaticNodeIds()
+                            .filter((id) => !runtimeState.isDestroyed(id))
+                            .map((id) => this.nodeMap.get(id) as TransformNode | undefined)
+                            .filter((item): item is TransformNode => item !== undefined),
+                    }));
+                    break;
+                case 'audioSource': {
+                    const asset = this.doc?.assets?.[component.sound];
+                    if (asset?.type === 'audio') {
+                        this.audio.add(node.id, component, asset.url);
+                    } else {
+                        console.warn(`[Reconciler] Sound "${component.sound}" of node "${node.id}" is not an audio asset`);
+                    }
+                    break;
+                }
+                case 'collectible':
+                    if (this.bus) {
+                        behaviors.push(createCollectibleBehavior(
+                            node.id,
+                            component,
+                            (id) => this.nodeMap.get(id) as TransformNode | undefined,
+                            this.bus,
+                        ));
+                    }
                     break;
-                // Phase 2: rotate, keybind, collectible
             }
         }
+
+        if (behaviors.length > 0) {
+            this.behaviors.set(node.id, behaviors);
+        }
     }
 }
@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { gameDocumentStore } from './GameDocumentStore';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { gameDocumentStore, startAutosave } from './GameDocumentStore';
 import { mockGameDoc, GameDocument } from '../../schema/game.schema';
 
 describe('GameDocumentStore', () => {
@@ -60,14 +60,42 @@ describe('GameDocumentStore', () => {
         ];
 
         // Apply it twice (this simulates the double execution error)
-        gameDocumentStore.getState().applyPatch(doublePatch);
-        gameDocumentStore.getState().applyPatch(doublePatch);
+        const first = gameDocumentStore.getState().applyPatch(doublePatch);
+        const second = gameDocumentStore.getState().applyPatch(doublePatch);
 
         const modifiedDoc = gameDocumentStore.getState().doc;
-        // The `-` operator should resolve to array.length each time.
-        // Even if applied twice, it appends two items. By testing this, we ensure
-        // it doesn't crash on undefined paths. 
-        expect(modifiedDoc.scenes.level_1.nodes.length).toBe(initialNodesCount + 2);
+        // The `-` operator resolves to array.length each time, so the second
+        // append doesn't crash — it is rejected as a duplicate node id instead.
+        expect(first.success).toBe(true);
+        expect(second.success).toBe(false);
+        expect(second.issues?.[0]?.path).toBe(`/scenes/level_1/nodes/${initialNodesCount + 1}/id`);
+        expect(modifiedDoc.scenes.level_1.nodes.length).toBe(initialNodesCount + 1);
+    });
+
+    it('rejects patches that fail validation without touching the document', () => {
+        const originalDoc = gameDocumentStore.getState().doc;
+
+        const result = gameDocumentStore.getState().applyPatch([
+            { op: 'replace', path: '/nodes/0/color', value: 'red' }
+        ]);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('/scenes/level_1/nodes/0/color');
+        expect(gameDocumentStore.getState().doc).toBe(originalDoc);
+    });
+
+    it('rejects references to unknown assets with an actionable JSON Pointer', () => {
+        const result = gameDocumentStore.getState().applyPatch([
+            { op: 'add', path: '/nodes/1/texture', value: 'missing_texture' }
+        ]);
+
+        expect(result.success).toBe(false);
+        expect(result.issues).toEqual([
+            {
+                path: '/scenes/level_1/nodes/1/texture',
+                message: 'Texture "missing_texture" is not in the asset manifest (/assets)',
+            },
+        ]);
     });
 
     it('maintains state references causing React updates via draft clone', () => {
@@ -81,4 +109,214 @@ describe('GameDocumentStore', () => {
         expect(newDoc).not.toBe(originalDoc); // Must be a new reference
         expect(newDoc.activeScene).toBe('some_new_scene');
     });
+
+    describe('undo/redo history', () => {
+        beforeEach(() => {
+            gameDocumentStore.getState().clearHistory();
+        });
+
+        it('undoes and redoes an applyPatch', () => {
+            const store = gameDocumentStore.getState();
+            store.applyPatch([{ op: 'replace', path: '/nodes/1/color', value: '#abcdef' }]);
+            expect(gameDocumentStore.getState().canUndo).toBe(true);
+
+            expect(gameDocumentStore.getState().undo()).toBe(true);
+            expect(gameDocumentStore.getState().doc.scenes.level_1!.nodes[1]!.color).toBe('#334433');
+            expect(gameDocumentStore.getState().canRedo).toBe(true);
+
+            expect(gameDocumentStore.getState().redo()).toBe(true);
+            expect(gameDocumentStore.getState().doc.scenes.level_1!.nodes[1]!.color).toBe('#abcdef');
+        });
+
+        it('records patchDoc and setDoc changes', () => {
+            gameDocumentStore.getState().patchDoc((draft) => {
+                draft.activeScene = 'level_2';
+            });
+            const replaced = structuredClone(gameDocumentStore.getState().doc);
+            replaced.scenes.level_2!.nodes = [];
+            gameDocumentStore.getState().setDoc(replaced);
+
+            gameDocumentStore.getState().undo();
+            expect(gameDocumentStore.getState().doc.scenes.level_2!.nodes.length).toBeGreaterThan(0);
+
+            gameDocumentStore.getState().undo();
+            expect(gameDocumentStore.getState().doc.activeScene).toBe('level_1');
+            expect(gameDocumentStore.getState().canUndo).toBe(false);
+        });
+
+        it('does not record no-op replacements', () => {
+            gameDocumentStore.getState().setDoc(structuredClone(gameDocumentStore.getState().doc));
+
+            expect(gameDocumentStore.getState().canUndo).toBe(false);
+        });
+
+        it('groups every change inside a transaction into one step', () => {
+            gameDocumentStore.getState().transaction(() => {
+                gameDocumentStore.getState().applyPatch([{ op: 'replace', path: '/nodes/1/color', value: '#111111' }]);
+                gameDocumentStore.getState().applyPatch([{ op: 'replace', path: '/nodes/2/color', value: '#222222' }]);
+            });
+
+            expect(gameDocumentStore.getState().past).toHaveLength(1);
+
+            gameDocumentStore.getState().undo();
+            const nodes = gameDocumentStore.getState().doc.scenes.level_1!.nodes;
+            expect(nodes[1]!.color).toBe('#334433');
+            expect(nodes[2]!.color).toBe('#ffd700');
+        });
+
+        it('clears the redo stack when a new change is made', () => {
+            const store = gameDocumentStore.getState();
+            store.applyPatch([{ op: 'replace', path: '/nodes/1/color', value: '#111111' }]);
+            gameDocumentStore.getState().undo();
+            gameDocumentStore.getState().applyPatch([{ op: 'replace', path: '/nodes/1/color', value: '#222222' }]);
+
+            expect(gameDocumentStore.getState().canRedo).toBe(false);
+            expect(gameDocumentStore.getState().redo()).toBe(false);
+        });
+
+        it('returns false when there is nothing to undo', () => {
+            expect(gameDocumentStore.getState().undo()).toBe(false);
+        });
+    });
+
+    describe('saving', () => {
+        let fetchMock: ReturnType<typeof vi.fn>;
+
+        const respond = (status: number, body: object) =>
+            fetchMock.mockResolvedValueOnce({
+                ok: status >= 200 && status < 300,
+                status,
+                statusText: '',
+                json: () => Promise.resolve(body),
+            });
+
+        beforeEach(() => {
+            fetchMock = vi.fn();
+            vi.stubGlobal('fetch', fetchMock);
+            gameDocumentStore.getState().markLoaded('hash_1');
+        });
+
+        afterEach(() => {
+            vi.unstubAllGlobals();
+            vi.useRealTimers();
+        });
+
+        it('marks the document dirty after an edit and clean after undoing it', () => {
+            gameDocumentStore.getState().applyPatch([{ op: 'replace', path: '/nodes/1/color', value: '#111111' }]);
+            expect(gameDocumentStore.getState().isDirty).toBe(true);
+
+            gameDocumentStore.getState().undo();
+            expect(gameDocumentStore.getState().isDirty).toBe(false);
+        });
+
+        it('PUTs the document with the loaded hash as If-Match', async () => {
+            gameDocumentStore.getState().applyPatch([{ op: 'replace', path: '/nodes/1/color', value: '#111111' }]);
+            respond(200, { success: true, hash: 'hash_2' });
+
+            const result = await gameDocumentStore.getState().save();
+
+            expect(result.status).toBe('saved');
+            const [url, init] = fetchMock.mock.calls[0]!;
+            expect(url).toBe('/api/game');
+            expect(init.method).toBe('PUT');
+            expect(init.headers['If-Match']).toBe('"hash_1"');
+            expect(JSON.parse(init.body)).toEqual(gameDocumentStore.getState().doc);
+
+            const state = gameDocumentStore.getState();
+            expect(state.savedHash).toBe('hash_2');
+            expect(state.isDirty).toBe(false);
+            expect(state.saveStatus).toBe('saved');
+        });
+
+        it('reports a conflict when the file changed on disk', async () => {
+            gameDocumentStore.getState().applyPatch([{ op: 'replace', path: '/nodes/1/color', value: '#111111' }]);
+            respond(412, { error: 'game.json changed on disk since it was loaded' });
+
+            const result = await gameDocumentStore.getState().save();
+
+            expect(result.status).toBe('conflict');
+            expect(gameDocumentStore.getState().saveStatus).toBe('conflict');
+            expect(gameDocumentStore.getState().isDirty).toBe(true);
+        });
+
+        it('overwrites without If-Match when forced', async () => {
+            respond(200, { success: true, hash: 'hash_3' });
+
+            await gameDocumentStore.getState().save({ force: true });
+
+            expect(fetchMock.mock.calls[0]![1].headers['If-Match']).toBeUndefined();
+        });
+
+        it('refuses to save when the document was not loaded through the API', async () => {
+            gameDocumentStore.getState().markLoaded(null);
+
+            const result = await gameDocumentStore.getState().save();
+
+            expect(result.status).toBe('error');
+            expect(fetchMock).not.toHaveBeenCalled();
+        });
+
+        it('autosaves once after a burst of edits', async () => {
+            vi.useFakeTimers();
+            respond(200, { success: true, hash: 'hash_2' });
+            const stop = startAutosave(1000);
+
+            gameDocumentStore.getState().applyPatch([{ op: 'replace', path: '/nodes/1/color', value: '#111111' }]);
+            await vi.advanceTimersByTimeAsync(500);
+            gameDocumentStore.getState().applyPatch([{ op: 'replace', path: '/nodes/1/color', value: '#222222' }]);
+            await vi.advanceTimersByTimeAsync(1000);
+
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            expect(gameDocumentStore.getState().isDirty).toBe(false);
+            stop();
+        });
+    });
+
+    describe('play scenes', () => {
+        beforeEach(() => {
+            gameDocumentStore.getState().clearHistory();
+            gameDocumentStore.getState().markLoaded('hash_1');
+        });
+
+        afterEach(() => {
+            gameDocumentStore.getState().restoreAuthoredScene();
+            vi.unstubAllGlobals();
+        });
+
+        it('switches scenes without an undo step or unsaved changes', () => {
+            gameDocumentStore.getState().enterPlayScene('level_2');
+            gameDocumentStore.getState().enterPlayScene('boss_room');
+
+            const state = gameDocumentStore.getState();
+            expect(state.doc.activeScene).toBe('boss_room');
+            expect(state.canUndo).toBe(false);
+            expect(state.isDirty).toBe(false);
+        });
+
+        it('returns to the authored scene when play stops', () => {
+            gameDocumentStore.getState().enterPlayScene('level_2');
+            gameDocumentStore.getState().applyPatch([{ op: 'replace', path: '/scenes/level_1/nodes/1/color', value: '#111111' }]);
+            gameDocumentStore.getState().restoreAuthoredScene();
+
+            const state = gameDocumentStore.getState();
+            expect(state.doc.activeScene).toBe('level_1');
+            expect(state.doc.scenes.level_1!.nodes[1]!.color).toBe('#111111');
+            expect(state.isDirty).toBe(true);
+        });
+
+        it('saves the authored scene while another is being played', async () => {
+            const fetchMock = vi.fn().mockResolvedValue({
+                ok: true,
+                status: 200,
+                statusText: '',
+                json: () => Promise.resolve({ success: true, hash: 'hash_2' }),
+            });
+            vi.stubGlobal('fetch', fetchMock);
+
+            gameDocumentStore.getState().enterPlayScene('level_2');
+            await gameDocumentStore.getState().save({ force: true });
+
+            expect(JSON.parse(fetchMock.mock.calls[0]![1].body).activeScene).toBe('level_1');
+        });
+    });
 });
@@ -6,43 +6,116 @@
  * Uses vanilla Zustand (createStore) so it can be consumed both:
  *  - Imperatively by EventBus / reconciler
  *  - Via React hooks by the editor UI (useStore)
+ *
+ * Every document replacement is recorded as a pair of JSON Patches
+ * (forward + inverse) so edits can be undone and redone. `transaction`
+ * folds several replacements into a single undoable step.
+ *
+ * The store also tracks whether the document differs from what is on
+ * disk and saves it through the dev server (explicitly or via autosave).
+ *
+ * Scenes entered during play (`enterPlayScene`) are not edits: they leave
+ * no undo step, don't make the document dirty, aren't saved, and the
+ * authored scene comes back when play stops (`restoreAuthoredScene`).
  */
 
 import { createStore } from 'zustand/vanilla';
 import { useStore } from 'zustand';
-import { applyPatch as applyJsonPatch, type Operation } from 'fast-json-patch';
+import { applyPatch as applyJsonPatch, compare, type Operation } from 'fast-json-patch';
 import type { GameDocument } from '../../schema/game.schema';
 import { runtimeState } from './RuntimeState';
-import { validatePatches } from '../../schema/validator';
+import { validatePatches, type ValidationIssue } from '../../schema/validator';
+import { saveGameDocument, type SaveResult } from './GamePersistence';
 
 // ── Store shape ───────────────────────────────────────────────────────────────
 
 export interface PatchResult {
     success: boolean;
     error?: string;
+    /** Individual problems located by JSON Pointer, when validation failed. */
+    issues?: ValidationIssue[];
+}
+
+interface HistoryEntry {
+    /** Patches that turn the newer document back into the older one. */
+    undo: Operation[];
+    /** Patches that re-apply the change. */
+    redo: Operation[];
 }
 
+/** Oldest entries are dropped beyond this many undo steps. */
+const HISTORY_LIMIT = 100;
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error' | 'conflict';
+
 interface GameDocumentState {
     doc: GameDocument;
+    /** Undo stack, most recent last. */
+    past: HistoryEntry[];
+    /** Redo stack, most recent last. */
+    future: HistoryEntry[];
+    canUndo: boolean;
+    canRedo: boolean;
     /** Replace the entire document (triggers all subscribers). */
     setDoc: (doc: GameDocument) => void;
     /** Patch helper — returns a fresh object so Zustand detects the change. */
     patchDoc: (updater: (draft: GameDocument) => void) => void;
     /** Apply RFC 6902 JSON Patch operations with Zod validation (used by CopilotKit). */
     applyPatch: (patches: Operation[]) => PatchResult;
+    /** Run `fn` so that every document change inside it becomes one undo step. */
+    transaction: <T>(fn: () => T) => T;
+    /** Revert the most recent change. Returns false if there is nothing to undo. */
+    undo: () => boolean;
+    /** Re-apply the most recently undone change. Returns false if there is nothing to redo. */
+    redo: () => boolean;
+    /** Forget all undo/redo steps (e.g. after loading a document from disk). */
+    clearHistory: () => void;
+    /** Make `scene` active for the rest of play, without recording an edit. */
+    enterPlayScene: (scene: string) => void;
+    /** Play stopped — return to the scene that was active when it started. */
+    restoreAuthoredScene: () => void;
+    /** Content hash of the version on disk; null when saving is unavailable. */
+    savedHash: string | null;
+    /** True when the document differs from the last loaded/saved version. */
+    isDirty: boolean;
+    saveStatus: SaveStatus;
+    saveError?: string;
+    /** Record the current document as the on-disk version with the given hash. */
+    markLoaded: (hash: string | null) => void;
+    /** Write the document to disk. `force` overwrites even if the file changed. */
+    save: (options?: { force?: boolean }) => Promise<SaveResult>;
 }
 
+// Open transaction state: nesting depth and the document before it began
+let transactionDepth = 0;
+let transactionBase: GameDocument | null = null;
+
+// The document as last loaded from / written to disk, for dirty tracking
+let persistedDoc: GameDocument | null = null;
+// Active scene before play switched scenes; null while the authored one is shown
+let authoredScene: string | null = null;
+let pendingSave: Promise<SaveResult> | null = null;
+
 // ── Store instance ────────────────────────────────────────────────────────────
 
 export const gameDocumentStore = createStore<GameDocumentState>()((set, get) => ({
     doc: undefined as unknown as GameDocument,
+    past: [],
+    future: [],
+    canUndo: false,
+    canRedo: false,
+    savedHash: null,
+    isDirty: false,
+    saveStatus: 'idle',
 
     setDoc(doc) {
-        const sceneData = doc.scenes[doc.activeScene];
-        if (sceneData?.variables) {
-            runtimeState.initVariables(sceneData.variables);
+        const previous = get().doc;
+        commitDoc(doc);
+
+        // The very first document (initial load) has nothing to undo to
+        if (previous && transactionDepth === 0) {
+            recordHistory(previous, doc);
         }
-        set({ doc });
     },
 
     patchDoc(updater) {
@@ -98,24 +171,13 @@ export const gameDocumentStore = createStore<GameDocumentState>()((set, get) =>
 
         console.log('[GameDocumentStore] Resolved patches:', JSON.stringify(resolved, null, 2));
 
-        // TEMPORARY: Skip validation for demo
-        const clonedDoc = structuredClone(currentDoc);
-        try {
-            applyJsonPatch(clonedDoc, resolved);
-            get().setDoc(clonedDoc);
-            console.log('[GameDocumentStore] ⚠️ VALIDATION DISABLED - Patches applied directly');
-        } catch (error) {
-            console.error('[GameDocumentStore] Patch failed:', error);
-            return { success: false, error: String(error) };
-        }
-
-        /* // Re-enable validation after demo
+        // Step 2: Apply to a clone and validate (Zod shape + cross-references)
         const validation = validatePatches(currentDoc, resolved);
 
         if (!validation.success) {
             console.error('[GameDocumentStore] Validation FAILED:', validation.error);
             console.error('[GameDocumentStore] Rejected patches:', JSON.stringify(resolved, null, 2));
-            return { success: false, error: validation.error };
+            return { success: false, error: validation.error, issues: validation.issues };
         }
 
         console.log(
@@ -125,14 +187,198 @@ export const gameDocumentStore = createStore<GameDocumentState>()((set, get) =>
         );
 
         get().setDoc(validation.data!);
-        */
 
         return {
             success: true,
         };
     },
+
+    transaction(fn) {
+        if (transactionDepth === 0) {
+            transactionBase = get().doc;
+        }
+        transactionDepth++;
+
+        try {
+            return fn();
+        } finally {
+            transactionDepth--;
+            if (transactionDepth === 0) {
+                const base = transactionBase;
+                transactionBase = null;
+                if (base) recordHistory(base, get().doc);
+            }
+        }
+    },
+
+    undo() {
+        const { past, future, doc } = get();
+        const entry = past[past.length - 1];
+        if (!entry || transactionDepth > 0) return false;
+
+        commitDoc(applyJsonPatch(structuredClone(doc), entry.undo).newDocument);
+        const remaining = past.slice(0, -1);
+        set({
+            past: remaining,
+            future: [...future, entry],
+            canUndo: remaining.length > 0,
+            canRedo: true,
+        });
+        return true;
+    },
+
+    redo() {
+        const { past, future, doc } = get();
+        const entry = future[future.length - 1];
+        if (!entry || transactionDepth > 0) return false;
+
+        commitDoc(applyJsonPatch(structuredClone(doc), entry.redo).newDocument);
+        const remaining = future.slice(0, -1);
+        set({
+            past: [...past, entry],
+            future: remaining,
+            canUndo: true,
+            canRedo: remaining.length > 0,
+        });
+        return true;
+    },
+
+    clearHistory() {
+        set({ past: [], future: [], canUndo: false, canRedo: false });
+    },
+
+    enterPlayScene(scene) {
+        const { doc } = get();
+        if (doc.activeScene === scene) return;
+        authoredScene ??= doc.activeScene;
+        commitDoc({ ...doc, activeScene: scene });
+    },
+
+    restoreAuthoredScene() {
+        if (authoredScene === null) return;
+        const activeScene = authoredScene;
+        authoredScene = null;
+        commitDoc({ ...get().doc, activeScene });
+    },
+
+    markLoaded(hash) {
+        persistedDoc = asAuthored(get().doc);
+        set({ savedHash: hash, isDirty: false, saveStatus: 'idle', saveError: undefined });
+    },
+
+    async save(options = {}) {
+        // Serialize saves so each one carries the hash of the previous write
+        if (pendingSave) await pendingSave.catch(() => undefined);
+
+        const doc = asAuthored(get().doc);
+        const { savedHash } = get();
+        if (savedHash === null && !options.force) {
+            const result: SaveResult = {
+                status: 'error',
+                error: 'Saving requires the dev server (/api/game is unavailable)',
+            };
+            set({ saveStatus: 'error', saveError: result.error });
+            return result;
+        }
+
+        set({ saveStatus: 'saving', saveError: undefined });
+        pendingSave = saveGameDocument(doc, options.force ? null : savedHash);
+        const result = await pendingSave;
+        pendingSave = null;
+
+        switch (result.status) {
+            case 'saved':
+                persistedDoc = doc;
+                set({
+                    savedHash: result.hash,
+                    // Edits made while the request was in flight are still unsaved
+                    isDirty: compare(doc, asAuthored(get().doc)).length > 0,
+                    saveStatus: 'saved',
+                });
+                console.log('[GameDocumentStore] 💾 Saved game.json');
+                break;
+            case 'conflict':
+                set({ saveStatus: 'conflict', saveError: result.error });
+                console.warn('[GameDocumentStore] Save conflict:', result.error);
+                break;
+            default:
+                set({ saveStatus: 'error', saveError: result.error });
+                console.error('[GameDocumentStore] Save failed:', result.error);
+        }
+
+        return result;
+    },
 }));
 
+// ── History helpers ───────────────────────────────────────────────────────────
+
+/** Publish a document without touching history. */
+function commitDoc(doc: GameDocument): void {
+    if (doc.globals) {
+        runtimeState.initGlobals(doc.globals);
+    }
+    const sceneData = doc.scenes[doc.activeScene];
+    if (sceneData?.variables) {
+        runtimeState.initVariables(sceneData.variables);
+    }
+    gameDocumentStore.setState({
+        doc,
+        isDirty: persistedDoc !== null && compare(persistedDoc, asAuthored(doc)).length > 0,
+    });
+}
+
+/** The document as authored, without the scene play switched to. */
+function asAuthored(doc: GameDocument): GameDocument {
+    return authoredScene === null ? doc : { ...doc, activeScene: authoredScene };
+}
+
+function recordHistory(before: GameDocument, after: GameDocument): void {
+    const redo = compare(before, after);
+    if (redo.length === 0) return;
+
+    const { past } = gameDocumentStore.getState();
+    gameDocumentStore.setState({
+        past: [...past, { undo: compare(after, before), redo }].slice(-HISTORY_LIMIT),
+        future: [],
+        canUndo: true,
+        canRedo: false,
+    });
+}
+
+// ── Autosave ──────────────────────────────────────────────────────────────────
+
+/**
+ * Save the document `delayMs` after the last edit. Waits while the game is
+ * playing and stops retrying after a conflict until the user resolves it.
+ * Returns an unsubscribe function.
+ */
+export function startAutosave(delayMs = 1500): () => void {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const schedule = () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+            timer = null;
+            const { isDirty, saveStatus } = gameDocumentStore.getState();
+            if (!isDirty || saveStatus === 'conflict') return;
+            if (runtimeState.isPlaying) {
+                schedule();
+                return;
+            }
+            void gameDocumentStore.getState().save();
+        }, delayMs);
+    };
+
+    const unsub = gameDocumentStore.subscribe((state, prev) => {
+        if (state.doc !== prev.doc && state.isDirty) schedule();
+    });
+
+    return () => {
+        unsub();
+        if (timer) clearTimeout(timer);
+    };
+}
+
 // ── Typed accessors ───────────────────────────────────────────────────────────
 
 export function getGame(): GameDocument {
@@ -0,0 +1,89 @@
+/**
+ * GamePersistence.ts
+ *
+ * HTTP client for the dev server's /api/game endpoint
+ * (see vite-plugin-game-saver.ts). Loads the document together with its
+ * content hash and writes it back, passing the hash as If-Match so the
+ * server can refuse to overwrite a file that changed underneath us.
+ */
+
+import type { GameDocument } from '../../schema/game.schema';
+import type { ValidationIssue } from '../../schema/validator';
+
+const GAME_API_URL = '/api/game';
+const STATIC_GAME_URL = '/game.json';
+
+export interface LoadedGame {
+    doc: GameDocument;
+    /** Content hash of the file on disk, or null when saving is unavailable. */
+    hash: string | null;
+}
+
+export type SaveResult =
+    | { status: 'saved'; hash: string }
+    | { status: 'conflict'; error: string }
+    | { status: 'invalid'; error: string; issues?: ValidationIssue[] }
+    | { status: 'error'; error: string };
+
+/**
+ * Load the game document. Prefers the dev-server API (which supplies the
+ * hash needed for saving) and falls back to the static file, e.g. in a
+ * production build.
+ */
+export async function loadGameDocument(): Promise<LoadedGame> {
+    try {
+        const response = await fetch(GAME_API_URL, { cache: 'no-store' });
+        const hash = parseETag(response.headers?.get('ETag'));
+        if (response.ok && hash) {
+            return { doc: await response.json(), hash };
+        }
+    } catch (error) {
+        console.warn('[GamePersistence] /api/game unavailable, falling back to /game.json:', error);
+    }
+
+    const response = await fetch(STATIC_GAME_URL);
+    if (!response.ok) {
+        throw new Error(`Failed to load game.json: ${response.statusText}`);
+    }
+    return { doc: await response.json(), hash: null };
+}
+
+/**
+ * Write the document to disk. `baseHash` is the hash of the version the
+ * edits started from; pass null to overwrite unconditionally.
+ */
+export async function saveGameDocument(
+    doc: GameDocument,
+    baseHash: string | null,
+): Promise<SaveResult> {
+    try {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (baseHash) {
+            headers['If-Match'] = `"${baseHash}"`;
+        }
+
+        const response = await fetch(GAME_API_URL, {
+            method: 'PUT',
+            headers,
+            body: JSON.stringify(doc),
+        });
+        const body = await response.json().catch(() => ({}));
+
+        if (response.ok) {
+            return { status: 'saved', hash: body.hash };
+        }
+        if (response.status === 412) {
+            return { status: 'conflict', error: body.error ?? 'game.json changed on disk' };
+        }
+        if (response.status === 422) {
+            return { status: 'invalid', error: body.error ?? 'Validation failed', issues: body.issues };
+        }
+        return { status: 'error', error: body.error ?? `Save failed: ${response.status} ${response.statusText}` };
+    } catch (error) {
+        return { status: 'error', error: String(error) };
+    }
+}
+
+function parseETag(etag: string | null | undefined): string | null {
+    return etag ? etag.replace(/^W\//, '').replace(/"/g, '') : null;
+}
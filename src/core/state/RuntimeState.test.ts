@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { runtimeState } from './RuntimeState';
+import { getVariableType, type VariableValue } from '../../schema/game.schema';
 
 describe('RuntimeState', () => {
     beforeEach(() => {
@@ -33,6 +34,208 @@ describe('RuntimeState', () => {
         expect(eventArgs.detail).toEqual({ key: 'score', value: 10 });
     });
 
+    describe('typed variables', () => {
+        it('stores booleans, strings and lists', () => {
+            runtimeState.initVariables({ door_open: false, player_name: 'Ada', inventory: ['key', 'map'] });
+
+            expect(runtimeState.getVariable('door_open')).toBe(false);
+            expect(runtimeState.getVariable('player_name')).toBe('Ada');
+            expect(runtimeState.getVariable('inventory')).toEqual(['key', 'map']);
+            expect(runtimeState.hasVariable('inventory')).toBe(true);
+            expect(runtimeState.hasVariable('missing')).toBe(false);
+        });
+
+        it('dispatches typed values and skips lists with the same items', () => {
+            runtimeState.initVariables({ inventory: ['key'] });
+            const dispatchEventSpy = vi.spyOn(window, 'dispatchEvent');
+
+            runtimeState.setVariable('inventory', ['key']);
+            expect(dispatchEventSpy).not.toHaveBeenCalled();
+
+            const list = ['key', 'map'];
+            runtimeState.setVariable('inventory', list);
+            list.push('sword');
+
+            const event = dispatchEventSpy.mock.calls[0]![0] as CustomEvent;
+            expect(event.detail).toEqual({ key: 'inventory', value: ['key', 'map'] });
+            expect(runtimeState.getVariable('inventory')).toEqual(['key', 'map']);
+        });
+
+        it('reports variable types', () => {
+            expect([0, true, 'a', [1], []].map((v) => getVariableType(v as VariableValue)))
+                .toEqual(['number', 'boolean', 'string', 'list', 'list']);
+        });
+    });
+
+    describe('globals', () => {
+        beforeEach(() => {
+            runtimeState.reset();
+        });
+
+        it('keeps globals apart from scene variables', () => {
+            runtimeState.initVariables({ score: 5 });
+            runtimeState.initGlobals({ score: 100, unlocked: ['forest'] });
+
+            expect(runtimeState.getVariable('score')).toBe(5);
+            expect(runtimeState.getVariable('global.score')).toBe(100);
+            expect(runtimeState.hasVariable('global.unlocked')).toBe(true);
+            expect(runtimeState.hasVariable('global.missing')).toBe(false);
+            expect(runtimeState.getAllVariables()).toEqual({ score: 5 });
+            expect(runtimeState.getAllGlobals()).toEqual({ score: 100, unlocked: ['forest'] });
+        });
+
+        it('sets globals by their prefixed key and dispatches that key', () => {
+            runtimeState.initGlobals({ score: 0 });
+            const dispatchEventSpy = vi.spyOn(window, 'dispatchEvent');
+
+            runtimeState.setVariable('global.score', 3);
+            runtimeState.initGlobals({ score: 0 });
+
+            expect(runtimeState.getVariable('global.score')).toBe(3);
+            const event = dispatchEventSpy.mock.calls[0]![0] as CustomEvent;
+            expect(event.detail).toEqual({ key: 'global.score', value: 3 });
+        });
+
+        it('clears globals on reset', () => {
+            runtimeState.initGlobals({ score: 7 });
+            runtimeState.reset();
+
+            expect(runtimeState.getAllGlobals()).toEqual({});
+        });
+    });
+
+    describe('timers', () => {
+        beforeEach(() => {
+            runtimeState.timers.clear();
+        });
+
+        it('fires a one-shot timer once and removes it', () => {
+            runtimeState.startTimer('fuse', { event: 'bomb.explode', duration: 2 });
+
+            expect(runtimeState.advanceTimers(1.5)).toEqual([]);
+            expect(runtimeState.advanceTimers(1)).toEqual([{ timer: 'fuse', event: 'bomb.explode', count: 1 }]);
+            expect(runtimeState.timers.has('fuse')).toBe(false);
+        });
+
+        it('repeats at intervals until it has fired `times` times', () => {
+            runtimeState.startTimer('wave', { event: 'wave.spawn', duration: 1, repeat: true, times: 3 });
+
+            const fired = runtimeState.advanceTimers(2.5).map((f) => f.count);
+            expect(fired).toEqual([1, 2]);
+            expect(runtimeState.advanceTimers(5).map((f) => f.count)).toEqual([3]);
+            expect(runtimeState.timers.has('wave')).toBe(false);
+        });
+
+        it('skips the backlog of a fast timer after a long frame', () => {
+            runtimeState.startTimer('tick', { event: 'tick', duration: 0.001, repeat: true });
+
+            expect(runtimeState.advanceTimers(3600.0005)).toHaveLength(10);
+            expect(runtimeState.timers.get('tick')!.elapsed).toBeCloseTo(0.0005, 6);
+            expect(runtimeState.advanceTimers(0.001)).toHaveLength(1);
+        });
+
+        it('restarts a running timer from zero', () => {
+            runtimeState.startTimer('fuse', { event: 'bomb.explode', duration: 2 });
+            runtimeState.advanceTimers(1.5);
+            runtimeState.startTimer('fuse', { event: 'bomb.explode', duration: 2 });
+
+            expect(runtimeState.advanceTimers(1)).toEqual([]);
+        });
+
+        it('auto-starts scene timers without restarting running ones', () => {
+            runtimeState.initTimers({
+                clock: { event: 'clock.tick', duration: 1, repeat: true },
+                later: { event: 'later', duration: 1, autoStart: false },
+            });
+            runtimeState.advanceTimers(0.5);
+            runtimeState.initTimers({ clock: { event: 'clock.tick', duration: 1, repeat: true } });
+
+            expect([...runtimeState.timers.keys()]).toEqual(['clock']);
+            expect(runtimeState.timers.get('clock')!.elapsed).toBe(0.5);
+        });
+
+        it('clears timers on reset', () => {
+            runtimeState.startTimer('fuse', { event: 'bomb.explode', duration: 2 });
+            runtimeState.reset();
+
+            expect(runtimeState.timers.size).toBe(0);
+        });
+    });
+
+    describe('node overrides', () => {
+        beforeEach(() => {
+            runtimeState.reset();
+        });
+
+        it('merges overrides per node', () => {
+            runtimeState.setNodeProperty('door', 'color', '#ff0000');
+            runtimeState.setNodeProperty('door', 'position', [0, 2, 0]);
+
+            expect(runtimeState.nodeOverrides.get('door')).toEqual({ color: '#ff0000', position: [0, 2, 0] });
+        });
+
+        it('tweens vectors and colors with easing and removes finished tweens', () => {
+            runtimeState.startTween({
+                nodeId: 'door', property: 'position', from: [0, 0, 0], to: [0, 4, 0], duration: 2, easing: 'easeIn',
+            });
+            runtimeState.startTween({
+                nodeId: 'lamp', property: 'color', from: '#000000', to: '#ff8000', duration: 1, easing: 'linear',
+            });
+
+            expect(runtimeState.advanceTweens(1)).toEqual(['door', 'lamp']);
+            expect(runtimeState.nodeOverrides.get('door')?.position).toEqual([0, 1, 0]);
+            expect(runtimeState.nodeOverrides.get('lamp')?.color).toBe('#ff8000');
+            expect(runtimeState.tweens.has('lamp:color')).toBe(false);
+
+            runtimeState.advanceTweens(5);
+            expect(runtimeState.nodeOverrides.get('door')?.position).toEqual([0, 4, 0]);
+            expect(runtimeState.tweens.size).toBe(0);
+        });
+
+        it('stops a tween when the property is set directly', () => {
+            runtimeState.startTween({
+                nodeId: 'door', property: 'scale', from: [1, 1, 1], to: [3, 3, 3], duration: 1, easing: 'linear',
+            });
+            runtimeState.setNodeProperty('door', 'scale', [2, 2, 2]);
+
+            expect(runtimeState.advanceTweens(0.5)).toEqual([]);
+            expect(runtimeState.nodeOverrides.get('door')?.scale).toEqual([2, 2, 2]);
+        });
+
+        it('clears overrides and tweens on reset', () => {
+            runtimeState.setNodeProperty('door', 'texture', 'wood');
+            runtimeState.startTween({
+                nodeId: 'door', property: 'color', from: '#000000', to: '#ffffff', duration: 1, easing: 'linear',
+            });
+            runtimeState.reset();
+
+            expect(runtimeState.nodeOverrides.size).toBe(0);
+            expect(runtimeState.tweens.size).toBe(0);
+        });
+    });
+
+    it('clears scene state on a scene change but keeps variables and play', () => {
+        runtimeState.isPlaying = true;
+        runtimeState.initVariables({ score: 5 });
+        runtimeState.markDestroyed('coin_1');
+        runtimeState.spawnNode({ id: 'coin_2', type: 'mesh', primitive: 'sphere', position: [0, 0, 0] });
+        runtimeState.startTimer('fuse', { event: 'bomb.explode', duration: 2 });
+        runtimeState.setNodeProperty('door', 'texture', 'wood');
+        runtimeState.startTween({
+            nodeId: 'door', property: 'color', from: '#000000', to: '#ffffff', duration: 1, easing: 'linear',
+        });
+
+        runtimeState.clearSceneState();
+
+        expect(runtimeState.destroyedNodes.size).toBe(0);
+        expect(runtimeState.dynamicNodes.size).toBe(0);
+        expect(runtimeState.timers.size).toBe(0);
+        expect(runtimeState.nodeOverrides.size).toBe(0);
+        expect(runtimeState.tweens.size).toBe(0);
+        expect(runtimeState.getVariable('score')).toBe(5);
+        expect(runtimeState.isPlaying).toBe(true);
+    });
+
     it('does not dispatch an event if variable value is unchanged', () => {
         runtimeState.initVariables({ score: 10 });
         const dispatchEventSpy = vi.spyOn(window, 'dispatchEvent');
@@ -7,21 +7,88 @@
  *
  * Contains:
  *  - isPlaying        — whether the game loop is active
- *  - variables        — named numeric counters (score, lives, etc.)
+ *  - variables        — named values: numbers (score, lives), booleans
+ *                       (door_open), strings (player_name) and lists
+ *  - globals          — game-wide variables, addressed as `global.<name>`;
+ *                       scene transitions never touch them
  *  - destroyedNodes   — node IDs that have been removed during play
- *  - dynamicNodes     — nodes spawned at runtime (Phase 2+)
+ *  - dynamicNodes     — nodes spawned at runtime by spawn_node actions
+ *  - timers           — running timers, advanced by the frame loop while playing
+ *  - nodeOverrides    — node properties changed by set_node_property / tweens,
+ *                       layered over the authored nodes by the reconciler
+ *  - tweens           — running property tweens, advanced by the frame loop
  */
 
+import {
+    GLOBAL_PREFIX,
+    type Easing,
+    type NodeOverrides,
+    type NodeProperty,
+    type NodePropertyValues,
+    type SceneNode,
+    type TimerDefinition,
+    type TweenableProperty,
+    type VariableValue,
+} from '../../schema/game.schema';
+
+/** Detail of the `runtime:variable_changed` window event. */
+export interface VariableChangedDetail {
+    key: string;
+    value: VariableValue;
+}
+
+/**
+ * Most times one timer fires in a single frame. After a long frame (a tab in
+ * the background, a breakpoint) a fast repeating timer skips the rest.
+ */
+const MAX_TIMER_FIRINGS_PER_FRAME = 10;
+
+/** A running timer. */
+export interface ActiveTimer {
+    event: string;
+    duration: number;
+    repeat: boolean;
+    times?: number;
+    /** Seconds since it was started or last fired */
+    elapsed: number;
+    /** How often it has fired so far */
+    count: number;
+}
+
+/** A timer that went off during `advanceTimers`. */
+export interface TimerFiring {
+    timer: string;
+    event: string;
+    count: number;
+}
+
+/** A running tween of one node property. */
+export interface ActiveTween {
+    nodeId: string;
+    property: TweenableProperty;
+    from: NodePropertyValues[TweenableProperty];
+    to: NodePropertyValues[TweenableProperty];
+    duration: number;
+    easing: Easing;
+    elapsed: number;
+}
+
 export class RuntimeState {
     isPlaying = false;
 
-    private variables = new Map<string, number>();
+    private variables = new Map<string, VariableValue>();
+    private globals = new Map<string, VariableValue>();
     readonly destroyedNodes = new Set<string>();
+    readonly dynamicNodes = new Map<string, SceneNode>();
+    readonly timers = new Map<string, ActiveTimer>();
+    readonly nodeOverrides = new Map<string, NodeOverrides>();
+    /** Keyed by `<nodeId>:<property>`, so a new tween replaces a running one */
+    readonly tweens = new Map<string, ActiveTween>();
 
     // ── Variables ─────────────────────────────────────────────────────────
 
     /** Seed initial variable values from the scene definition. */
-    initVariables(vars: Record<string, number>): void {
+    initVariables(vars: Record<string, VariableValue>): void {
         for (const [k, v] of Object.entries(vars)) {
             // Don't overwrite — allows hot-reload without losing live state
             if (!this.variables.has(k)) {
@@ -30,26 +97,57 @@ export class RuntimeState {
         }
     }
 
-    getVariable(key: string): number {
-        return this.variables.get(key) ?? 0;
+    /** Seed game-wide variables from the document's globals block (same rules as initVariables). */
+    initGlobals(globals: Record<string, VariableValue>): void {
+        for (const [k, v] of Object.entries(globals)) {
+            if (!this.globals.has(k)) {
+                this.globals.set(k, v);
+            }
+        }
+    }
+
+    /** A variable's value; variables that were never set read as 0. */
+    getVariable(key: string): VariableValue {
+        const [store, name] = this.resolve(key);
+        return store.get(name) ?? 0;
     }
 
-    setVariable(key: string, value: number): void {
-        if (this.variables.get(key) === value) return; // Only dispatch if changed
+    hasVariable(key: string): boolean {
+        const [store, name] = this.resolve(key);
+        return store.has(name);
+    }
+
+    /** Set a variable (`global.<name>` sets a global). Type checks are up to the caller (see ActionExecutor). */
+    setVariable(key: string, value: VariableValue): void {
+        const [store, name] = this.resolve(key);
+        if (isSameValue(store.get(name), value)) return; // Only dispatch if changed
 
-        this.variables.set(key, value);
+        // Lists are copied so callers can't mutate live state
+        const stored = Array.isArray(value) ? ([...value] as VariableValue) : value;
+        store.set(name, stored);
         // Emit a DOM event so any UI layer can react without tight coupling
         window.dispatchEvent(
-            new CustomEvent('runtime:variable_changed', {
-                detail: { key, value },
+            new CustomEvent<VariableChangedDetail>('runtime:variable_changed', {
+                detail: { key, value: stored },
             }),
         );
     }
 
-    getAllVariables(): Record<string, number> {
+    getAllVariables(): Record<string, VariableValue> {
         return Object.fromEntries(this.variables);
     }
 
+    /** Game-wide variables, keyed without the `global.` prefix. */
+    getAllGlobals(): Record<string, VariableValue> {
+        return Object.fromEntries(this.globals);
+    }
+
+    private resolve(key: string): [Map<string, VariableValue>, string] {
+        return key.startsWith(GLOBAL_PREFIX)
+            ? [this.globals, key.slice(GLOBAL_PREFIX.length)]
+            : [this.variables, key];
+    }
+
     // ── Destroyed Nodes ───────────────────────────────────────────────────
 
     markDestroyed(nodeId: string): void {
@@ -60,16 +158,159 @@ export class RuntimeState {
         return this.destroyedNodes.has(nodeId);
     }
 
+    // ── Dynamic Nodes ─────────────────────────────────────────────────────
+
+    /** Track a node spawned during play; the reconciler renders it alongside the document's nodes. */
+    spawnNode(node: SceneNode): void {
+        this.dynamicNodes.set(node.id, node);
+    }
+
+    getDynamicNodes(): SceneNode[] {
+        return [...this.dynamicNodes.values()];
+    }
+
+    // ── Timers ────────────────────────────────────────────────────────────
+
+    /** Start the scene's auto-starting timers (already running ones are kept). */
+    initTimers(timers: Record<string, TimerDefinition>): void {
+        for (const [id, timer] of Object.entries(timers)) {
+            if (timer.autoStart !== false && !this.timers.has(id)) {
+                this.startTimer(id, timer);
+            }
+        }
+    }
+
+    /** Start a timer, or restart it from zero if it is already running. */
+    startTimer(id: string, timer: Omit<TimerDefinition, 'autoStart'>): void {
+        this.timers.set(id, {
+            event: timer.event,
+            duration: timer.duration,
+            repeat: timer.repeat ?? false,
+            times: timer.times,
+            elapsed: 0,
+            count: 0,
+        });
+    }
+
+    cancelTimer(id: string): void {
+        this.timers.delete(id);
+    }
+
+    /**
+     * Advance every running timer and return the ones that fired, in order.
+     * One-shot timers and repeating timers that reached `times` are removed.
+     */
+    advanceTimers(deltaSeconds: number): TimerFiring[] {
+        const fired: TimerFiring[] = [];
+        for (const [id, timer] of this.timers) {
+            timer.elapsed += deltaSeconds;
+            let firings = 0;
+            while (timer.elapsed >= timer.duration) {
+                if (firings === MAX_TIMER_FIRINGS_PER_FRAME) {
+                    timer.elapsed %= timer.duration;
+                    break;
+                }
+                firings++;
+                timer.elapsed -= timer.duration;
+                timer.count++;
+                fired.push({ timer: id, event: timer.event, count: timer.count });
+
+                if (!timer.repeat || (timer.times !== undefined && timer.count >= timer.times)) {
+                    this.timers.delete(id);
+                    break;
+                }
+            }
+        }
+        return fired;
+    }
+
+    // ── Node Overrides ────────────────────────────────────────────────────
+
+    /** Change a node property for the rest of play, stopping any tween of it. */
+    setNodeProperty(nodeId: string, property: NodeProperty, value: NodePropertyValues[NodeProperty]): void {
+        this.tweens.delete(`${nodeId}:${property}`);
+        this.nodeOverrides.set(nodeId, { ...this.nodeOverrides.get(nodeId), [property]: value });
+    }
+
+    /** Tween a node property from `from` to `to`, replacing any running tween of it. */
+    startTween(tween: Omit<ActiveTween, 'elapsed'>): void {
+        this.tweens.set(`${tween.nodeId}:${tween.property}`, { ...tween, elapsed: 0 });
+    }
+
+    /**
+     * Advance every running tween and write its current value to the node's
+     * overrides. Returns the IDs of the nodes that changed; finished tweens are removed.
+     */
+    advanceTweens(deltaSeconds: number): string[] {
+        const changed = new Set<string>();
+        for (const [key, tween] of this.tweens) {
+            tween.elapsed = Math.min(tween.elapsed + deltaSeconds, tween.duration);
+            const t = EASINGS[tween.easing](tween.elapsed / tween.duration);
+            this.nodeOverrides.set(tween.nodeId, {
+                ...this.nodeOverrides.get(tween.nodeId),
+                [tween.property]: interpolate(tween.from, tween.to, t),
+            });
+            changed.add(tween.nodeId);
+
+            if (tween.elapsed >= tween.duration) this.tweens.delete(key);
+        }
+        return [...changed];
+    }
+
     // ── Reset (for "stop playing") ────────────────────────────────────────
 
+    /**
+     * Forget everything that belongs to the current scene (destroyed and
+     * spawned nodes, timers, overrides, tweens) when play moves to another.
+     * Variables, globals and isPlaying are left to the caller.
+     */
+    clearSceneState(): void {
+        this.destroyedNodes.clear();
+        this.dynamicNodes.clear();
+        this.timers.clear();
+        this.nodeOverrides.clear();
+        this.tweens.clear();
+    }
+
     reset(): void {
         this.isPlaying = false;
         this.variables.clear();
-        this.destroyedNodes.clear();
+        this.globals.clear();
+        this.clearSceneState();
 
         window.dispatchEvent(new CustomEvent('runtime:reset'));
     }
 }
 
+function isSameValue(a: VariableValue | undefined, b: VariableValue): boolean {
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((item, i) => item === b[i]);
+    }
+    return a === b;
+}
+
+const EASINGS: Record<Easing, (t: number) => number> = {
+    linear: (t) => t,
+    easeIn: (t) => t * t,
+    easeOut: (t) => t * (2 - t),
+    easeInOut: (t) => (t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t)),
+};
+
+/** Blend vectors component-wise and hex colors per channel. */
+function interpolate<V extends [number, number, number] | string>(from: V, to: V, t: number): V {
+    if (typeof from === 'string' && typeof to === 'string') {
+        const a = parseHex(from);
+        const b = parseHex(to);
+        return `#${a.map((channel, i) => Math.round(channel + (b[i]! - channel) * t).toString(16).padStart(2, '0')).join('')}` as V;
+    }
+    const a = from as [number, number, number];
+    const b = to as [number, number, number];
+    return a.map((value, i) => value + (b[i]! - value) * t) as V;
+}
+
+function parseHex(color: string): number[] {
+    return [1, 3, 5].map((i) => parseInt(color.slice(i, i + 2), 16));
+}
+
 /** Shared singleton — import this everywhere instead of `new RuntimeState()`. */
 export const runtimeState = new RuntimeState();
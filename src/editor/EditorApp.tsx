@@ -5,8 +5,9 @@ import '@copilotkit/react-ui/styles.css';
 
 import { SceneReconciler } from '../core/reconciler/SceneReconciler';
 import { EventBus } from '../core/bus/EventBus';
-import { gameDocumentStore } from '../core/state/GameDocumentStore';
-import { runtimeState } from '../core/state/RuntimeState';
+import { gameDocumentStore, startAutosave } from '../core/state/GameDocumentStore';
+import { loadGameDocument } from '../core/state/GamePersistence';
+import { runtimeState, type VariableChangedDetail } from '../core/state/RuntimeState';
 import type { GameDocument } from '../schema/game.schema';
 
 import { useGameContext } from './hooks/useGameContext';
@@ -16,6 +17,7 @@ import { useTextureGeneration } from './hooks/useTextureGeneration';
 import { useSceneNavigation } from './hooks/useSceneNavigation';
 import { PlayStopToggle } from './components/PlayStopToggle';
 import { SceneTreePanel } from './components/SceneTreePanel';
+import { SaveStatusIndicator } from './components/SaveStatusIndicator';
 import { ErrorBoundary } from './components/ErrorBoundary';
 
 // ── System prompt for the AI ──────────────────────────────────────────────────
@@ -32,13 +34,29 @@ CORE EDITING (updateGameDocument):
 - Colors must be CSS hex strings (e.g. "#ff0000" for red, "#0088ff" for blue)
 - Positions are [x, y, z] arrays. Ground is at y=0. Place objects above it.
 - Size is a single number (uniform scale, default 1)
+- Optional "scale": [x, y, z] for non-uniform scale (overrides size), e.g. a wall: scale: [6, 3, 0.3]
+- Optional "rotation": Euler degrees [x, y, z] (e.g. a ramp: [-20, 0, 0]) or a quaternion [x, y, z, w]
+- Optional "parent": id of another node in the scene, to build objects from parts (car + wheels, door + handle).
+  A child's position/rotation/scale are LOCAL to its parent, e.g. a handle at [0.4, 0, 0.1] on the door.
+  Children move with the parent and are destroyed with it. Parent chains must not loop.
 - Primitives: "box", "sphere", "ground"
 - Node types: "mesh" for geometry, "light" for lights
+- Lights: lightType "hemispheric" (default, soft ambient), "directional" (sun), "point" (bulb) or "spot".
+  "color" tints the light; "direction": [x, y, z] for hemispheric/directional/spot; "range" for point/spot;
+  "coneAngle" in degrees for spot, e.g. { id: "lamp", type: "light", lightType: "point", position: [0, 3, 0], color: "#ffcc88", range: 8 }
+- Cameras: { id: "cam", type: "camera", cameraType: "follow", position: [0, 5, -10], target: "player", fov: 60 }
+  cameraType "free" (fly with mouse/keys), "follow" (chases target), "orbit" (orbit target), "fixed".
+  target is a node id or [x, y, z]. Set the scene's "activeCamera" (path /scenes/<scene>/activeCamera) to view
+  through it in play mode; edit mode always uses the editor camera.
+- Shadows: set castShadows: true on a directional/point/spot light AND on the meshes that should cast,
+  and receiveShadows: true on surfaces that show them (usually the ground). Hemispheric lights can't cast shadows.
 - To ADD: use op:"add" with path "/nodes/-" (appends to the node list)
 - To UPDATE: use op:"replace" with e.g. "/nodes/2/color"
 - To REMOVE: use op:"remove" with e.g. "/nodes/2"
 - Always give new nodes unique ids (e.g. "sphere_2", "blue_box_1")
 - BATCH MULTIPLE CHANGES: Use a SINGLE updateGameDocument array containing all patches
+- Patches are validated before they apply. A rejected patch lists each problem by JSON Pointer path
+  (e.g. "/scenes/level_1/nodes/3/texture: Texture "wood" is not in the asset manifest"); fix those and retry
 
 EXTERNAL ASSETS (Phase 3):
 - For complex objects (trees, characters, buildings), use generateAsset tool
@@ -55,6 +73,14 @@ AI TEXTURE GENERATION (NanoBanana):
   Example: generateTexture({ textureKey: "wood_floor", description: "oak wood", applyToNodes: ["floor"] })
 - Can apply to multiple nodes: applyToNodes: ["floor", "wall_1", "wall_2"]
 - Textures override solid colors when both are present
+
+PBR MATERIALS:
+- For metal, glass, glowing or tiled surfaces, set "material" on a mesh instead of color/texture (it takes precedence)
+- Shared: define once in /materials and reference by key, e.g. add /materials/brushed_steel =
+  { baseColor: "#c0c0c8", metallic: 1, roughness: 0.35 } then set material: "brushed_steel" on each node
+- Inline: material: { emissive: "#ffaa00", emissiveIntensity: 2 } for one-off materials
+- Fields: baseColor, metallic (0–1), roughness (0–1), emissive, emissiveIntensity, alpha (0–1),
+  baseColorTexture / normalTexture / metallicRoughnessTexture / aoTexture (texture keys from /assets), uvScale: [u, v]
 - To apply existing texture: use updateGameDocument to set texture field on node
 - Available nodes in scene: check current context for node IDs
 
@@ -64,12 +90,91 @@ MULTI-SCENE NAVIGATION (Phase 3):
 - Scene transitions can persist variables (e.g., score across levels)
 - Create scene transitions via subscriptions:
   { type: "transition_scene", to: "level_2", persistVars: ["score"] }
+- For values that belong to the whole game (score, lives, unlocked levels), prefer globals:
+  declare them in the top-level /globals block, e.g. { "score": 0, "lives": 3 }, and address them
+  as "global.score" in actions and conditions. Globals survive every transition without persistVars
 
 BEHAVIORAL LOGIC:
 If the user asks for interaction (e.g., "When I click the box, destroy it and add 1 score"):
 1. Add a clickable component: components: [{ type: "clickable", event: "box.clicked" }]
 2. Add a subscription: { id: "box_rule", on: "box.clicked", actions: [...] }
-3. Available actions: increment, destroy_node, transition_scene
+3. Available actions: increment, set_variable, multiply, clamp, random_range, copy_variable,
+   destroy_node, transition_scene, spawn_node, start_timer, cancel_timer, set_node_property, tween_node_property,
+   play_animation, stop_animation, play_clip, stop_clip, play_sound, stop_sound
+   Variable actions (values are numbers or expressions over variables and $event fields, same syntax as "when"):
+   { type: "increment", target: "score", value: 1 }            { type: "set_variable", target: "lives", value: "lives - $event.damage" }
+   { type: "multiply", target: "score", value: 2 }             { type: "clamp", target: "health", min: 0, max: "max_health" }
+   { type: "random_range", target: "roll", min: 1, max: 6, integer: true } (integer: whole numbers incl. max)
+   { type: "copy_variable", target: "high_score", from: "score" }
+   Variables are typed by their initial value in /scenes/<id>/variables and keep that type:
+   { "score": 0, "door_open": false, "player_name": "Ada", "inventory": ["key"] } (lists hold numbers or strings)
+   increment/multiply/clamp/random_range need number variables. set_variable must keep the type;
+   its string values are expressions, so quote text: { type: "set_variable", target: "player_name", value: "'Bob'" },
+   { type: "set_variable", target: "door_open", value: true }. List variables can't be used in expressions.
+   Node targets may be a node id, "$event.node" (the event's nodeId) or "$event.<field>" (e.g. "$event.otherId")
+4. Optional "when" condition gates a subscription's actions, evaluated when the event fires:
+   { id: "boss_dies", on: "boss.hit", when: "boss_health <= 0", actions: [...] }
+   Supports variables, $event.node / $event.<field>, == != < <= > >=, && || !, + - * / % and parentheses
+5. spawn_node creates a node during play (removed again when play stops):
+   { type: "spawn_node", prefab: "coin", position: [0, 1, 0], relativeTo: "$event.node" }
+   Use "prefab" (a key in /prefabs, a node definition without id/position) or an inline "node" definition.
+   position is an offset when relativeTo (a node id or "$event.node") is set; relativeTo cannot be used with a parented template. Spawned ids are "<prefab>_1", "<prefab>_2", …
+6. Timers fire events after a delay or at intervals (play mode only, cleared on scene transitions).
+   Scene timers start when play starts or the scene is entered (autoStart: false to start them by action):
+   /scenes/<id>/timers: { "countdown": { event: "time.up", duration: 60 }, "wave": { event: "wave.spawn", duration: 5, repeat: true, times: 3 } }
+   { type: "start_timer", timer: "wave" } (restarts if running; may override event/duration/repeat/times)
+   { type: "start_timer", timer: "fuse", event: "bomb.explode", duration: 3 } (ad-hoc timer, needs event and duration)
+   { type: "cancel_timer", timer: "wave" }
+   Timer events carry payload { timer, count } (count = how often it has fired), e.g. when: "$event.count == 3"
+7. Change nodes during play (reverted when play stops; the document is untouched):
+   { type: "set_node_property", target: "$event.node", property: "color", value: "#ff0000" }
+   { type: "tween_node_property", target: "door", property: "position", to: [0, 4, 0], duration: 1.5, easing: "easeInOut" }
+   property: "position" | "rotation" (Euler degrees) | "scale" take [x, y, z]; "color" a hex string; "texture" a texture key (set only)
+   easing: "linear" (default) | "easeIn" | "easeOut" | "easeInOut". A color or texture replaces the node's material while set.
+8. Keyframe animations (play mode only) live in /scenes/<id>/animations:
+   { "bob": { target: "coin", loop: "pingPong", autoPlay: true, tracks: [
+       { property: "position", keyframes: [{ time: 0, value: [0, 1, 0] }, { time: 0.5, value: [0, 1.5, 0] }], easing: "easeInOut" } ] } }
+   time is in seconds, ascending per track. property: "position" | "rotation" (degrees) | "scale" | "color" | "intensity" (lights only).
+   loop: "once" (default, holds the last keyframe) | "loop" | "pingPong"; speed multiplies playback; autoPlay starts it with play.
+   onComplete: an event fired at the end (each cycle when looping) with payload { nodeId, animation }.
+   { type: "play_animation", animation: "bob", target: "$event.node" } (target defaults to the animation's own target; restarts if running)
+   { type: "stop_animation", animation: "bob" } (the node keeps its current pose)
+9. GLB models can embed animation clips (the context lists them per asset under animationClips, once loaded).
+   Pick the clip a model plays in play mode on its node: { id: "hero", type: "mesh", asset: "knight", position: [0, 0, 0],
+   animationClip: "Idle", animationLoop: true, animationSpeed: 1 } (animationAutoPlay: false waits for play_clip)
+   { type: "play_clip", target: "hero", clip: "Run" } (switches clips; loop/speed default to the node's settings)
+   { type: "stop_clip", target: "$event.node" } (holds the current pose). Models return to rest when play stops.
+10. Sound (play mode only; silent while editing). Audio files are assets of type "audio":
+   /assets/coin_sfx: { type: "audio", url: "/audio/coin.wav" } (the context lists them as availableSounds)
+   { type: "play_sound", sound: "coin_sfx" } plays it once in 2D; add target: "$event.node" to play it from that node
+   { type: "play_sound", target: "radio" } plays the node's audioSource; volume (0–1) applies to one-shots
+   { type: "stop_sound", sound: "music" } stops that sound everywhere; target stops a node's sounds (both: that sound on that node)
+
+ANIMATED COMPONENTS (play mode only):
+- Spin a mesh: { type: "rotate", axis: "y", speed: 90 } (degrees per second, axis "x" | "y" | "z")
+- Keyboard input: { type: "keybind", key: "ArrowUp", event: "player.up", phase: "down" }
+  key is KeyboardEvent.key (" " for space); phase is "down" (default), "up" or "held" (fires every frame)
+- Pickup on touch: { type: "collectible", event: "coin.collected", collector: "player" }
+  Fires once when the collector node overlaps it, with payload { nodeId, collectorId }
+- Rigid-body physics: { type: "physics", body: "dynamic", mass: 1, friction: 0.3, restitution: 0.5, shape: "sphere" }
+  body is "static" (floors, walls), "dynamic" (falls and collides) or "kinematic" (moved by other components, pushes dynamic bodies)
+  friction and restitution multiply with the other body's, so give a floor restitution too if things should bounce on it
+  Bodies reset to their authored position when play stops. Physics nodes must not have a parent.
+  Collisions fire "collision.enter" / "collision.exit" once per contact with payload { nodeId, otherId }; a "when" may name either body as $event.node, e.g.
+  { on: "collision.enter", when: "$event.node == 'ball' && $event.otherId == 'goal'", actions: [...] }
+- Walkable character: { type: "playerController", speed: 5, jumpSpeed: 6, gravity: 20, movement: "camera" }
+  W/A/S/D to walk, space to jump (remap with keys: { forward, back, left, right, jump } using KeyboardEvent.key names).
+  movement "camera" steers relative to the play camera (pair with a follow camera), "world" along the X/Z axes; gravity 0 for top-down games.
+  The player stands on and is blocked by meshes with { type: "physics", body: "static" } — give floors and walls one, or the player falls through.
+  Don't combine it with a dynamic physics body on the same node.
+- Trigger volume: { type: "trigger", shape: "box", size: [4, 2, 4], tags: ["player"], onEnter: "zone.entered", onExit: "zone.left" }
+  Invisible box (axis-aligned, default size = the node's scale) or sphere (radius) around the node; a node is inside when its origin is.
+  Filter with nodes: ["player"] and/or tags (matches the node's "tags" field); without a filter any mesh counts.
+  onEnter / onExit / onStay (every frame while inside) fire with payload { nodeId: <trigger>, otherId: <visitor> }.
+  Kill zone: { on: "lava.entered", actions: [{ type: "destroy_node", target: "$event.otherId" }] }
+- Sound source: { type: "audioSource", sound: "campfire_loop", loop: true, volume: 0.6, autoPlay: true }
+  spatial: true (default) is heard from the node and fades out by maxDistance (default 100); spatial: false plays in 2D.
+  Without autoPlay it waits for play_sound. Sounds stop when play stops or the node is destroyed.
 
 EXAMPLES:
 Add a portal to next level:
@@ -137,6 +242,40 @@ function ShortcutToggle() {
     return null;
 }
 
+/**
+ * Ctrl+Z / Ctrl+Shift+Z (⌘ on Mac) undo and redo document edits.
+ * Text fields keep their native undo, and edits are locked during play.
+ */
+function UndoRedoShortcuts() {
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== 'z') return;
+
+            const target = e.target as HTMLElement | null;
+            if (
+                target?.isContentEditable ||
+                target?.tagName === 'INPUT' ||
+                target?.tagName === 'TEXTAREA'
+            ) {
+                return;
+            }
+            if (runtimeState.isPlaying) return;
+
+            e.preventDefault();
+            const store = gameDocumentStore.getState();
+            if (e.shiftKey) {
+                store.redo();
+            } else {
+                store.undo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    return null;
+}
+
 // ── Babylon Canvas + HUD ─────────────────────────────────────────────────────
 
 function BabylonViewportInner() {
@@ -150,24 +289,28 @@ function BabylonViewportInner() {
 
         let reconciler: SceneReconciler | null = null;
         let unsub: (() => void) | null = null;
+        let stopAutosave: (() => void) | null = null;
 
-        // Load game data from JSON file
+        // Load game data (via the dev-server API when available, so edits can be saved)
         (async () => {
             try {
-                const response = await fetch('/game.json');
-                if (!response.ok) {
-                    throw new Error(`Failed to load game.json: ${response.statusText}`);
-                }
-                const gameData: GameDocument = await response.json();
+                const { doc: gameData, hash } = await loadGameDocument();
 
                 // 1. Create reconciler + bus
                 reconciler = new SceneReconciler(canvas);
                 const bus = new EventBus(reconciler);
                 reconciler.bus = bus;
 
-                // 2. Seed store with loaded data
+                // 2. Seed store with loaded data (nothing to undo past this point)
                 const liveDoc: GameDocument = structuredClone(gameData);
                 gameDocumentStore.getState().setDoc(liveDoc);
+                gameDocumentStore.getState().clearHistory();
+                gameDocumentStore.getState().markLoaded(hash);
+
+                // Persist edits back to public/game.json
+                if (hash) {
+                    stopAutosave = startAutosave();
+                }
 
                 // 3. Initial reconcile
                 reconciler.reconcile(liveDoc);
@@ -180,9 +323,8 @@ function BabylonViewportInner() {
 
                 // 5. Score HUD listeners
                 const onVarChange = (e: Event) => {
-                    const { key, value } = (e as CustomEvent<{ key: string; value: number }>)
-                        .detail;
-                    if (key === 'score') setScore(value);
+                    const { key, value } = (e as CustomEvent<VariableChangedDetail>).detail;
+                    if ((key === 'score' || key === 'global.score') && typeof value === 'number') setScore(value);
                 };
                 const onReset = () => setScore(0);
 
@@ -209,6 +351,7 @@ function BabylonViewportInner() {
                 // Cleanup function stored for later
                 return () => {
                     if (unsub) unsub();
+                    if (stopAutosave) stopAutosave();
                     window.removeEventListener('runtime:variable_changed', onVarChange);
                     if (reconciler) reconciler.dispose();
                 };
@@ -221,6 +364,7 @@ function BabylonViewportInner() {
         // Cleanup when component unmounts
         return () => {
             if (unsub) unsub();
+            if (stopAutosave) stopAutosave();
             if (reconciler) reconciler.dispose();
         };
     }, []);
@@ -277,6 +421,11 @@ function BabylonViewportInner() {
                     <SceneTreePanel />
                 </ErrorBoundary>
 
+                {/* ── Save Status ── */}
+                <ErrorBoundary name="Save Status" inline>
+                    <SaveStatusIndicator />
+                </ErrorBoundary>
+
                 <div
                     style={{
                         position: 'absolute',
@@ -316,6 +465,7 @@ function BabylonViewportInner() {
 function BabylonViewport() {
     return (
         <ErrorBoundary name="Babylon Viewport">
+            <UndoRedoShortcuts />
             <BabylonViewportInner />
         </ErrorBoundary>
     );
@@ -29,14 +29,21 @@ export function PlayStopToggle() {
         if (nextState) {
             // Play -> Initialize tracking variables
             const doc = gameDocumentStore.getState().doc;
+            if (doc.globals) {
+                runtimeState.initGlobals(doc.globals);
+            }
             const sceneData = doc.scenes[doc.activeScene];
             if (sceneData?.variables) {
                 runtimeState.initVariables(sceneData.variables);
             }
-            console.log('[Runtime] ▶ Play Mode active. Variables mounted.');
+            if (sceneData?.timers) {
+                runtimeState.initTimers(sceneData.timers);
+            }
+            console.log('[Runtime] ▶ Play Mode active. Variables, globals and timers mounted.');
         } else {
             // Stop -> Reset live ephemeral state completely, and force meshes to reappear
             runtimeState.reset();
+            gameDocumentStore.getState().restoreAuthoredScene();
             console.log('[Runtime] ■ Stop Mode active. Live state wiped.');
 
             // Re-apply the authoritative JSON document to restore any destroyed nodes
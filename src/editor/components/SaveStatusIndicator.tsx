@@ -0,0 +1,96 @@
+import { useEffect } from 'react';
+import { useGameStore } from '../../core/state/GameDocumentStore';
+
+/**
+ * SaveStatusIndicator
+ *
+ * Shows whether the document has unsaved edits and the state of the last
+ * save to public/game.json. Ctrl+S / ⌘S saves explicitly; after a conflict
+ * the user can choose to overwrite the version on disk.
+ */
+export function SaveStatusIndicator() {
+    const isDirty = useGameStore((s) => s.isDirty);
+    const saveStatus = useGameStore((s) => s.saveStatus);
+    const saveError = useGameStore((s) => s.saveError);
+    const savedHash = useGameStore((s) => s.savedHash);
+    const save = useGameStore((s) => s.save);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 's') {
+                e.preventDefault();
+                void save();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [save]);
+
+    // Without the dev-server API there is nowhere to save to
+    if (savedHash === null && saveStatus === 'idle') return null;
+
+    let label: string;
+    let color: string;
+    switch (saveStatus) {
+        case 'saving':
+            label = 'Saving…';
+            color = '#7aa2ff';
+            break;
+        case 'conflict':
+            label = '⚠ game.json changed on disk';
+            color = '#ffb347';
+            break;
+        case 'error':
+            label = '✕ Save failed';
+            color = '#ff6b6b';
+            break;
+        default:
+            label = isDirty ? '● Unsaved changes' : '✓ Saved';
+            color = isDirty ? '#ffd700' : 'rgba(144, 255, 160, 0.8)';
+    }
+
+    const buttonStyle = {
+        marginLeft: 8,
+        padding: '2px 8px',
+        background: 'rgba(100, 140, 255, 0.25)',
+        color: '#d0d0e0',
+        border: '1px solid rgba(100, 140, 255, 0.4)',
+        borderRadius: 4,
+        fontSize: '11px',
+        cursor: 'pointer',
+    };
+
+    return (
+        <div
+            title={saveError}
+            style={{
+                position: 'absolute',
+                bottom: 20,
+                right: 20,
+                padding: '6px 12px',
+                background: 'rgba(20, 20, 35, 0.9)',
+                border: '1px solid rgba(100, 140, 255, 0.3)',
+                borderRadius: 8,
+                fontFamily: 'system-ui, sans-serif',
+                fontSize: '12px',
+                color,
+                display: 'flex',
+                alignItems: 'center',
+                pointerEvents: 'auto',
+            }}
+        >
+            {label}
+            {saveStatus === 'conflict' ? (
+                <button style={buttonStyle} onClick={() => void save({ force: true })}>
+                    Overwrite
+                </button>
+            ) : (
+                (isDirty || saveStatus === 'error') && (
+                    <button style={buttonStyle} onClick={() => void save()}>
+                        Save
+                    </button>
+                )
+            )}
+        </div>
+    );
+}
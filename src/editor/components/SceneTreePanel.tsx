@@ -5,12 +5,14 @@
  * Shows:
  * - All scenes in the game
  * - Current active scene (highlighted)
- * - Node hierarchy within each scene
+ * - Node hierarchy within each scene (children nested under their parent)
+ * - Game-wide globals, separate from the per-scene variables
  * - Quick navigation between scenes
  */
 
 import { useState } from 'react';
 import { useGameStore } from '../../core/state/GameDocumentStore';
+import type { AssetDefinition, SceneNode } from '../../schema/game.schema';
 
 export function SceneTreePanel() {
     const doc = useGameStore((s) => s.doc);
@@ -200,51 +202,12 @@ export function SceneTreePanel() {
                                                     >
                                                         Nodes ({sceneData.nodes.length}):
                                                     </div>
-                                                    {sceneData.nodes.map((node) => (
-                                                        <div
+                                                    {getChildNodes(sceneData.nodes, undefined).map((node) => (
+                                                        <NodeTreeItem
                                                             key={node.id}
-                                                            style={{
-                                                                padding: '3px 8px',
-                                                                fontSize: '11px',
-                                                                color: '#b0b0c0',
-                                                                borderLeft:
-                                                                    '1px solid rgba(255,255,255,0.1)',
-                                                                marginLeft: 8,
-                                                                marginBottom: 2,
-                                                            }}
-                                                        >
-                                                            <span
-                                                                style={{
-                                                                    color:
-                                                                        node.type === 'light'
-                                                                            ? '#ffdd88'
-                                                                            : '#88ddff',
-                                                                }}
-                                                            >
-                                                                {node.type === 'light' ? '💡' : '🔲'}
-                                                            </span>{' '}
-                                                            {node.id}
-                                                            {node.asset && (
-                                                                <span
-                                                                    style={{
-                                                                        marginLeft: 4,
-                                                                        opacity: 0.6,
-                                                                    }}
-                                                                >
-                                                                    [asset: {node.asset}]
-                                                                </span>
-                                                            )}
-                                                            {node.primitive && (
-                                                                <span
-                                                                    style={{
-                                                                        marginLeft: 4,
-                                                                        opacity: 0.6,
-                                                                    }}
-                                                                >
-                                                                    [{node.primitive}]
-                                                                </span>
-                                                            )}
-                                                        </div>
+                                                            node={node}
+                                                            nodes={sceneData.nodes}
+                                                        />
                                                     ))}
                                                 </>
                                             ) : (
@@ -280,6 +243,40 @@ export function SceneTreePanel() {
                         })
                     )}
 
+                    {/* Game-wide Globals */}
+                    {doc.globals && Object.keys(doc.globals).length > 0 && (
+                        <div
+                            style={{
+                                marginTop: 12,
+                                paddingTop: 8,
+                                borderTop: '1px solid rgba(100, 140, 255, 0.2)',
+                            }}
+                        >
+                            <div
+                                style={{
+                                    padding: '6px 12px',
+                                    fontSize: '12px',
+                                    fontWeight: 600,
+                                    opacity: 0.8,
+                                }}
+                            >
+                                🌐 Globals ({Object.keys(doc.globals).length})
+                            </div>
+                            {Object.entries(doc.globals).map(([name, value]) => (
+                                <div
+                                    key={name}
+                                    style={{
+                                        padding: '3px 20px',
+                                        fontSize: '11px',
+                                        color: '#b0b0c0',
+                                    }}
+                                >
+                                    global.{name} = {JSON.stringify(value)}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Asset Manifest Summary */}
                     {doc.assets && Object.keys(doc.assets).length > 0 && (
                         <div
@@ -308,7 +305,7 @@ export function SceneTreePanel() {
                                         color: '#b0b0c0',
                                     }}
                                 >
-                                    {asset.type === 'glb' ? '📦' : '🖼️'} {key}
+                                    {ASSET_ICONS[asset.type]} {key}
                                 </div>
                             ))}
                         </div>
@@ -318,3 +315,77 @@ export function SceneTreePanel() {
         </div>
     );
 }
+
+const NODE_ICONS: Record<SceneNode['type'], string> = {
+    mesh: '🔲',
+    light: '💡',
+    camera: '🎥',
+};
+
+const NODE_ICON_COLORS: Record<SceneNode['type'], string> = {
+    mesh: '#88ddff',
+    light: '#ffdd88',
+    camera: '#cc99ff',
+};
+
+const ASSET_ICONS: Record<AssetDefinition['type'], string> = {
+    glb: '📦',
+    texture: '🖼️',
+    audio: '🔊',
+};
+
+/**
+ * Direct children of `parentId` (undefined = top level). Nodes whose parent
+ * is missing from the scene are shown at the top level.
+ */
+function getChildNodes(nodes: SceneNode[], parentId: string | undefined): SceneNode[] {
+    if (parentId !== undefined) {
+        return nodes.filter((node) => node.parent === parentId);
+    }
+    const ids = new Set(nodes.map((node) => node.id));
+    return nodes.filter((node) => node.parent === undefined || !ids.has(node.parent));
+}
+
+function NodeTreeItem({ node, nodes }: { node: SceneNode; nodes: SceneNode[] }) {
+    const children = getChildNodes(nodes, node.id);
+
+    return (
+        <div
+            style={{
+                borderLeft: '1px solid rgba(255,255,255,0.1)',
+                marginLeft: 8,
+                marginBottom: 2,
+            }}
+        >
+            <div
+                style={{
+                    padding: '3px 8px',
+                    fontSize: '11px',
+                    color: '#b0b0c0',
+                }}
+            >
+                <span
+                    style={{
+                        color: NODE_ICON_COLORS[node.type],
+                    }}
+                >
+                    {NODE_ICONS[node.type]}
+                </span>{' '}
+                {node.id}
+                {node.asset && (
+                    <span style={{ marginLeft: 4, opacity: 0.6 }}>
+                        [asset: {node.asset}]
+                    </span>
+                )}
+                {node.primitive && (
+                    <span style={{ marginLeft: 4, opacity: 0.6 }}>
+                        [{node.primitive}]
+                    </span>
+                )}
+            </div>
+            {children.map((child) => (
+                <NodeTreeItem key={child.id} node={child} nodes={nodes} />
+            ))}
+        </div>
+    );
+}
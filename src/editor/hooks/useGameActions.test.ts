@@ -20,10 +20,10 @@ describe('useGameActions', () => {
     beforeEach(() => {
         vi.clearAllMocks();
         mockApplyPatch = vi.fn().mockReturnValue({ success: true });
-        (useGameStore as any).mockImplementation((selector: any) => {
-            // Mock the selector returning applyPatch
-            return mockApplyPatch;
-        });
+        (useGameStore as any).mockImplementation((selector: any) =>
+            // Run the selector against a minimal store with applyPatch spied
+            selector({ applyPatch: mockApplyPatch, transaction: (fn: () => unknown) => fn() })
+        );
     });
 
     it('registers the updateGameDocument action with CopilotKit exactly once', () => {
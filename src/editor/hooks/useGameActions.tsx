@@ -4,6 +4,7 @@
  * Defines the `updateGameDocument` CopilotKit action.
  * The AI generates RFC 6902 JSON Patch operations which are applied
  * directly to the Zustand store → triggers SceneReconciler.
+ * Each tool call is recorded as a single undoable step.
  */
 
 import { useCopilotAction } from '@copilotkit/react-core';
@@ -19,6 +20,7 @@ interface PatchOp {
 
 export function useGameActions() {
     const applyPatch = useGameStore((s) => s.applyPatch);
+    const transaction = useGameStore((s) => s.transaction);
     const lastPatchRef = useRef<string>('');
     const lastPatchTimeRef = useRef<number>(0);
 
@@ -77,8 +79,8 @@ export function useGameActions() {
             lastPatchRef.current = patchStr;
             lastPatchTimeRef.current = now;
 
-            // Apply patches with Zod validation
-            const result = applyPatch(patches as any);
+            // Apply patches with Zod validation, as one undo step
+            const result = transaction(() => applyPatch(patches as any));
 
             if (!result.success) {
                 // Validation failed - throw error so CopilotKit sends it back to AI
@@ -3,18 +3,42 @@
  *
  * Exposes the live GameDocument to CopilotKit as readable context.
  * The AI can see the current nodes, variables, and subscriptions
- * so it knows what exists before generating patches.
+ * so it knows what exists before generating patches, plus the animation
+ * clips of every GLB model the reconciler has loaded.
  */
 
 import { useCopilotReadable } from '@copilotkit/react-core';
 import { useGameStore } from '../../core/state/GameDocumentStore';
-import { useEffect } from 'react';
+import type { AnimationClipsDetail } from '../../core/animation/ClipPlayer';
+import { useEffect, useState } from 'react';
 
 export function useGameContext() {
     const doc = useGameStore((s) => s.doc);
 
     const activeScene = doc?.scenes?.[doc.activeScene];
 
+    // Audio assets for audioSource components and play_sound
+    const availableSounds = doc?.assets
+        ? Object.entries(doc.assets)
+            .filter(([_, asset]) => asset.type === 'audio')
+            .map(([key, asset]) => ({
+                key,
+                description: asset.metadata?.description || 'No description',
+            }))
+        : [];
+
+    // Clip names are only known once a model has loaded: asset key → clip names
+    const [animationClips, setAnimationClips] = useState<Record<string, string[]>>({});
+
+    useEffect(() => {
+        const onClips = (e: Event) => {
+            const { asset, clips } = (e as CustomEvent<AnimationClipsDetail>).detail;
+            setAnimationClips((prev) => ({ ...prev, [asset]: clips }));
+        };
+        window.addEventListener('assets:animation_clips', onClips);
+        return () => window.removeEventListener('assets:animation_clips', onClips);
+    }, []);
+
     // Extract available textures from the asset manifest
     const availableTextures = doc?.assets
         ? Object.entries(doc.assets)
@@ -37,7 +61,7 @@ export function useGameContext() {
 
     useCopilotReadable({
         description:
-            'The current 3D game document. Contains all scene nodes (meshes, lights) with their IDs, positions, colors, sizes, and components. Also contains variables, event subscriptions, and available textures that can be reused.',
+            'The current 3D game document. Contains all scene nodes (meshes, lights) with their IDs, positions, colors, sizes, and components. Also contains variables, event subscriptions, available textures and sounds that can be reused, the shared PBR material library, the prefab library for spawn_node, and the animation clip names of each loaded GLB asset (for animationClip and play_clip).',
         value: activeScene
             ? {
                 activeScene: doc.activeScene,
@@ -45,6 +69,10 @@ export function useGameContext() {
                 variables: activeScene.variables ?? {},
                 subscriptions: activeScene.subscriptions ?? [],
                 availableTextures: availableTextures,
+                availableSounds,
+                materials: doc.materials ?? {},
+                prefabs: doc.prefabs ?? {},
+                animationClips,
             }
             : null,
     });
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useSceneNavigation } from './useSceneNavigation';
+import { useGameStore } from '../../core/state/GameDocumentStore';
+import { runtimeState } from '../../core/state/RuntimeState';
+import * as CopilotKitCore from '@copilotkit/react-core';
+import type { GameDocument } from '../../schema/game.schema';
+
+vi.mock('../../core/state/GameDocumentStore', () => ({
+    useGameStore: vi.fn(),
+    gameDocumentStore: { getState: vi.fn() },
+}));
+
+vi.mock('@copilotkit/react-core', () => ({
+    useCopilotAction: vi.fn(),
+    useCopilotReadable: vi.fn(),
+}));
+
+const doc: GameDocument = {
+    activeScene: 'level_1',
+    scenes: {
+        level_1: { nodes: [] },
+        level_2: { nodes: [] },
+    },
+};
+
+describe('useSceneNavigation', () => {
+    let mockPatchDoc: ReturnType<typeof vi.fn>;
+    let mockEnterPlayScene: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        runtimeState.reset();
+        mockPatchDoc = vi.fn();
+        mockEnterPlayScene = vi.fn();
+        (useGameStore as any).mockImplementation((selector: any) =>
+            selector({ doc, patchDoc: mockPatchDoc, enterPlayScene: mockEnterPlayScene })
+        );
+    });
+
+    it('drops nodes spawned during play when navigating', async () => {
+        const useCopilotActionSpy = vi.spyOn(CopilotKitCore, 'useCopilotAction');
+        renderHook(() => useSceneNavigation());
+
+        runtimeState.isPlaying = true;
+        runtimeState.spawnNode({ id: 'coin_1', type: 'mesh', primitive: 'sphere', position: [0, 1, 0] });
+
+        const actionConfig = useCopilotActionSpy.mock.calls[0]![0] as any;
+        await actionConfig.handler({ sceneName: 'level_2' });
+
+        expect(mockEnterPlayScene).toHaveBeenCalledWith('level_2');
+        expect(mockPatchDoc).not.toHaveBeenCalled();
+        expect(runtimeState.getDynamicNodes()).toEqual([]);
+        expect(runtimeState.isPlaying).toBe(true);
+    });
+
+    it('switches the authored scene when navigating in the editor', async () => {
+        const useCopilotActionSpy = vi.spyOn(CopilotKitCore, 'useCopilotAction');
+        renderHook(() => useSceneNavigation());
+
+        const actionConfig = useCopilotActionSpy.mock.calls[0]![0] as any;
+        await actionConfig.handler({ sceneName: 'level_2' });
+
+        expect(mockPatchDoc).toHaveBeenCalledTimes(1);
+        expect(mockEnterPlayScene).not.toHaveBeenCalled();
+    });
+});
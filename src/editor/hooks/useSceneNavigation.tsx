@@ -9,10 +9,12 @@
 import { useCopilotAction, useCopilotReadable } from '@copilotkit/react-core';
 import { useGameStore, gameDocumentStore } from '../../core/state/GameDocumentStore';
 import { runtimeState } from '../../core/state/RuntimeState';
+import type { VariableValue } from '../../schema/game.schema';
 
 export function useSceneNavigation() {
     const doc = useGameStore((s) => s.doc);
     const patchDoc = useGameStore((s) => s.patchDoc);
+    const enterPlayScene = useGameStore((s) => s.enterPlayScene);
 
     // Expose all available scenes to the AI context
     useCopilotReadable({
@@ -52,7 +54,7 @@ export function useSceneNavigation() {
                 name: 'persistVariables',
                 type: 'string[]' as const,
                 description:
-                    'Optional: Array of variable names to persist across the scene transition (e.g., ["score", "lives"])',
+                    'Optional: Array of variable names to persist across the scene transition (e.g., ["score", "lives"]). Globals (global.*) are always kept',
                 required: false,
             },
         ],
@@ -85,7 +87,7 @@ export function useSceneNavigation() {
             }
 
             // Capture variables to persist
-            const persistedVars: Record<string, number> = {};
+            const persistedVars: Record<string, VariableValue> = {};
             if (persistVariables && persistVariables.length > 0) {
                 for (const varKey of persistVariables) {
                     persistedVars[varKey] = runtimeState.getVariable(varKey);
@@ -95,18 +97,25 @@ export function useSceneNavigation() {
 
             // Clear runtime state for scene transition
             const wasPlaying = runtimeState.isPlaying;
-            runtimeState.destroyedNodes.clear();
+            runtimeState.clearSceneState();
 
-            // Update active scene
-            patchDoc((draft) => {
-                draft.activeScene = sceneName;
-            });
+            // Update active scene: an edit in the editor, but only for the rest of play while playing
+            if (wasPlaying) {
+                enterPlayScene(sceneName);
+            } else {
+                patchDoc((draft) => {
+                    draft.activeScene = sceneName;
+                });
+            }
 
             // Initialize new scene variables
             const newSceneData = doc.scenes[sceneName];
             if (newSceneData?.variables) {
                 runtimeState.initVariables(newSceneData.variables);
             }
+            if (wasPlaying && newSceneData?.timers) {
+                runtimeState.initTimers(newSceneData.timers);
+            }
 
             // Restore persisted variables
             for (const [key, value] of Object.entries(persistedVars)) {
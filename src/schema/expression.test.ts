@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { parseCondition, getConditionError } from './expression';
+
+describe('expression', () => {
+    describe('parseCondition', () => {
+        it('respects operator precedence', () => {
+            const ast = parseCondition('1 + 2 * 3 == 7 && true');
+
+            expect(ast).toMatchObject({ kind: 'binary', op: '&&' });
+        });
+
+        it('reuses parsed expressions, up to a limit', () => {
+            const first = parseCondition('cache_probe > 0');
+            expect(parseCondition('cache_probe > 0')).toBe(first);
+
+            for (let i = 0; i < 256; i++) parseCondition(`filler_${i} > 0`);
+
+            const again = parseCondition('cache_probe > 0');
+            expect(again).not.toBe(first);
+            expect(again).toEqual(first);
+        });
+
+        it('parses $event references', () => {
+            expect(parseCondition('$event.node')).toEqual({ kind: 'event', field: 'node' });
+        });
+
+        it('rejects malformed expressions', () => {
+            expect(() => parseCondition('score >=')).toThrow('Unexpected end of expression');
+            expect(() => parseCondition('(score > 1')).toThrow('Missing ")"');
+            expect(() => parseCondition('score = 1')).toThrow('Unexpected character "="');
+            expect(() => parseCondition('$window.alert')).toThrow('only $event.<field> is supported');
+            expect(() => parseCondition('')).toThrow('Expression is empty');
+        });
+    });
+
+    describe('getConditionError', () => {
+        it('returns null for valid expressions and a message otherwise', () => {
+            expect(getConditionError('boss_health <= 0')).toBeNull();
+            expect(getConditionError('boss_health <=')).toContain('Unexpected end');
+        });
+    });
+});
@@ -0,0 +1,255 @@
+/**
+ * expression.ts
+ *
+ * Parser for the tiny expression language of `Subscription.when` and of
+ * computed action values (e.g. `set_variable` with `"$event.damage * 2"`).
+ * Expressions are parsed into an AST once (and cached). It has no
+ * dependencies, so the validator can check expressions at patch time
+ * without pulling in the runtime; ConditionEvaluator evaluates the AST.
+ *
+ * Grammar (lowest → highest precedence)
+ * ─────────────────────────────────────
+ *   or        := and ( "||" and )*
+ *   and       := equality ( "&&" equality )*
+ *   equality  := compare ( ( "==" | "!=" ) compare )*
+ *   compare   := additive ( ( "<" | "<=" | ">" | ">=" ) additive )*
+ *   additive  := term ( ( "+" | "-" ) term )*
+ *   term      := unary ( ( "*" | "/" | "%" ) unary )*
+ *   unary     := ( "!" | "-" ) unary | primary
+ *   primary   := number | string | "true" | "false"
+ *              | variable | "$event." field | "(" or ")"
+ *
+ * Examples: `boss_health <= 0`, `score >= 100 && !($event.node == "decoy")`,
+ * `door_open && player_name == "Ada"`. List variables can't be used.
+ *
+ * There are no function calls or property lookups beyond `$event.*`, so
+ * AI-authored expressions can never reach into the host environment.
+ */
+
+// ── AST ──────────────────────────────────────────────────────────────────────
+
+export type ConditionValue = number | string | boolean;
+
+export type BinaryOperator =
+    | '||' | '&&'
+    | '==' | '!='
+    | '<' | '<=' | '>' | '>='
+    | '+' | '-' | '*' | '/' | '%';
+
+export type ConditionNode =
+    | { kind: 'literal'; value: ConditionValue }
+    | { kind: 'variable'; name: string }
+    | { kind: 'event'; field: string }
+    | { kind: 'unary'; op: '!' | '-'; operand: ConditionNode }
+    | { kind: 'binary'; op: BinaryOperator; left: ConditionNode; right: ConditionNode };
+
+export class ConditionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConditionError';
+    }
+}
+
+/** Guards against pathological input from the AI. */
+const MAX_EXPRESSION_LENGTH = 500;
+
+/** The parse cache starts over beyond this many expressions, so edits over a long session don't pile up. */
+const MAX_CACHED_EXPRESSIONS = 256;
+
+// ── Tokenizer ────────────────────────────────────────────────────────────────
+
+type Token =
+    | { type: 'number'; value: number; pos: number }
+    | { type: 'string'; value: string; pos: number }
+    | { type: 'ident'; value: string; pos: number }
+    | { type: 'op'; value: string; pos: number };
+
+const OPERATORS = ['||', '&&', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')'];
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const ch = source[i]!;
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        // Numbers: 3, 0.5, .25
+        const numberMatch = /^(\d+(\.\d+)?|\.\d+)/.exec(source.slice(i));
+        if (numberMatch) {
+            tokens.push({ type: 'number', value: Number(numberMatch[0]), pos: i });
+            i += numberMatch[0].length;
+            continue;
+        }
+
+        // Strings: "boss" or 'boss' (no escapes needed for ids/event names)
+        if (ch === '"' || ch === "'") {
+            const end = source.indexOf(ch, i + 1);
+            if (end === -1) {
+                throw new ConditionError(`Unterminated string starting at position ${i}`);
+            }
+            tokens.push({ type: 'string', value: source.slice(i + 1, end), pos: i });
+            i = end + 1;
+            continue;
+        }
+
+        // Identifiers: variable names (dots allowed) and $event.field references
+        const identMatch = /^\$?[A-Za-z_][A-Za-z0-9_.]*/.exec(source.slice(i));
+        if (identMatch) {
+            tokens.push({ type: 'ident', value: identMatch[0], pos: i });
+            i += identMatch[0].length;
+            continue;
+        }
+
+        const op = OPERATORS.find((o) => source.startsWith(o, i));
+        if (op) {
+            tokens.push({ type: 'op', value: op, pos: i });
+            i += op.length;
+            continue;
+        }
+
+        throw new ConditionError(`Unexpected character "${ch}" at position ${i}`);
+    }
+
+    return tokens;
+}
+
+// ── Parser ───────────────────────────────────────────────────────────────────
+
+const PRECEDENCE: BinaryOperator[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+];
+
+class Parser {
+    private index = 0;
+
+    constructor(private tokens: Token[]) { }
+
+    parse(): ConditionNode {
+        if (this.tokens.length === 0) {
+            throw new ConditionError('Expression is empty');
+        }
+        const node = this.parseBinary(0);
+        const extra = this.peek();
+        if (extra) {
+            throw new ConditionError(`Unexpected "${extra.value}" at position ${extra.pos}`);
+        }
+        return node;
+    }
+
+    private parseBinary(level: number): ConditionNode {
+        const operators = PRECEDENCE[level];
+        if (!operators) return this.parseUnary();
+
+        let left = this.parseBinary(level + 1);
+        for (;;) {
+            const token = this.peek();
+            if (token?.type !== 'op' || !operators.includes(token.value as BinaryOperator)) {
+                return left;
+            }
+            this.index++;
+            const right = this.parseBinary(level + 1);
+            left = { kind: 'binary', op: token.value as BinaryOperator, left, right };
+        }
+    }
+
+    private parseUnary(): ConditionNode {
+        const token = this.peek();
+        if (token?.type === 'op' && (token.value === '!' || token.value === '-')) {
+            this.index++;
+            return { kind: 'unary', op: token.value, operand: this.parseUnary() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): ConditionNode {
+        const token = this.next();
+        if (!token) {
+            throw new ConditionError('Unexpected end of expression');
+        }
+
+        switch (token.type) {
+            case 'number':
+            case 'string':
+                return { kind: 'literal', value: token.value };
+
+            case 'ident': {
+                if (token.value === 'true') return { kind: 'literal', value: true };
+                if (token.value === 'false') return { kind: 'literal', value: false };
+                if (token.value.startsWith('$')) {
+                    const match = /^\$event\.([A-Za-z_][A-Za-z0-9_]*)$/.exec(token.value);
+                    if (!match) {
+                        throw new ConditionError(
+                            `Invalid reference "${token.value}" — only $event.<field> is supported`
+                        );
+                    }
+                    return { kind: 'event', field: match[1]! };
+                }
+                return { kind: 'variable', name: token.value };
+            }
+
+            case 'op':
+                if (token.value === '(') {
+                    const inner = this.parseBinary(0);
+                    const closing = this.next();
+                    if (closing?.type !== 'op' || closing.value !== ')') {
+                        throw new ConditionError(`Missing ")" for "(" at position ${token.pos}`);
+                    }
+                    return inner;
+                }
+                throw new ConditionError(`Unexpected "${token.value}" at position ${token.pos}`);
+        }
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token | undefined {
+        return this.tokens[this.index++];
+    }
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+const parseCache = new Map<string, ConditionNode>();
+
+/**
+ * Parse a condition expression into an AST.
+ * Throws a ConditionError describing the first syntax problem found.
+ */
+export function parseCondition(source: string): ConditionNode {
+    const cached = parseCache.get(source);
+    if (cached) return cached;
+
+    if (source.length > MAX_EXPRESSION_LENGTH) {
+        throw new ConditionError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`);
+    }
+
+    const ast = new Parser(tokenize(source)).parse();
+    if (parseCache.size >= MAX_CACHED_EXPRESSIONS) parseCache.clear();
+    parseCache.set(source, ast);
+    return ast;
+}
+
+/**
+ * Returns a human-readable syntax error for the expression, or null if it
+ * parses. Used by the validator to reject bad `when` clauses at patch time.
+ */
+export function getConditionError(source: string): string | null {
+    try {
+        parseCondition(source);
+        return null;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
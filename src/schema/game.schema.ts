@@ -20,32 +20,157 @@ export interface RotateComponent {
 
 export interface KeybindComponent {
     type: 'keybind';
-    key: string;   // e.g. "ArrowUp"
+    key: string;   // KeyboardEvent.key, e.g. "ArrowUp", " ", "w"
     event: string;
+    /** When to fire: on press (default), on release, or every frame while held. */
+    phase?: 'down' | 'up' | 'held';
 }
 
 export interface CollectibleComponent {
     type: 'collectible';
     event: string;
+    /** Node ID that picks this up on overlap (default "player"). */
+    collector?: string;
+}
+
+export interface PhysicsComponent {
+    type: 'physics';
+    /** static never moves; dynamic falls and collides; kinematic follows its node. */
+    body: 'static' | 'dynamic' | 'kinematic';
+    /** kg, dynamic bodies only (default 1). */
+    mass?: number;
+    /** 0–1, multiplied with the other body's on contact (default 0.3). */
+    friction?: number;
+    /** Bounciness 0–1, multiplied with the other body's on contact (default 0). */
+    restitution?: number;
+    /** Collider shape (default: sphere for sphere primitives, box otherwise). */
+    shape?: 'box' | 'sphere';
+}
+
+export interface TriggerComponent {
+    type: 'trigger';
+    /** Volume shape around the node's origin (default "box"); boxes are axis-aligned. */
+    shape?: 'box' | 'sphere';
+    /** Box dimensions [x, y, z] (default: the node's scale). */
+    size?: [number, number, number];
+    /** Sphere radius (default: half the node's largest scale). */
+    radius?: number;
+    /** Only react to these node IDs … */
+    nodes?: string[];
+    /** … or nodes carrying one of these tags. Without either, any mesh counts. */
+    tags?: string[];
+    /** Event fired when a node's origin enters the volume. */
+    onEnter?: string;
+    /** Event fired when it leaves (or is destroyed). */
+    onExit?: string;
+    /** Event fired every frame while it stays inside. */
+    onStay?: string;
+}
+
+export interface PlayerControllerComponent {
+    type: 'playerController';
+    /** Walking speed in units per second (default 5). */
+    speed?: number;
+    /** Take-off speed of a jump in units per second (default 6; 0 disables jumping). */
+    jumpSpeed?: number;
+    /** Downward acceleration in units per second² (default 20; 0 for top-down movement). */
+    gravity?: number;
+    /** Steer relative to the active camera's facing (default) or to the world axes. */
+    movement?: 'camera' | 'world';
+    /** KeyboardEvent.key per direction (default W/A/S/D and space). */
+    keys?: {
+        forward?: string;
+        back?: string;
+        left?: string;
+        right?: string;
+        jump?: string;
+    };
+}
+
+export interface AudioSourceComponent {
+    type: 'audioSource';
+    /** Audio asset key from the manifest. */
+    sound: string;
+    /** Heard from the node's position, fading with distance (default true); false plays in 2D. */
+    spatial?: boolean;
+    /** Distance beyond which a spatial sound is silent (default 100). */
+    maxDistance?: number;
+    /** Default false. */
+    loop?: boolean;
+    /** 0–1 (default 1). */
+    volume?: number;
+    /** Start when play starts (default false); otherwise it waits for play_sound. */
+    autoPlay?: boolean;
 }
 
 export type Component =
     | ClickableComponent
     | RotateComponent
     | KeybindComponent
-    | CollectibleComponent;
+    | CollectibleComponent
+    | PhysicsComponent
+    | TriggerComponent
+    | PlayerControllerComponent
+    | AudioSourceComponent;
 
 // ── Actions ──────────────────────────────────────────────────────────────────
 
+/**
+ * A number, or an expression over variables and `$event.*` payload fields
+ * in the `when` syntax, e.g. "lives", "$event.damage * 2".
+ */
+export type NumericValue = number | string;
+
 export interface IncrementAction {
     type: 'increment';
     target: string;  // Variable name, e.g. "score"
-    value: number;
+    value: NumericValue;
+}
+
+export interface SetVariableAction {
+    type: 'set_variable';
+    target: string;
+    /**
+     * New value; must match the variable's type. Strings are expressions,
+     * so quote string literals: "'open'".
+     */
+    value: VariableValue;
+}
+
+export interface MultiplyAction {
+    type: 'multiply';
+    target: string;
+    value: NumericValue;
+}
+
+/** Keep a variable within bounds; at least one of `min` and `max` is required. */
+export interface ClampAction {
+    type: 'clamp';
+    target: string;
+    min?: NumericValue;
+    max?: NumericValue;
+}
+
+export interface RandomRangeAction {
+    type: 'random_range';
+    target: string;
+    min: NumericValue;
+    max: NumericValue;
+    /** Whole numbers from min to max inclusive, instead of a real number in [min, max). */
+    integer?: boolean;
+}
+
+/** Copy one variable into another of the same type. */
+export interface CopyVariableAction {
+    type: 'copy_variable';
+    target: string;
+    /** Variable to copy the value from. */
+    from: string;
 }
 
 export interface DestroyNodeAction {
     type: 'destroy_node';
-    /** Node ID, or "$event.node" to use nodeId from the event payload. */
+    /** Node ID, "$event.node" for the payload's nodeId, or "$event.<field>" for another payload field. */
     target: string;
 }
 
@@ -57,21 +182,172 @@ export interface TransitionSceneAction {
     persistVars?: string[];
 }
 
-export type Action = IncrementAction | DestroyNodeAction | TransitionSceneAction;
+export interface SpawnNodeAction {
+    type: 'spawn_node';
+    /** Prefab key from the document's /prefabs library. */
+    prefab?: string;
+    /** Inline node definition, used when no prefab is given. */
+    node?: NodeTemplate;
+    /** Spawn position; an offset when `relativeTo` is set (default [0, 0, 0]). */
+    position?: [number, number, number];
+    /** Node ID, or "$event.node", whose current world position `position` is relative to. */
+    relativeTo?: string;
+    /** Base for the generated node id, e.g. "bullet" → "bullet_1" (default: prefab key). */
+    idPrefix?: string;
+}
+
+export interface StartTimerAction {
+    type: 'start_timer';
+    /** Timer ID; a key in the scene's `timers` block supplies defaults for the fields below. */
+    timer: string;
+    event?: string;
+    duration?: number;
+    repeat?: boolean;
+    times?: number;
+}
+
+export interface CancelTimerAction {
+    type: 'cancel_timer';
+    timer: string;
+}
+
+// ── Node Property Actions ───────────────────────────────────────────────────
+
+/** Node properties that actions can change during play, with their value types. */
+export interface NodePropertyValues {
+    position: [number, number, number];
+    /** Euler angles in degrees */
+    rotation: [number, number, number];
+    scale: [number, number, number];
+    /** Hex color; shown instead of the node's texture or material while set */
+    color: string;
+    /** Texture key from the asset manifest; shown instead of the node's material while set */
+    texture: string;
+}
+
+export type NodeProperty = keyof NodePropertyValues;
+
+/** Properties a tween can interpolate (everything but textures). */
+export type TweenableProperty = Exclude<NodeProperty, 'texture'>;
+
+/** Play-mode changes to a node, layered over its authored values until play stops. */
+export type NodeOverrides = Partial<NodePropertyValues>;
+
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export interface SetNodePropertyAction {
+    type: 'set_node_property';
+    /** Node ID, "$event.node" for the payload's nodeId, or "$event.<field>" for another payload field. */
+    target: string;
+    property: NodeProperty;
+    /** [x, y, z] for position, rotation and scale; a string for color and texture. */
+    value: [number, number, number] | string;
+}
+
+export interface TweenNodePropertyAction {
+    type: 'tween_node_property';
+    /** Node ID, "$event.node" for the payload's nodeId, or "$event.<field>" for another payload field. */
+    target: string;
+    property: TweenableProperty;
+    /** Final value, reached after `duration` seconds from the property's current value. */
+    to: [number, number, number] | string;
+    duration: number;
+    /** Default "linear". */
+    easing?: Easing;
+}
+
+export interface PlayAnimationAction {
+    type: 'play_animation';
+    /** Animation ID from the scene's `animations` block; restarts it if it is running. */
+    animation: string;
+    /** Node to play it on instead of the animation's own target: a node ID or "$event.<field>". */
+    target?: string;
+}
+
+export interface StopAnimationAction {
+    type: 'stop_animation';
+    animation: string;
+    /** Only stop it on this node (default: wherever it runs). */
+    target?: string;
+}
+
+export interface PlayClipAction {
+    type: 'play_clip';
+    /** Node with a GLB `asset`: a node ID or "$event.<field>". */
+    target: string;
+    /** Name of an animation clip in the node's model; replaces the clip it is playing. */
+    clip: string;
+    /** Default: the node's animationLoop (true). */
+    loop?: boolean;
+    /** Default: the node's animationSpeed (1). */
+    speed?: number;
+}
+
+export interface StopClipAction {
+    type: 'stop_clip';
+    target: string;
+}
+
+export interface PlaySoundAction {
+    type: 'play_sound';
+    /**
+     * Audio asset key to play once, from `target`'s position if given.
+     * Without it, `target`'s audioSource plays.
+     */
+    sound?: string;
+    /** Node ID or "$event.<field>". */
+    target?: string;
+    /** Volume of a one-shot `sound`, 0–1 (default 1). */
+    volume?: number;
+}
+
+export interface StopSoundAction {
+    type: 'stop_sound';
+    /** Stop this asset wherever it plays … */
+    sound?: string;
+    /** … or the sounds of this node (both: that asset on that node). */
+    target?: string;
+}
+
+export type Action =
+    | IncrementAction
+    | SetVariableAction
+    | MultiplyAction
+    | ClampAction
+    | RandomRangeAction
+    | CopyVariableAction
+    | DestroyNodeAction
+    | TransitionSceneAction
+    | SpawnNodeAction
+    | StartTimerAction
+    | CancelTimerAction
+    | SetNodePropertyAction
+    | TweenNodePropertyAction
+    | PlayAnimationAction
+    | StopAnimationAction
+    | PlayClipAction
+    | StopClipAction
+    | PlaySoundAction
+    | StopSoundAction;
 
 // ── Subscriptions ────────────────────────────────────────────────────────────
 
 export interface Subscription {
     id: string;
     on: string;           // Event name to listen for
-    when?: string;        // Optional condition expression (future use)
+    /**
+     * Optional condition expression, evaluated before the actions run.
+     * Supports variables, `$event.*` payload fields, comparisons, boolean
+     * logic and arithmetic, e.g. "boss_health <= 0".
+     */
+    when?: string;
     actions: Action[];
 }
 
 // ── Assets ───────────────────────────────────────────────────────────────────
 
 export interface AssetDefinition {
-    type: 'glb' | 'texture';
+    type: 'glb' | 'texture' | 'audio';
     url: string;
     /** Optional metadata for the asset */
     metadata?: {
@@ -81,28 +357,179 @@ export interface AssetDefinition {
     };
 }
 
+// ── Materials ────────────────────────────────────────────────────────────────
+
+/** PBR (metallic/roughness) material. Texture fields are texture keys from the asset manifest. */
+export interface MaterialDefinition {
+    baseColor?: string;            // Hex string (default white)
+    baseColorTexture?: string;
+    metallic?: number;             // 0–1 (default 0)
+    roughness?: number;            // 0–1 (default 1)
+    emissive?: string;             // Hex glow color
+    emissiveIntensity?: number;    // Default 1
+    alpha?: number;                // 0–1 opacity (default 1)
+    normalTexture?: string;
+    /** glTF-style packed map: roughness in green, metalness in blue */
+    metallicRoughnessTexture?: string;
+    aoTexture?: string;
+    /** UV tiling [u, v] for every map (default [1, 1]) */
+    uvScale?: [number, number];
+}
+
+/** MaterialDefinition fields that name a texture asset. */
+export const MATERIAL_TEXTURE_FIELDS = [
+    'baseColorTexture',
+    'normalTexture',
+    'metallicRoughnessTexture',
+    'aoTexture',
+] as const;
+
 // ── Node Types ───────────────────────────────────────────────────────────────
 
 export interface SceneNode {
     id: string;
-    type: 'mesh' | 'light';
+    type: 'mesh' | 'light' | 'camera';
+    /**
+     * Node ID in the same scene this node is attached to. Its position,
+     * rotation and scale are then local to the parent, and it moves,
+     * hides and is destroyed along with it.
+     */
+    parent?: string;
     /** Use primitive for built-in geometry (box, sphere, ground) */
     primitive?: 'box' | 'sphere' | 'ground';
     /** Use asset to reference an external 3D model from the asset manifest */
     asset?: string;
+    /** Animation clip embedded in the `asset` model to play in play mode */
+    animationClip?: string;
+    /** Start `animationClip` when play starts (default true); otherwise it waits for play_clip */
+    animationAutoPlay?: boolean;
+    /** Repeat `animationClip` (default true) */
+    animationLoop?: boolean;
+    /** Playback speed of `animationClip` (default 1) */
+    animationSpeed?: number;
     position: [number, number, number];
+    /** Euler angles in degrees [x, y, z], or a quaternion [x, y, z, w] */
+    rotation?: [number, number, number] | [number, number, number, number];
+    /** Per-axis scale [x, y, z]; takes precedence over `size` */
+    scale?: [number, number, number];
     color?: string;        // Hex string e.g. "#ff4444"
-    size?: number;         // Uniform scale (default 1)
+    size?: number;         // Uniform scale shorthand (default 1)
     intensity?: number;    // For lights
+    /** Light kind (default "hemispheric"); `color` tints the light */
+    lightType?: 'hemispheric' | 'directional' | 'point' | 'spot';
+    /** Light direction for hemispheric (towards the sky), directional and spot lights */
+    direction?: [number, number, number];
+    /** Falloff distance for point and spot lights */
+    range?: number;
+    /** Spot light cone angle in degrees */
+    coneAngle?: number;
+    /**
+     * Camera kind (default "free"): free (user-steered fly camera), follow
+     * (chases `target`), orbit (user orbits `target`) or fixed.
+     */
+    cameraType?: 'free' | 'follow' | 'orbit' | 'fixed';
+    /** Camera vertical field of view in degrees (default 45) */
+    fov?: number;
+    /** What a camera looks at: a node ID or a point [x, y, z] */
+    target?: string | [number, number, number];
     /** Texture key from asset manifest to apply as base material */
     texture?: string;
+    /**
+     * PBR material: a key in the document's /materials library (shared
+     * between nodes) or an inline definition. Takes precedence over
+     * `color` and `texture`.
+     */
+    material?: string | MaterialDefinition;
+    /** Mesh: cast shadows from shadow-casting lights. Light: cast shadows (not hemispheric). */
+    castShadows?: boolean;
+    /** Mesh: show shadows cast onto it */
+    receiveShadows?: boolean;
+    /** Free-form labels, e.g. for trigger filters ("enemy", "pickup") */
+    tags?: string[];
     components?: Component[];
 }
 
+/** A node definition without identity or placement, instantiated by spawn_node. */
+export type NodeTemplate = Omit<SceneNode, 'id' | 'position'>;
+
+// ── Timers ───────────────────────────────────────────────────────────────────
+
+export interface TimerDefinition {
+    /** Event published when the timer fires, with payload { timer, count }. */
+    event: string;
+    /** Seconds until it fires (and between firings when repeating). */
+    duration: number;
+    /** Keep firing every `duration` seconds until cancelled. */
+    repeat?: boolean;
+    /** Stop a repeating timer after this many firings. */
+    times?: number;
+    /** Start when play starts or the scene is entered (default true). */
+    autoStart?: boolean;
+}
+
+// ── Animations ───────────────────────────────────────────────────────────────
+
+/** Properties an animation track can drive; `intensity` is for lights only. */
+export type AnimatableProperty = 'position' | 'rotation' | 'scale' | 'color' | 'intensity';
+
+export interface AnimationKeyframe {
+    /** Seconds from the start of the animation */
+    time: number;
+    /** [x, y, z] for position, rotation (Euler degrees) and scale; hex string for color; number for intensity */
+    value: [number, number, number] | string | number;
+}
+
+export interface AnimationTrack {
+    property: AnimatableProperty;
+    /** In ascending time order */
+    keyframes: AnimationKeyframe[];
+    /** Easing between consecutive keyframes (default "linear") */
+    easing?: Easing;
+}
+
+export interface AnimationDefinition {
+    /** Node the tracks animate (play_animation may pick another) */
+    target: string;
+    tracks: AnimationTrack[];
+    /** "once" (default) holds the last keyframe, "loop" restarts, "pingPong" plays back and forth */
+    loop?: 'once' | 'loop' | 'pingPong';
+    /** Playback rate (default 1) */
+    speed?: number;
+    /** Start when play starts or the scene is entered (default false) */
+    autoPlay?: boolean;
+    /**
+     * Event published when a "once" animation finishes, or each time a
+     * looping one completes a cycle. Payload: { nodeId, animation }.
+     */
+    onComplete?: string;
+}
+
+// ── Variables ────────────────────────────────────────────────────────────────
+
+/** A variable's value: number, flag, text, or a list of numbers or strings. */
+export type VariableValue = number | boolean | string | number[] | string[];
+
+export type VariableType = 'number' | 'boolean' | 'string' | 'list';
+
+/** Prefix that routes a variable key to the game-wide globals. */
+export const GLOBAL_PREFIX = 'global.';
+
+export function getVariableType(value: VariableValue): VariableType {
+    if (Array.isArray(value)) return 'list';
+    return typeof value as 'number' | 'boolean' | 'string';
+}
+
 // ── Document ─────────────────────────────────────────────────────────────────
 
 export interface SceneData {
-    variables?: Record<string, number>;
+    /** Initial variable values; a variable keeps its type during play */
+    variables?: Record<string, VariableValue>;
+    /** Named timers; paused while not playing, cleared on scene transitions */
+    timers?: Record<string, TimerDefinition>;
+    /** Named keyframe animations; they only run while playing */
+    animations?: Record<string, AnimationDefinition>;
+    /** Camera node to look through in play mode (default: the editor camera) */
+    activeCamera?: string;
     nodes: SceneNode[];
     subscriptions?: Subscription[];
 }
@@ -116,6 +543,16 @@ export interface GameDocument {
     assets?: {
         [assetKey: string]: AssetDefinition;
     };
+    /** Material library: PBR materials that nodes share by key */
+    materials?: {
+        [materialId: string]: MaterialDefinition;
+    };
+    /** Prefab library: reusable node templates that spawn_node can instantiate during play */
+    prefabs?: {
+        [prefabId: string]: NodeTemplate;
+    };
+    /** Game-wide variables, addressed as `global.<name>`; kept across scene transitions */
+    globals?: Record<string, VariableValue>;
 }
 
 // ── Phase 3 Mock Data ────────────────────────────────────────────────────────
@@ -317,7 +754,14 @@ export const mockGameDoc: GameDocument = {
                     actions: [
                         { type: 'increment', target: 'score', value: 50 },
                         { type: 'increment', target: 'boss_health', value: -1 },
-                        // In a real implementation, you'd check boss_health and destroy boss when it reaches 0
+                    ],
+                },
+                {
+                    id: 'defeat_boss',
+                    on: 'boss.hit',
+                    when: 'boss_health <= 0',
+                    actions: [
+                        { type: 'destroy_node', target: 'boss' },
                     ],
                 },
                 {
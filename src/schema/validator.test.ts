@@ -5,7 +5,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { validatePatches, GameDocumentSchema } from './validator';
+import { validatePatches, validateSemantics, toJsonPointer, GameDocumentSchema } from './validator';
 import type { GameDocument } from './game.schema';
 
 describe('validator', () => {
@@ -78,6 +78,49 @@ describe('validator', () => {
             expect(result.success).toBe(false);
         });
 
+        it('accepts Euler or quaternion rotation and per-axis scale', () => {
+            const withTransform = (rotation: number[], scale: number[]) => ({
+                ...validDoc,
+                scenes: {
+                    test_scene: {
+                        nodes: [{ id: 'node1', type: 'mesh', position: [0, 0, 0], rotation, scale }],
+                    },
+                },
+            });
+
+            expect(GameDocumentSchema.safeParse(withTransform([0, 45, 0], [2, 1, 1])).success).toBe(true);
+            expect(GameDocumentSchema.safeParse(withTransform([0, 0, 0, 1], [2, 1, 1])).success).toBe(true);
+            expect(GameDocumentSchema.safeParse(withTransform([0, 45], [2, 1, 1])).success).toBe(false);
+            expect(GameDocumentSchema.safeParse(withTransform([0, 45, 0], [2, 0, 1])).success).toBe(false);
+        });
+
+        it('validates light settings', () => {
+            const withLight = (light: object) => ({
+                ...validDoc,
+                scenes: { test_scene: { nodes: [{ id: 'sun', type: 'light', position: [0, 10, 0], ...light }] } },
+            });
+
+            expect(GameDocumentSchema.safeParse(withLight({ lightType: 'spot', direction: [0, -1, 0], coneAngle: 60, range: 10 })).success).toBe(true);
+            expect(GameDocumentSchema.safeParse(withLight({ lightType: 'laser' })).success).toBe(false);
+            expect(GameDocumentSchema.safeParse(withLight({ direction: [0, 0, 0] })).success).toBe(false);
+            expect(GameDocumentSchema.safeParse(withLight({ coneAngle: 0 })).success).toBe(false);
+        });
+
+        it('keeps physics friction and restitution within 0–1', () => {
+            const withPhysics = (physics: object) => ({
+                ...validDoc,
+                scenes: {
+                    test_scene: {
+                        nodes: [{ id: 'ball', type: 'mesh', position: [0, 0, 0], components: [{ type: 'physics', body: 'dynamic', ...physics }] }],
+                    },
+                },
+            });
+
+            expect(GameDocumentSchema.safeParse(withPhysics({ friction: 0, restitution: 1 })).success).toBe(true);
+            expect(GameDocumentSchema.safeParse(withPhysics({ restitution: 5 })).success).toBe(false);
+            expect(GameDocumentSchema.safeParse(withPhysics({ friction: 1.5 })).success).toBe(false);
+        });
+
         it('rejects a document with empty node id', () => {
             const invalidDoc = {
                 ...validDoc,
@@ -99,6 +142,28 @@ describe('validator', () => {
             expect(result.success).toBe(false);
         });
 
+        it('rejects a trigger without any event', () => {
+            const invalidDoc = {
+                ...validDoc,
+                scenes: {
+                    test_scene: {
+                        nodes: [
+                            {
+                                id: 'zone',
+                                type: 'mesh',
+                                position: [0, 0, 0],
+                                components: [{ type: 'trigger', size: [2, 2, 2] }],
+                            },
+                        ],
+                    },
+                },
+            };
+
+            const result = GameDocumentSchema.safeParse(invalidDoc);
+            expect(result.success).toBe(false);
+            expect(result.error?.issues[0]?.message).toContain('onEnter, onExit or onStay');
+        });
+
         it('accepts assets with valid URLs', () => {
             const docWithAssets: GameDocument = {
                 ...validDoc,
@@ -236,6 +301,11 @@ describe('validator', () => {
 
         it('accepts texture field on nodes', () => {
             const patches = [
+                {
+                    op: 'add' as const,
+                    path: '/assets',
+                    value: { fire_texture: { type: 'texture', url: '/textures/fire.png' } },
+                },
                 {
                     op: 'add' as const,
                     path: '/scenes/test_scene/nodes/0/texture',
@@ -251,6 +321,11 @@ describe('validator', () => {
 
         it('accepts nodes with texture from the start', () => {
             const patches = [
+                {
+                    op: 'add' as const,
+                    path: '/assets',
+                    value: { wood_texture: { type: 'texture', url: '/textures/wood.png' } },
+                },
                 {
                     op: 'add' as const,
                     path: '/scenes/test_scene/nodes/1',
@@ -269,5 +344,540 @@ describe('validator', () => {
             expect(result.success).toBe(true);
             expect(result.data!.scenes.test_scene.nodes[1].texture).toBe('wood_texture');
         });
+
+        it('rejects subscriptions with an unparseable when condition', () => {
+            const patches = [
+                {
+                    op: 'add' as const,
+                    path: '/scenes/test_scene/subscriptions',
+                    value: [{ id: 'rule', on: 'box.clicked', when: 'score >=', actions: [] }],
+                },
+            ];
+
+            const result = validatePatches(validDoc, patches);
+
+            expect(result.success).toBe(false);
+            expect(result.error).toContain('Invalid condition expression');
+        });
+
+        it('rejects action values with an unparseable expression', () => {
+            const doc = {
+                activeScene: 'main',
+                scenes: {
+                    main: {
+                        nodes: [],
+                        subscriptions: [{
+                            id: 'hit',
+                            on: 'boss.hit',
+                            actions: [{ type: 'set_variable', target: 'hp', value: 'hp - (' }],
+                        }],
+                    },
+                },
+            };
+
+            const result = GameDocumentSchema.safeParse(doc);
+            expect(result.success).toBe(false);
+            expect(JSON.stringify(result.error?.issues)).toContain('Invalid value expression');
+        });
+
+        it('accepts subscriptions with a valid when condition', () => {
+            const patches = [
+                {
+                    op: 'add' as const,
+                    path: '/scenes/test_scene/nodes/0/components',
+                    value: [{ type: 'clickable', event: 'box.clicked' }],
+                },
+                {
+                    op: 'add' as const,
+                    path: '/scenes/test_scene/subscriptions',
+                    value: [{ id: 'rule', on: 'box.clicked', when: 'score >= 10 && $event.node == "node1"', actions: [] }],
+                },
+            ];
+
+            const result = validatePatches(validDoc, patches);
+
+            expect(result.success).toBe(true);
+        });
+
+        it('accepts typed variables and rejects mixed lists', () => {
+            const withVariables = (variables: unknown) => ({
+                ...validDoc,
+                scenes: { test_scene: { ...validDoc.scenes.test_scene, variables } },
+            });
+
+            expect(GameDocumentSchema.safeParse(withVariables({
+                score: 0,
+                door_open: false,
+                player_name: 'Ada',
+                inventory: ['key'],
+                checkpoints: [1, 2],
+            })).success).toBe(true);
+            expect(GameDocumentSchema.safeParse(withVariables({ mixed: ['key', 1] })).success).toBe(false);
+        });
+
+        it('validates animation tracks', () => {
+            const withAnimations = (animations: unknown) => ({
+                ...validDoc,
+                scenes: { test_scene: { ...validDoc.scenes.test_scene, animations } },
+            });
+            const track = (property: string, keyframes: unknown[]) => ({ target: 'node1', tracks: [{ property, keyframes }] });
+
+            expect(GameDocumentSchema.safeParse(withAnimations({
+                spin: { ...track('rotation', [{ time: 0, value: [0, 0, 0] }, { time: 2, value: [0, 360, 0] }]), loop: 'loop' },
+                glow: track('intensity', [{ time: 0.5, value: 4 }]),
+            })).success).toBe(true);
+
+            const result = GameDocumentSchema.safeParse(withAnimations({
+                a: track('color', [{ time: 0, value: 3 }]),
+                b: track('position', [{ time: 1, value: [0, 0, 0] }, { time: 0.5, value: [0, 1, 0] }]),
+                c: { ...track('scale', [{ time: 0, value: [1, 1, 1] }]), loop: 'pingPong' },
+            }));
+            expect(result.success).toBe(false);
+            expect(result.error?.issues.map((i) => i.path.slice(3).join('/'))).toEqual([
+                'a/tracks/0/keyframes/0/value',
+                'b/tracks/0/keyframes/1/time',
+                'c/loop',
+            ]);
+        });
+
+        it('checks node property values against their property', () => {
+            const withActions = (actions: unknown[]) => ({
+                ...validDoc,
+                scenes: {
+                    test_scene: { ...validDoc.scenes.test_scene, subscriptions: [{ id: 'open', on: 'door.open', actions }] },
+                },
+            });
+
+            expect(GameDocumentSchema.safeParse(withActions([
+                { type: 'set_node_property', target: 'node1', property: 'color', value: '#ff0000' },
+                { type: 'tween_node_property', target: 'node1', property: 'position', to: [0, 3, 0], duration: 1, easing: 'easeInOut' },
+            ])).success).toBe(true);
+
+            const result = GameDocumentSchema.safeParse(withActions([
+                { type: 'set_node_property', target: 'node1', property: 'scale', value: [1, 0, 1] },
+                { type: 'tween_node_property', target: 'node1', property: 'color', to: [1, 0, 0], duration: 1 },
+                { type: 'tween_node_property', target: 'node1', property: 'texture', to: 'wood', duration: 1 },
+            ]));
+            expect(result.success).toBe(false);
+            expect(result.error?.issues.map((i) => i.path.slice(-2).join('/'))).toEqual(['0/value', '1/to', '2/property']);
+        });
+    });
+
+    describe('validateSemantics', () => {
+        const sceneDoc = (overrides: Partial<GameDocument> = {}): GameDocument => ({
+            activeScene: 'a',
+            scenes: {
+                a: {
+                    nodes: [
+                        {
+                            id: 'button',
+                            type: 'mesh',
+                            primitive: 'box',
+                            position: [0, 0, 0],
+                            components: [{ type: 'clickable', event: 'button.clicked' }],
+                        },
+                    ],
+                    subscriptions: [
+                        { id: 'go', on: 'button.clicked', actions: [{ type: 'transition_scene', to: 'b' }] },
+                    ],
+                },
+                b: { nodes: [] },
+            },
+            ...overrides,
+        });
+
+        it('accepts a consistent document', () => {
+            expect(validateSemantics(sceneDoc())).toEqual([]);
+        });
+
+        it('reports an activeScene that does not exist', () => {
+            const issues = validateSemantics(sceneDoc({ activeScene: 'nowhere' }));
+
+            expect(issues.map((i) => i.path)).toEqual(['/activeScene']);
+        });
+
+        it('reports duplicate node ids within a scene', () => {
+            const doc = sceneDoc();
+            doc.scenes.a!.nodes.push({ id: 'button', type: 'mesh', position: [1, 0, 0] });
+
+            const issues = validateSemantics(doc);
+
+            expect(issues).toHaveLength(1);
+            expect(issues[0]!.path).toBe('/scenes/a/nodes/1/id');
+            expect(issues[0]!.message).toContain('/scenes/a/nodes/0');
+        });
+
+        it('allows the same node id in different scenes', () => {
+            const doc = sceneDoc();
+            doc.scenes.b!.nodes.push({ id: 'button', type: 'mesh', position: [0, 0, 0] });
+
+            expect(validateSemantics(doc)).toEqual([]);
+        });
+
+        it('reports transitions to unknown scenes', () => {
+            const doc = sceneDoc();
+            delete doc.scenes.b;
+
+            expect(validateSemantics(doc).map((i) => i.path)).toEqual([
+                '/scenes/a/subscriptions/0/actions/0/to',
+            ]);
+        });
+
+        it('reports asset and texture references of the wrong type', () => {
+            const doc = sceneDoc({
+                assets: {
+                    tree: { type: 'glb', url: '/models/tree.glb' },
+                    bark: { type: 'texture', url: '/textures/bark.png' },
+                },
+            });
+            doc.scenes.a!.nodes[0]!.asset = 'bark';
+            doc.scenes.a!.nodes[0]!.texture = 'tree';
+
+            const issues = validateSemantics(doc);
+
+            expect(issues.map((i) => i.path)).toEqual([
+                '/scenes/a/nodes/0/asset',
+                '/scenes/a/nodes/0/texture',
+            ]);
+        });
+
+        it('reports subscriptions to events no component emits', () => {
+            const doc = sceneDoc();
+            doc.scenes.a!.subscriptions!.push({ id: 'orphan', on: 'ghost.event', actions: [] });
+
+            const issues = validateSemantics(doc);
+
+            expect(issues).toHaveLength(1);
+            expect(issues[0]!.path).toBe('/scenes/a/subscriptions/1/on');
+            expect(issues[0]!.message).toContain('button.clicked');
+        });
+
+        it('reports unknown materials and material maps that are not textures', () => {
+            const doc = sceneDoc({
+                assets: { tree: { type: 'glb', url: '/models/tree.glb' } },
+                materials: { bark: { roughness: 0.9, normalTexture: 'tree' } },
+            });
+            doc.scenes.a!.nodes.push(
+                { id: 'log', type: 'mesh', position: [0, 0, 0], material: 'bark' },
+                { id: 'rock', type: 'mesh', position: [0, 0, 0], material: 'stone' },
+                { id: 'gem', type: 'mesh', position: [0, 0, 0], material: { aoTexture: 'gem_ao' } },
+            );
+
+            expect(validateSemantics(doc).map((i) => i.path)).toEqual([
+                '/materials/bark/normalTexture',
+                '/scenes/a/nodes/2/material',
+                '/scenes/a/nodes/3/material/aoTexture',
+            ]);
+        });
+
+        it('reports an activeCamera that is not a camera and unknown camera targets', () => {
+            const doc = sceneDoc();
+            doc.scenes.a!.activeCamera = 'button';
+            doc.scenes.a!.nodes.push({ id: 'cam', type: 'camera', position: [0, 2, -5], target: 'ghost' });
+
+            expect(validateSemantics(doc).map((i) => i.path)).toEqual([
+                '/scenes/a/activeCamera',
+                '/scenes/a/nodes/1/target',
+            ]);
+
+            doc.scenes.a!.activeCamera = 'cam';
+            doc.scenes.a!.nodes[1]!.target = 'button';
+            expect(validateSemantics(doc)).toEqual([]);
+        });
+
+        it('reports shadow casting on hemispheric lights', () => {
+            const doc = sceneDoc();
+            doc.scenes.a!.nodes.push(
+                { id: 'sky', type: 'light', position: [0, 10, 0], castShadows: true },
+                { id: 'sun', type: 'light', lightType: 'directional', position: [0, 10, 0], castShadows: true },
+            );
+
+            expect(validateSemantics(doc).map((i) => i.path)).toEqual(['/scenes/a/nodes/1/castShadows']);
+        });
+
+        it('reports missing parents and parent cycles', () => {
+            const doc = sceneDoc();
+            doc.scenes.a!.nodes.push(
+                { id: 'handle', type: 'mesh', position: [0, 0, 0], parent: 'door' },
+                { id: 'x', type: 'mesh', position: [0, 0, 0], parent: 'y' },
+                { id: 'y', type: 'mesh', position: [0, 0, 0], parent: 'x' },
+                { id: 'z', type: 'mesh', position: [0, 0, 0], parent: 'x' },
+            );
+
+            const issues = validateSemantics(doc);
+
+            expect(issues.map((i) => i.path)).toEqual([
+                '/scenes/a/nodes/1/parent',
+                '/scenes/a/nodes/2/parent',
+                '/scenes/a/nodes/3/parent',
+            ]);
+            expect(issues[1]!.message).toContain('x → y → x');
+        });
+
+        it('reports spawn_node actions with an unknown prefab', () => {
+            const doc = sceneDoc({ prefabs: { coin: { type: 'mesh', primitive: 'sphere' } } });
+            doc.scenes.a!.subscriptions![0]!.actions.push(
+                { type: 'spawn_node', prefab: 'coin' },
+                { type: 'spawn_node', prefab: 'gem' },
+            );
+
+            expect(validateSemantics(doc).map((i) => i.path)).toEqual([
+                '/scenes/a/subscriptions/0/actions/2/prefab',
+            ]);
+        });
+
+        it('reports spawn_node actions that place a parented template relative to a node', () => {
+            const doc = sceneDoc({ prefabs: { coin: { type: 'mesh', parent: 'button' } } });
+            doc.scenes.a!.subscriptions![0]!.actions.push(
+                { type: 'spawn_node', prefab: 'coin' },
+                { type: 'spawn_node', prefab: 'coin', relativeTo: 'button' },
+                { type: 'spawn_node', node: { type: 'mesh' }, relativeTo: 'button' },
+            );
+
+            expect(validateSemantics(doc).map((i) => i.path)).toEqual([
+                '/scenes/a/subscriptions/0/actions/2/relativeTo',
+            ]);
+        });
+
+        it('counts events from spawnable nodes as emitted', () => {
+            const doc = sceneDoc({
+                prefabs: {
+                    coin: { type: 'mesh', components: [{ type: 'clickable', event: 'coin.clicked' }] },
+                },
+            });
+            doc.scenes.a!.subscriptions!.push(
+                { id: 'drop', on: 'button.clicked', actions: [{ type: 'spawn_node', prefab: 'coin' }] },
+                { id: 'take', on: 'coin.clicked', actions: [{ type: 'destroy_node', target: '$event.node' }] },
+            );
+
+            expect(validateSemantics(doc)).toEqual([]);
+        });
+
+        it('counts collision events as emitted when a node has physics', () => {
+            const doc = sceneDoc();
+            doc.scenes.a!.subscriptions!.push(
+                { id: 'hit', on: 'collision.enter', actions: [{ type: 'destroy_node', target: '$event.node' }] },
+            );
+            expect(validateSemantics(doc).map((i) => i.path)).toEqual(['/scenes/a/subscriptions/1/on']);
+
+            doc.scenes.a!.nodes.push({
+                id: 'ball',
+                type: 'mesh',
+                position: [0, 5, 0],
+                components: [{ type: 'physics', body: 'dynamic' }],
+            });
+            expect(validateSemantics(doc)).toEqual([]);
+        });
+
+        it('counts trigger events as emitted', () => {
+            const doc = sceneDoc();
+            doc.scenes.a!.nodes.push({
+                id: 'lava',
+                type: 'mesh',
+                position: [0, 0, 0],
+                components: [{ type: 'trigger', tags: ['player'], onEnter: 'lava.entered' }],
+            });
+            doc.scenes.a!.subscriptions!.push(
+                { id: 'burn', on: 'lava.entered', actions: [{ type: 'destroy_node', target: '$event.otherId' }] },
+            );
+
+            expect(validateSemantics(doc)).toEqual([]);
+        });
+
+        it('reports player controllers on dynamic physics bodies', () => {
+            const doc = sceneDoc();
+            doc.scenes.a!.nodes.push({
+                id: 'hero',
+                type: 'mesh',
+                position: [0, 1, 0],
+                components: [
+                    { type: 'physics', body: 'dynamic' },
+                    { type: 'playerController', speed: 4 },
+                ],
+            });
+
+            expect(validateSemantics(doc).map((i) => i.path)).toEqual(['/scenes/a/nodes/1/components/1']);
+        });
+
+        it('counts timer events as emitted and checks timer references', () => {
+            const doc = sceneDoc();
+            const scene = doc.scenes.a!;
+            scene.timers = { countdown: { event: 'time.up', duration: 30 } };
+            scene.subscriptions!.push(
+                { id: 'lose', on: 'time.up', actions: [{ type: 'transition_scene', to: 'b' }] },
+                {
+                    id: 'arm',
+                    on: 'button.clicked',
+                    actions: [
+                        { type: 'start_timer', timer: 'fuse', event: 'bomb.explode', duration: 3 },
+                        { type: 'start_timer', timer: 'countdown' },
+                        { type: 'start_timer', timer: 'broken', duration: 3 },
+                        { type: 'cancel_timer', timer: 'fuse' },
+                        { type: 'cancel_timer', timer: 'missing' },
+                    ],
+                },
+                { id: 'boom', on: 'bomb.explode', actions: [{ type: 'destroy_node', target: 'button' }] },
+            );
+
+            const issues = validateSemantics(doc);
+
+            expect(issues.map((i) => i.path)).toEqual([
+                '/scenes/a/subscriptions/2/actions/2',
+                '/scenes/a/subscriptions/2/actions/4/timer',
+            ]);
+            expect(issues[0]!.message).toContain('needs "event"');
+        });
+
+        it('reports clamps without bounds and inverted numeric ranges', () => {
+            const doc = sceneDoc();
+            doc.scenes.a!.subscriptions![0]!.actions.push(
+                { type: 'clamp', target: 'health' },
+                { type: 'clamp', target: 'health', min: 0, max: 'max_health' },
+                { type: 'random_range', target: 'roll', min: 6, max: 1 },
+            );
+
+            expect(validateSemantics(doc).map((i) => i.path)).toEqual([
+                '/scenes/a/subscriptions/0/actions/1',
+                '/scenes/a/subscriptions/0/actions/3/min',
+            ]);
+        });
+
+        it('reports variable actions that clash with declared variable types', () => {
+            const doc = sceneDoc();
+            doc.scenes.a!.variables = { score: 0, door_open: false, player_name: 'Ada', inventory: ['key'] };
+            doc.scenes.a!.subscriptions![0]!.actions.push(
+                { type: 'increment', target: 'door_open', value: 1 },
+                { type: 'set_variable', target: 'door_open', value: true },
+                { type: 'set_variable', target: 'player_name', value: ['Bob'] },
+                { type: 'set_variable', target: 'player_name', value: "'Bob'" },
+                { type: 'copy_variable', target: 'inventory', from: 'player_name' },
+                { type: 'multiply', target: 'score', value: 2 },
+            );
+
+            const issues = validateSemantics(doc);
+
+            expect(issues.map((i) => i.path)).toEqual([
+                '/scenes/a/subscriptions/0/actions/1/target',
+                '/scenes/a/subscriptions/0/actions/3/value',
+                '/scenes/a/subscriptions/0/actions/5/from',
+            ]);
+            expect(issues[0]!.message).toBe('increment needs a number variable, but "door_open" is a boolean');
+        });
+
+        it('reports set_node_property textures that are not texture assets', () => {
+            const doc = sceneDoc({ assets: { wood: { type: 'texture', url: '/wood.png' }, tree: { type: 'glb', url: '/tree.glb' } } });
+            doc.scenes.a!.subscriptions![0]!.actions.push(
+                { type: 'set_node_property', target: 'button', property: 'texture', value: 'wood' },
+                { type: 'set_node_property', target: 'button', property: 'texture', value: 'tree' },
+            );
+
+            expect(validateSemantics(doc).map((i) => i.path)).toEqual(['/scenes/a/subscriptions/0/actions/2/value']);
+        });
+
+        it('requires a model for animation clips', () => {
+            const doc = sceneDoc({ assets: { knight: { type: 'glb', url: '/models/knight.glb' } } });
+            doc.scenes.a!.nodes.push(
+                { id: 'hero', type: 'mesh', asset: 'knight', position: [0, 0, 0], animationClip: 'Idle' },
+                { id: 'crate', type: 'mesh', primitive: 'box', position: [2, 0, 0], animationClip: 'Open' },
+            );
+            doc.scenes.a!.subscriptions![0]!.actions.push(
+                { type: 'play_clip', target: 'hero', clip: 'Run' },
+                { type: 'play_clip', target: '$event.node', clip: 'Run' },
+                { type: 'stop_clip', target: 'crate' },
+                { type: 'stop_clip', target: 'enemy_1' },
+            );
+
+            expect(validateSemantics(doc).map((i) => i.path)).toEqual([
+                '/scenes/a/nodes/2/animationClip',
+                '/scenes/a/subscriptions/0/actions/3/target',
+            ]);
+        });
+
+        it('checks sounds against audio assets', () => {
+            const doc = sceneDoc({
+                assets: {
+                    song: { type: 'audio', url: '/audio/song.mp3' },
+                    wood: { type: 'texture', url: '/textures/wood.png' },
+                },
+            });
+            doc.scenes.a!.nodes.push(
+                { id: 'radio', type: 'mesh', primitive: 'box', position: [0, 0, 0], components: [{ type: 'audioSource', sound: 'song' }] },
+                { id: 'crate', type: 'mesh', primitive: 'box', position: [2, 0, 0], components: [{ type: 'audioSource', sound: 'wood' }] },
+            );
+            doc.scenes.a!.subscriptions![0]!.actions.push(
+                { type: 'play_sound', target: 'radio' },
+                { type: 'play_sound', sound: 'song', target: 'button' },
+                { type: 'play_sound', target: 'button' },
+                { type: 'play_sound', sound: 'boom' },
+                { type: 'stop_sound' },
+            );
+
+            expect(validateSemantics(doc).map((i) => i.message)).toEqual([
+                'Asset "wood" is a texture, expected audio',
+                'Node "button" has no audioSource component; give it one or set "sound"',
+                'Sound "boom" is not in the asset manifest (/assets)',
+                'stop_sound needs a "sound", a "target" or both',
+            ]);
+        });
+
+        it('checks animation targets and references', () => {
+            const doc = sceneDoc();
+            doc.scenes.a!.nodes.push({ id: 'sun', type: 'light', position: [0, 5, 0] });
+            doc.scenes.a!.animations = {
+                fade: { target: 'sun', tracks: [{ property: 'intensity', keyframes: [{ time: 1, value: 0 }] }], onComplete: 'sun.set' },
+                grow: { target: 'sun', tracks: [{ property: 'scale', keyframes: [{ time: 1, value: [2, 2, 2] }] }] },
+                lost: { target: 'ghost', tracks: [{ property: 'position', keyframes: [{ time: 1, value: [0, 0, 0] }] }] },
+            };
+            doc.scenes.a!.subscriptions!.push({
+                id: 'night',
+                on: 'sun.set',
+                actions: [{ type: 'play_animation', animation: 'fade' }, { type: 'stop_animation', animation: 'dusk' }],
+            });
+
+            expect(validateSemantics(doc).map((i) => i.path)).toEqual([
+                '/scenes/a/animations/grow/tracks/0/property',
+                '/scenes/a/animations/lost/target',
+                '/scenes/a/subscriptions/1/actions/1/animation',
+            ]);
+        });
+
+        it('checks global references against /globals', () => {
+            const doc = sceneDoc({ globals: { score: 0, hero: 'Ada' } });
+            doc.scenes.b!.variables = { 'global.lives': 3 };
+            doc.scenes.a!.subscriptions![0]!.actions.push(
+                { type: 'increment', target: 'global.score', value: 1 },
+                { type: 'increment', target: 'global.hero', value: 1 },
+                { type: 'copy_variable', target: 'best', from: 'global.coins' },
+            );
+
+            const issues = validateSemantics(doc);
+
+            expect(issues.map((i) => i.path)).toEqual([
+                '/scenes/a/subscriptions/0/actions/2/target',
+                '/scenes/a/subscriptions/0/actions/3/from',
+                '/scenes/b/variables/global.lives',
+            ]);
+            expect(issues[1]!.message).toBe('Global "coins" is not declared in /globals');
+        });
+
+        it('reports physics nodes with a parent', () => {
+            const doc = sceneDoc();
+            doc.scenes.a!.nodes.push({
+                id: 'ball',
+                type: 'mesh',
+                position: [0, 1, 0],
+                parent: 'button',
+                components: [{ type: 'physics', body: 'dynamic' }],
+            });
+
+            expect(validateSemantics(doc).map((i) => i.path)).toEqual(['/scenes/a/nodes/1/parent']);
+        });
+    });
+
+    describe('toJsonPointer', () => {
+        it('escapes "~" and "/" in segments', () => {
+            expect(toJsonPointer(['assets', 'a/b~c'])).toBe('/assets/a~1b~0c');
+            expect(toJsonPointer([])).toBe('');
+        });
     });
 });
@@ -8,7 +8,20 @@
 import { z } from 'zod';
 import type { Operation } from 'fast-json-patch';
 import { applyPatch as applyJsonPatch } from 'fast-json-patch';
-import type { GameDocument } from './game.schema';
+import {
+    getVariableType,
+    GLOBAL_PREFIX,
+    MATERIAL_TEXTURE_FIELDS,
+    type Action,
+    type AnimatableProperty,
+    type Component,
+    type GameDocument,
+    type MaterialDefinition,
+    type NodeProperty,
+    type SceneNode,
+    type VariableValue,
+} from './game.schema';
+import { getConditionError } from './expression';
 
 // ── Component Schemas ────────────────────────────────────────────────────────
 
@@ -27,11 +40,59 @@ const KeybindComponentSchema = z.object({
     type: z.literal('keybind'),
     key: z.string().min(1),
     event: z.string().min(1),
+    phase: z.enum(['down', 'up', 'held']).optional(),
 });
 
 const CollectibleComponentSchema = z.object({
     type: z.literal('collectible'),
     event: z.string().min(1),
+    collector: z.string().min(1).optional(),
+});
+
+const PhysicsComponentSchema = z.object({
+    type: z.literal('physics'),
+    body: z.enum(['static', 'dynamic', 'kinematic']),
+    mass: z.number().positive().optional(),
+    friction: z.number().min(0).max(1).optional(),
+    restitution: z.number().min(0).max(1).optional(),
+    shape: z.enum(['box', 'sphere']).optional(),
+});
+
+const TriggerComponentSchema = z.object({
+    type: z.literal('trigger'),
+    shape: z.enum(['box', 'sphere']).optional(),
+    size: z.tuple([z.number().positive(), z.number().positive(), z.number().positive()]).optional(),
+    radius: z.number().positive().optional(),
+    nodes: z.array(z.string().min(1)).optional(),
+    tags: z.array(z.string().min(1)).optional(),
+    onEnter: z.string().min(1).optional(),
+    onExit: z.string().min(1).optional(),
+    onStay: z.string().min(1).optional(),
+});
+
+const PlayerControllerComponentSchema = z.object({
+    type: z.literal('playerController'),
+    speed: z.number().min(0).optional(),
+    jumpSpeed: z.number().min(0).optional(),
+    gravity: z.number().min(0).optional(),
+    movement: z.enum(['camera', 'world']).optional(),
+    keys: z.object({
+        forward: z.string().min(1).optional(),
+        back: z.string().min(1).optional(),
+        left: z.string().min(1).optional(),
+        right: z.string().min(1).optional(),
+        jump: z.string().min(1).optional(),
+    }).optional(),
+});
+
+const AudioSourceComponentSchema = z.object({
+    type: z.literal('audioSource'),
+    sound: z.string().min(1),
+    spatial: z.boolean().optional(),
+    maxDistance: z.number().positive().optional(),
+    loop: z.boolean().optional(),
+    volume: z.number().min(0).max(1).optional(),
+    autoPlay: z.boolean().optional(),
 });
 
 const ComponentSchema = z.discriminatedUnion('type', [
@@ -39,14 +100,81 @@ const ComponentSchema = z.discriminatedUnion('type', [
     RotateComponentSchema,
     KeybindComponentSchema,
     CollectibleComponentSchema,
-]);
+    PhysicsComponentSchema,
+    TriggerComponentSchema,
+    PlayerControllerComponentSchema,
+    AudioSourceComponentSchema,
+]).refine((c) => c.type !== 'trigger' || c.onEnter || c.onExit || c.onStay, {
+    message: 'A trigger needs at least one of onEnter, onExit or onStay',
+});
 
 // ── Action Schemas ───────────────────────────────────────────────────────────
 
+/** A number, or an expression in the `when` syntax that must parse. */
+const NumericValueSchema = z.union([
+    z.number(),
+    z.string().min(1).superRefine((expr, ctx) => {
+        const error = getConditionError(expr);
+        if (error) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `Invalid value expression: ${error}`,
+            });
+        }
+    }),
+]);
+
 const IncrementActionSchema = z.object({
     type: z.literal('increment'),
     target: z.string().min(1),
-    value: z.number(),
+    value: NumericValueSchema,
+});
+
+const VariableValueSchema = z.union([
+    z.number(),
+    z.boolean(),
+    z.string(),
+    z.array(z.number()),
+    z.array(z.string()),
+]);
+
+const SetVariableActionSchema = z.object({
+    type: z.literal('set_variable'),
+    target: z.string().min(1),
+    // Strings are expressions (string literals are quoted inside them)
+    value: z.union([
+        z.boolean(),
+        z.array(z.number()),
+        z.array(z.string()),
+        NumericValueSchema,
+    ]),
+});
+
+const MultiplyActionSchema = z.object({
+    type: z.literal('multiply'),
+    target: z.string().min(1),
+    value: NumericValueSchema,
+});
+
+const ClampActionSchema = z.object({
+    type: z.literal('clamp'),
+    target: z.string().min(1),
+    min: NumericValueSchema.optional(),
+    max: NumericValueSchema.optional(),
+});
+
+const RandomRangeActionSchema = z.object({
+    type: z.literal('random_range'),
+    target: z.string().min(1),
+    min: NumericValueSchema,
+    max: NumericValueSchema,
+    integer: z.boolean().optional(),
+});
+
+const CopyVariableActionSchema = z.object({
+    type: z.literal('copy_variable'),
+    target: z.string().min(1),
+    from: z.string().min(1),
 });
 
 const DestroyNodeActionSchema = z.object({
@@ -60,25 +188,163 @@ const TransitionSceneActionSchema = z.object({
     persistVars: z.array(z.string()).optional(),
 });
 
+const SpawnNodeActionSchema = z.object({
+    type: z.literal('spawn_node'),
+    prefab: z.string().min(1).optional(),
+    // Lazy: the node template schema is defined further down
+    node: z.lazy(() => NodeTemplateSchema).optional(),
+    position: z.tuple([z.number(), z.number(), z.number()]).optional(),
+    relativeTo: z.string().min(1).optional(),
+    idPrefix: z.string().min(1).optional(),
+});
+
+const StartTimerActionSchema = z.object({
+    type: z.literal('start_timer'),
+    timer: z.string().min(1),
+    event: z.string().min(1).optional(),
+    duration: z.number().positive().optional(),
+    repeat: z.boolean().optional(),
+    times: z.number().int().positive().optional(),
+});
+
+const CancelTimerActionSchema = z.object({
+    type: z.literal('cancel_timer'),
+    timer: z.string().min(1),
+});
+
+const EasingSchema = z.enum(['linear', 'easeIn', 'easeOut', 'easeInOut']);
+
+const NodePropertyValueSchema = z.union([
+    z.tuple([z.number(), z.number(), z.number()]),
+    z.string().min(1),
+]);
+
+const SetNodePropertyActionSchema = z.object({
+    type: z.literal('set_node_property'),
+    target: z.string().min(1),
+    property: z.enum(['position', 'rotation', 'scale', 'color', 'texture']),
+    value: NodePropertyValueSchema,
+});
+
+const TweenNodePropertyActionSchema = z.object({
+    type: z.literal('tween_node_property'),
+    target: z.string().min(1),
+    property: z.enum(['position', 'rotation', 'scale', 'color']),
+    to: NodePropertyValueSchema,
+    duration: z.number().positive(),
+    easing: EasingSchema.optional(),
+});
+
+const PlayAnimationActionSchema = z.object({
+    type: z.literal('play_animation'),
+    animation: z.string().min(1),
+    target: z.string().min(1).optional(),
+});
+
+const StopAnimationActionSchema = z.object({
+    type: z.literal('stop_animation'),
+    animation: z.string().min(1),
+    target: z.string().min(1).optional(),
+});
+
+const PlayClipActionSchema = z.object({
+    type: z.literal('play_clip'),
+    target: z.string().min(1),
+    clip: z.string().min(1),
+    loop: z.boolean().optional(),
+    speed: z.number().positive().optional(),
+});
+
+const StopClipActionSchema = z.object({
+    type: z.literal('stop_clip'),
+    target: z.string().min(1),
+});
+
+const PlaySoundActionSchema = z.object({
+    type: z.literal('play_sound'),
+    sound: z.string().min(1).optional(),
+    target: z.string().min(1).optional(),
+    volume: z.number().min(0).max(1).optional(),
+});
+
+const StopSoundActionSchema = z.object({
+    type: z.literal('stop_sound'),
+    sound: z.string().min(1).optional(),
+    target: z.string().min(1).optional(),
+});
+
+/** Why a value doesn't fit the node property (or animation track) it is meant for, if it doesn't. */
+function getPropertyValueError(
+    property: NodeProperty | AnimatableProperty,
+    value: [number, number, number] | string | number,
+): string | null {
+    if (property === 'intensity') {
+        return typeof value === 'number' && value >= 0 ? null : 'intensity needs a number of at least 0';
+    }
+    if (property === 'color') {
+        return typeof value === 'string' && /^#[0-9A-Fa-f]{6}$/.test(value) ? null : 'color needs a hex string like "#ff0000"';
+    }
+    if (property === 'texture') {
+        return typeof value === 'string' ? null : 'texture needs a texture key from /assets';
+    }
+    if (!Array.isArray(value)) return `${property} needs an [x, y, z] array`;
+    if (property === 'scale' && value.some((v) => v <= 0)) return 'scale values must be positive';
+    return null;
+}
+
 const ActionSchema = z.discriminatedUnion('type', [
     IncrementActionSchema,
+    SetVariableActionSchema,
+    MultiplyActionSchema,
+    ClampActionSchema,
+    RandomRangeActionSchema,
+    CopyVariableActionSchema,
     DestroyNodeActionSchema,
     TransitionSceneActionSchema,
-]);
+    SpawnNodeActionSchema,
+    StartTimerActionSchema,
+    CancelTimerActionSchema,
+    SetNodePropertyActionSchema,
+    TweenNodePropertyActionSchema,
+    PlayAnimationActionSchema,
+    StopAnimationActionSchema,
+    PlayClipActionSchema,
+    StopClipActionSchema,
+    PlaySoundActionSchema,
+    StopSoundActionSchema,
+]).superRefine((action, ctx) => {
+    if (action.type !== 'set_node_property' && action.type !== 'tween_node_property') return;
+    const field = action.type === 'set_node_property' ? 'value' : 'to';
+    const error = getPropertyValueError(action.property, action.type === 'set_node_property' ? action.value : action.to);
+    if (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: [field] });
+    }
+});
 
 // ── Subscription Schema ──────────────────────────────────────────────────────
 
 const SubscriptionSchema = z.object({
     id: z.string().min(1),
     on: z.string().min(1),
-    when: z.string().optional(),
+    when: z
+        .string()
+        .superRefine((expr, ctx) => {
+            const error = getConditionError(expr);
+            if (error) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: `Invalid condition expression: ${error}`,
+                });
+            }
+        })
+        .optional(),
     actions: z.array(ActionSchema),
 });
 
 // ── Asset Schema ─────────────────────────────────────────────────────────────
 
 const AssetDefinitionSchema = z.object({
-    type: z.enum(['glb', 'texture']),
+    type: z.enum(['glb', 'texture', 'audio']),
     url: z.string().refine(
         (val) => {
             // Accept HTTP(S) URLs, data URLs, and relative URLs (starting with /)
@@ -100,25 +366,119 @@ const AssetDefinitionSchema = z.object({
         .optional(),
 });
 
+// ── Material Schema ──────────────────────────────────────────────────────────
+
+const unitInterval = z.number().min(0).max(1);
+const hexColor = z.string().regex(/^#[0-9A-Fa-f]{6}$/);
+
+const MaterialDefinitionSchema = z.object({
+    baseColor: hexColor.optional(),
+    baseColorTexture: z.string().min(1).optional(),
+    metallic: unitInterval.optional(),
+    roughness: unitInterval.optional(),
+    emissive: hexColor.optional(),
+    emissiveIntensity: z.number().min(0).optional(),
+    alpha: unitInterval.optional(),
+    normalTexture: z.string().min(1).optional(),
+    metallicRoughnessTexture: z.string().min(1).optional(),
+    aoTexture: z.string().min(1).optional(),
+    uvScale: z.tuple([z.number().positive(), z.number().positive()]).optional(),
+});
+
 // ── Scene Node Schema ────────────────────────────────────────────────────────
 
 const SceneNodeSchema = z.object({
     id: z.string().min(1),
-    type: z.enum(['mesh', 'light']),
+    type: z.enum(['mesh', 'light', 'camera']),
+    parent: z.string().min(1).optional(),
     primitive: z.enum(['box', 'sphere', 'ground']).optional(),
     asset: z.string().optional(),
+    animationClip: z.string().min(1).optional(),
+    animationAutoPlay: z.boolean().optional(),
+    animationLoop: z.boolean().optional(),
+    animationSpeed: z.number().positive().optional(),
     position: z.tuple([z.number(), z.number(), z.number()]),
+    rotation: z
+        .union([
+            z.tuple([z.number(), z.number(), z.number()]),
+            z.tuple([z.number(), z.number(), z.number(), z.number()]),
+        ])
+        .optional(),
+    scale: z.tuple([z.number().positive(), z.number().positive(), z.number().positive()]).optional(),
     color: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional(),
     size: z.number().positive().optional(),
     intensity: z.number().min(0).max(10).optional(),
+    lightType: z.enum(['hemispheric', 'directional', 'point', 'spot']).optional(),
+    direction: z
+        .tuple([z.number(), z.number(), z.number()])
+        .refine((d) => d.some((v) => v !== 0), { message: 'Direction must not be [0, 0, 0]' })
+        .optional(),
+    range: z.number().positive().optional(),
+    coneAngle: z.number().gt(0).max(180).optional(),
+    cameraType: z.enum(['free', 'follow', 'orbit', 'fixed']).optional(),
+    fov: z.number().gt(0).lt(180).optional(),
+    target: z.union([z.string().min(1), z.tuple([z.number(), z.number(), z.number()])]).optional(),
     texture: z.string().optional(),
+    material: z.union([z.string().min(1), MaterialDefinitionSchema]).optional(),
+    castShadows: z.boolean().optional(),
+    receiveShadows: z.boolean().optional(),
+    tags: z.array(z.string().min(1)).optional(),
     components: z.array(ComponentSchema).optional(),
 });
 
+const NodeTemplateSchema = SceneNodeSchema.omit({ id: true, position: true });
+
 // ── Scene Data Schema ────────────────────────────────────────────────────────
 
+const TimerDefinitionSchema = z.object({
+    event: z.string().min(1),
+    duration: z.number().positive(),
+    repeat: z.boolean().optional(),
+    times: z.number().int().positive().optional(),
+    autoStart: z.boolean().optional(),
+});
+
+const AnimationTrackSchema = z.object({
+    property: z.enum(['position', 'rotation', 'scale', 'color', 'intensity']),
+    keyframes: z.array(z.object({
+        time: z.number().min(0),
+        value: z.union([z.tuple([z.number(), z.number(), z.number()]), z.string().min(1), z.number()]),
+    })).min(1),
+    easing: EasingSchema.optional(),
+}).superRefine((track, ctx) => {
+    track.keyframes.forEach((keyframe, i) => {
+        const error = getPropertyValueError(track.property, keyframe.value);
+        if (error) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ['keyframes', i, 'value'] });
+        }
+        if (i > 0 && keyframe.time < track.keyframes[i - 1]!.time) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: 'Keyframes must be in ascending time order',
+                path: ['keyframes', i, 'time'],
+            });
+        }
+    });
+});
+
+const AnimationDefinitionSchema = z.object({
+    target: z.string().min(1),
+    tracks: z.array(AnimationTrackSchema).min(1),
+    loop: z.enum(['once', 'loop', 'pingPong']).optional(),
+    speed: z.number().positive().optional(),
+    autoPlay: z.boolean().optional(),
+    onComplete: z.string().min(1).optional(),
+}).refine(
+    (animation) => (animation.loop ?? 'once') === 'once'
+        || animation.tracks.some((track) => track.keyframes.some((keyframe) => keyframe.time > 0)),
+    { message: 'A looping animation needs a keyframe after time 0', path: ['loop'] },
+);
+
 const SceneDataSchema = z.object({
-    variables: z.record(z.string(), z.number()).optional(),
+    variables: z.record(z.string(), VariableValueSchema).optional(),
+    timers: z.record(z.string(), TimerDefinitionSchema).optional(),
+    animations: z.record(z.string(), AnimationDefinitionSchema).optional(),
+    activeCamera: z.string().min(1).optional(),
     nodes: z.array(SceneNodeSchema),
     subscriptions: z.array(SubscriptionSchema).optional(),
 });
@@ -129,14 +489,507 @@ export const GameDocumentSchema = z.object({
     activeScene: z.string().min(1),
     scenes: z.record(z.string(), SceneDataSchema),
     assets: z.record(z.string(), AssetDefinitionSchema).optional(),
+    materials: z.record(z.string(), MaterialDefinitionSchema).optional(),
+    prefabs: z.record(z.string(), NodeTemplateSchema).optional(),
+    globals: z.record(z.string(), VariableValueSchema).optional(),
 });
 
+// ── Semantic Checks ──────────────────────────────────────────────────────────
+
+/** A single validation problem, located by an RFC 6901 JSON Pointer. */
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+/** Build a JSON Pointer from path segments, escaping `~` and `/`. */
+export function toJsonPointer(segments: (string | number)[]): string {
+    if (segments.length === 0) return '';
+    return '/' + segments
+        .map((seg) => String(seg).replace(/~/g, '~0').replace(/\//g, '~1'))
+        .join('/');
+}
+
+/**
+ * Events that something in the scene can publish through the EventBus,
+ * including components on nodes the scene's subscriptions may spawn.
+ * Physics bodies report `collision.enter` / `collision.exit`; timers
+ * (scene timers and start_timer actions) and animations fire their own events.
+ */
+export function getEmittedEvents(
+    scene: GameDocument['scenes'][string],
+    prefabs: GameDocument['prefabs'] = {},
+): Set<string> {
+    const events = new Set<string>(Object.values(scene.timers ?? {}).map((timer) => timer.event));
+    for (const animation of Object.values(scene.animations ?? {})) {
+        if (animation.onComplete) events.add(animation.onComplete);
+    }
+
+    const templates: { components?: Component[] }[] = [...scene.nodes];
+    for (const sub of scene.subscriptions ?? []) {
+        for (const action of sub.actions) {
+            if (action.type === 'start_timer' && action.event) events.add(action.event);
+            if (action.type !== 'spawn_node') continue;
+            const template = action.prefab ? prefabs[action.prefab] : action.node;
+            if (template) templates.push(template);
+        }
+    }
+
+    for (const node of templates) {
+        for (const component of node.components ?? []) {
+            if ('event' in component) events.add(component.event);
+            if (component.type === 'physics') {
+                events.add('collision.enter');
+                events.add('collision.exit');
+            }
+            if (component.type === 'trigger') {
+                for (const event of [component.onEnter, component.onExit, component.onStay]) {
+                    if (event) events.add(event);
+                }
+            }
+        }
+    }
+    return events;
+}
+
+/**
+ * Cross-reference checks that a shape-only Zod schema cannot express:
+ * unique node ids, parent links, cameras, conflicting components, scene,
+ * asset, material, prefab, timer and animation references, variable types, and
+ * subscriptions listening for events nothing emits. Assumes the document
+ * is already shape-valid.
+ */
+export function validateSemantics(doc: GameDocument): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const assets = doc.assets ?? {};
+
+    // Material library textures
+    for (const [materialId, material] of Object.entries(doc.materials ?? {})) {
+        issues.push(...validateMaterialTextures(material, ['materials', materialId], assets));
+    }
+
+    if (!doc.scenes[doc.activeScene]) {
+        issues.push({
+            path: '/activeScene',
+            message: `Scene "${doc.activeScene}" does not exist. Available scenes: ${Object.keys(doc.scenes).join(', ')}`,
+        });
+    }
+
+    // Globals as actions address them: `global.<name>`
+    const globals = Object.fromEntries(
+        Object.entries(doc.globals ?? {}).map(([name, value]) => [GLOBAL_PREFIX + name, value]),
+    );
+
+    for (const [sceneId, scene] of Object.entries(doc.scenes)) {
+        // Scene variables can't shadow globals
+        for (const name of Object.keys(scene.variables ?? {})) {
+            if (name.startsWith(GLOBAL_PREFIX)) {
+                issues.push({
+                    path: toJsonPointer(['scenes', sceneId, 'variables', name]),
+                    message: `Scene variable "${name}" uses the reserved "${GLOBAL_PREFIX}" prefix; declare it in /globals instead`,
+                });
+            }
+        }
+
+        // Unique node ids
+        const firstIndex = new Map<string, number>();
+        scene.nodes.forEach((node, i) => {
+            const previous = firstIndex.get(node.id);
+            if (previous !== undefined) {
+                issues.push({
+                    path: toJsonPointer(['scenes', sceneId, 'nodes', i, 'id']),
+                    message: `Duplicate node id "${node.id}" (already used at ${toJsonPointer(['scenes', sceneId, 'nodes', previous])})`,
+                });
+            } else {
+                firstIndex.set(node.id, i);
+            }
+
+            // Asset references must resolve to the right kind of manifest entry
+            if (node.asset !== undefined) {
+                const asset = assets[node.asset];
+                if (!asset) {
+                    issues.push({
+                        path: toJsonPointer(['scenes', sceneId, 'nodes', i, 'asset']),
+                        message: `Asset "${node.asset}" is not in the asset manifest (/assets)`,
+                    });
+                } else if (asset.type !== 'glb') {
+                    issues.push({
+                        path: toJsonPointer(['scenes', sceneId, 'nodes', i, 'asset']),
+                        message: `Asset "${node.asset}" is a ${asset.type}, expected a glb model`,
+                    });
+                }
+            }
+            // Animation clips come with a GLB model
+            if (node.animationClip !== undefined && node.asset === undefined) {
+                issues.push({
+                    path: toJsonPointer(['scenes', sceneId, 'nodes', i, 'animationClip']),
+                    message: `Node "${node.id}" has no asset, so it has no animation clips`,
+                });
+            }
+            if (typeof node.material === 'string' && !doc.materials?.[node.material]) {
+                issues.push({
+                    path: toJsonPointer(['scenes', sceneId, 'nodes', i, 'material']),
+                    message: `Material "${node.material}" is not in the material library (/materials)`,
+                });
+            } else if (typeof node.material === 'object') {
+                issues.push(...validateMaterialTextures(node.material, ['scenes', sceneId, 'nodes', i, 'material'], assets));
+            }
+            if (node.texture !== undefined) {
+                const asset = assets[node.texture];
+                if (!asset) {
+                    issues.push({
+                        path: toJsonPointer(['scenes', sceneId, 'nodes', i, 'texture']),
+                        message: `Texture "${node.texture}" is not in the asset manifest (/assets)`,
+                    });
+                } else if (asset.type !== 'texture') {
+                    issues.push({
+                        path: toJsonPointer(['scenes', sceneId, 'nodes', i, 'texture']),
+                        message: `Asset "${node.texture}" is a ${asset.type}, expected a texture`,
+                    });
+                }
+            }
+            node.components?.forEach((component, k) => {
+                if (component.type !== 'audioSource') return;
+                const error = getAudioAssetError(component.sound, assets);
+                if (error) {
+                    issues.push({ path: toJsonPointer(['scenes', sceneId, 'nodes', i, 'components', k, 'sound']), message: error });
+                }
+            });
+        });
+
+        // The play camera must be a camera node, and camera targets must exist
+        if (scene.activeCamera !== undefined) {
+            const camera = scene.nodes.find((node) => node.id === scene.activeCamera);
+            if (camera?.type !== 'camera') {
+                issues.push({
+                    path: toJsonPointer(['scenes', sceneId, 'activeCamera']),
+                    message: camera
+                        ? `Node "${scene.activeCamera}" is a ${camera.type}, not a camera`
+                        : `Camera node "${scene.activeCamera}" does not exist in scene "${sceneId}"`,
+                });
+            }
+        }
+        scene.nodes.forEach((node, i) => {
+            if (node.type !== 'camera' || typeof node.target !== 'string') return;
+            if (node.target === node.id || !firstIndex.has(node.target)) {
+                issues.push({
+                    path: toJsonPointer(['scenes', sceneId, 'nodes', i, 'target']),
+                    message: `Camera target "${node.target}" is not another node in scene "${sceneId}"`,
+                });
+            }
+        });
+
+        // Only directional, point and spot lights have a shadow map
+        scene.nodes.forEach((node, i) => {
+            if (node.type === 'light' && node.castShadows && (node.lightType ?? 'hemispheric') === 'hemispheric') {
+                issues.push({
+                    path: toJsonPointer(['scenes', sceneId, 'nodes', i, 'castShadows']),
+                    message: `Hemispheric light "${node.id}" cannot cast shadows; use lightType "directional", "point" or "spot"`,
+                });
+            }
+        });
+
+        // A player controller and a dynamic body would fight over the node
+        scene.nodes.forEach((node, i) => {
+            const components = node.components ?? [];
+            const controller = components.findIndex((c) => c.type === 'playerController');
+            if (controller >= 0 && components.some((c) => c.type === 'physics' && c.body === 'dynamic')) {
+                issues.push({
+                    path: toJsonPointer(['scenes', sceneId, 'nodes', i, 'components', controller]),
+                    message: `Node "${node.id}" cannot combine a playerController with a dynamic physics body`,
+                });
+            }
+        });
+
+        // Animations must target a node that has the animated properties
+        for (const [animationId, animation] of Object.entries(scene.animations ?? {})) {
+            const target = scene.nodes.find((node) => node.id === animation.target);
+            if (!target) {
+                issues.push({
+                    path: toJsonPointer(['scenes', sceneId, 'animations', animationId, 'target']),
+                    message: `Animation target "${animation.target}" does not exist in scene "${sceneId}"`,
+                });
+                continue;
+            }
+            animation.tracks.forEach((track, k) => {
+                const error = getTrackTargetError(track.property, target);
+                if (error) {
+                    issues.push({
+                        path: toJsonPointer(['scenes', sceneId, 'animations', animationId, 'tracks', k, 'property']),
+                        message: error,
+                    });
+                }
+            });
+        }
+
+        // Parents must exist in the same scene and must not form a cycle
+        const parentOf = new Map(scene.nodes.map((node) => [node.id, node.parent]));
+        scene.nodes.forEach((node, i) => {
+            if (node.parent === undefined) return;
+            const path = toJsonPointer(['scenes', sceneId, 'nodes', i, 'parent']);
+
+            if (!parentOf.has(node.parent)) {
+                issues.push({ path, message: `Parent node "${node.parent}" does not exist in scene "${sceneId}"` });
+                return;
+            }
+
+            // Bodies are simulated in world space
+            if (node.components?.some((c) => c.type === 'physics')) {
+                issues.push({ path, message: `Node "${node.id}" has a physics component and cannot have a parent` });
+            }
+
+            const chain = [node.id];
+            for (let id: string | undefined = node.parent; id !== undefined; id = parentOf.get(id)) {
+                if (id === node.id) {
+                    issues.push({ path, message: `Parent chain forms a cycle: ${[...chain, id].join(' → ')}` });
+                    return;
+                }
+                if (chain.includes(id)) return; // A cycle further up, reported by its own members
+                chain.push(id);
+            }
+        });
+
+        // Subscriptions: events must be emitted, transitions must target real scenes
+        const emitted = getEmittedEvents(scene, doc.prefabs);
+        const timerIds = new Set(Object.keys(scene.timers ?? {}));
+        for (const sub of scene.subscriptions ?? []) {
+            for (const action of sub.actions) {
+                if (action.type === 'start_timer') timerIds.add(action.timer);
+            }
+        }
+        (scene.subscriptions ?? []).forEach((sub, i) => {
+            if (!emitted.has(sub.on)) {
+                issues.push({
+                    path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'on']),
+                    message: `No component in scene "${sceneId}" emits "${sub.on}". Emitted events: ${[...emitted].join(', ') || '(none)'}`,
+                });
+            }
+
+            sub.actions.forEach((action, j) => {
+                if (action.type === 'transition_scene' && !doc.scenes[action.to]) {
+                    issues.push({
+                        path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j, 'to']),
+                        message: `Scene "${action.to}" does not exist`,
+                    });
+                }
+                if (action.type === 'spawn_node') {
+                    if (action.prefab !== undefined && action.node !== undefined) {
+                        issues.push({
+                            path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j]),
+                            message: 'spawn_node takes either "prefab" or "node", not both',
+                        });
+                    } else if (action.prefab === undefined && action.node === undefined) {
+                        issues.push({
+                            path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j]),
+                            message: 'spawn_node needs a "prefab" key or an inline "node" definition',
+                        });
+                    } else if (action.prefab !== undefined && !doc.prefabs?.[action.prefab]) {
+                        issues.push({
+                            path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j, 'prefab']),
+                            message: `Prefab "${action.prefab}" is not in the prefab library (/prefabs)`,
+                        });
+                    } else if (action.relativeTo !== undefined && (action.node ?? doc.prefabs?.[action.prefab!])?.parent) {
+                        // The anchor's world position would be read in the parent's local space
+                        issues.push({
+                            path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j, 'relativeTo']),
+                            message: 'spawn_node cannot use "relativeTo" with a template that has a parent',
+                        });
+                    }
+                }
+                // Globals must be declared before actions can use them
+                const variableRefs: ['target' | 'from', string][] = [];
+                if (isVariableAction(action)) variableRefs.push(['target', action.target]);
+                if (action.type === 'copy_variable') variableRefs.push(['from', action.from]);
+                for (const [field, key] of variableRefs) {
+                    if (key.startsWith(GLOBAL_PREFIX) && globals[key] === undefined) {
+                        issues.push({
+                            path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j, field]),
+                            message: `Global "${key.slice(GLOBAL_PREFIX.length)}" is not declared in /globals`,
+                        });
+                    }
+                }
+                // Actions must respect the types of the declared variables and globals
+                const typeIssue = getVariableTypeIssue(action, { ...scene.variables, ...globals });
+                if (typeIssue) {
+                    issues.push({
+                        path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j, typeIssue.field]),
+                        message: typeIssue.message,
+                    });
+                }
+                if (action.type === 'clamp' && action.min === undefined && action.max === undefined) {
+                    issues.push({
+                        path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j]),
+                        message: 'clamp needs "min", "max" or both',
+                    });
+                }
+                if ((action.type === 'clamp' || action.type === 'random_range')
+                    && typeof action.min === 'number' && typeof action.max === 'number' && action.min > action.max) {
+                    issues.push({
+                        path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j, 'min']),
+                        message: `${action.type} min (${action.min}) is greater than max (${action.max})`,
+                    });
+                }
+                if (action.type === 'set_node_property' && action.property === 'texture'
+                    && typeof action.value === 'string' && assets[action.value]?.type !== 'texture') {
+                    issues.push({
+                        path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j, 'value']),
+                        message: `Texture "${action.value}" is not a texture in the asset manifest (/assets)`,
+                    });
+                }
+                // Ad-hoc timers (not in the scene's timers block) must be fully specified
+                if (action.type === 'start_timer' && !scene.timers?.[action.timer]) {
+                    const missing = (['event', 'duration'] as const).filter((field) => action[field] === undefined);
+                    if (missing.length > 0) {
+                        issues.push({
+                            path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j]),
+                            message: `Timer "${action.timer}" is not in the scene's timers block, so start_timer needs ${missing.map((f) => `"${f}"`).join(' and ')}`,
+                        });
+                    }
+                }
+                if ((action.type === 'play_animation' || action.type === 'stop_animation')
+                    && !scene.animations?.[action.animation]) {
+                    issues.push({
+                        path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j, 'animation']),
+                        message: `Animation "${action.animation}" is not in the animations block of scene "${sceneId}"`,
+                    });
+                }
+                // Spawned nodes aren't in the document, so only known nodes are checked
+                if (action.type === 'play_clip' || action.type === 'stop_clip') {
+                    const node = scene.nodes.find((n) => n.id === action.target);
+                    if (node && node.asset === undefined) {
+                        issues.push({
+                            path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j, 'target']),
+                            message: `Node "${node.id}" has no asset, so it has no animation clips`,
+                        });
+                    }
+                }
+                if (action.type === 'play_sound' || action.type === 'stop_sound') {
+                    if (action.sound === undefined && action.target === undefined) {
+                        issues.push({
+                            path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j]),
+                            message: `${action.type} needs a "sound", a "target" or both`,
+                        });
+                    }
+                    const error = action.sound !== undefined ? getAudioAssetError(action.sound, assets) : null;
+                    if (error) {
+                        issues.push({
+                            path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j, 'sound']),
+                            message: error,
+                        });
+                    }
+                }
+                // Without a sound, play_sound plays the target's audioSource
+                if (action.type === 'play_sound' && action.sound === undefined && action.target !== undefined) {
+                    const node = scene.nodes.find((n) => n.id === action.target);
+                    if (node && !node.components?.some((c) => c.type === 'audioSource')) {
+                        issues.push({
+                            path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j, 'target']),
+                            message: `Node "${node.id}" has no audioSource component; give it one or set "sound"`,
+                        });
+                    }
+                }
+                if (action.type === 'cancel_timer' && !timerIds.has(action.timer)) {
+                    issues.push({
+                        path: toJsonPointer(['scenes', sceneId, 'subscriptions', i, 'actions', j, 'timer']),
+                        message: `Timer "${action.timer}" is never started in scene "${sceneId}"`,
+                    });
+                }
+            });
+        });
+    }
+
+    return issues;
+}
+
+/** Why a node can't be animated on a track's property, if it can't. */
+function getTrackTargetError(property: AnimatableProperty, node: SceneNode): string | null {
+    if (node.type === 'camera') return `Camera "${node.id}" cannot be animated`;
+    if (property === 'intensity' && node.type !== 'light') return `Only lights have an intensity, but "${node.id}" is a ${node.type}`;
+    if ((property === 'rotation' || property === 'scale') && node.type !== 'mesh') {
+        return `Only meshes can be animated on ${property}, but "${node.id}" is a ${node.type}`;
+    }
+    return null;
+}
+
+const NUMERIC_ACTIONS = new Set<Action['type']>(['increment', 'multiply', 'clamp', 'random_range']);
+
+/** Actions whose `target` is a variable (the others target nodes). */
+type VariableAction = Extract<Action, { type: 'increment' | 'set_variable' | 'multiply' | 'clamp' | 'random_range' | 'copy_variable' }>;
+
+const VARIABLE_ACTIONS = new Set<Action['type']>(['increment', 'set_variable', 'multiply', 'clamp', 'random_range', 'copy_variable']);
+
+function isVariableAction(action: Action): action is VariableAction {
+    return VARIABLE_ACTIONS.has(action.type);
+}
+
+/** Type clash between a variable action and the declared variables, if any. */
+function getVariableTypeIssue(
+    action: Action,
+    variables: Record<string, VariableValue>,
+): { field: string; message: string } | null {
+    if (!isVariableAction(action)) return null;
+    const declared = variables[action.target];
+    if (declared === undefined) return null;
+    const targetType = getVariableType(declared);
+
+    if (NUMERIC_ACTIONS.has(action.type) && targetType !== 'number') {
+        return { field: 'target', message: `${action.type} needs a number variable, but "${action.target}" is a ${targetType}` };
+    }
+    // String values are expressions, whose type is only known at runtime
+    if (action.type === 'set_variable' && typeof action.value !== 'string' && getVariableType(action.value) !== targetType) {
+        return { field: 'value', message: `"${action.target}" is a ${targetType}, but the value is a ${getVariableType(action.value)}` };
+    }
+    if (action.type === 'copy_variable' && variables[action.from] !== undefined) {
+        const sourceType = getVariableType(variables[action.from]!);
+        if (sourceType !== targetType) {
+            return { field: 'from', message: `Cannot copy ${sourceType} variable "${action.from}" into ${targetType} variable "${action.target}"` };
+        }
+    }
+    return null;
+}
+
+/** Texture maps of a material must name texture assets. */
+function validateMaterialTextures(
+    material: MaterialDefinition,
+    path: (string | number)[],
+    assets: NonNullable<GameDocument['assets']>,
+): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    for (const field of MATERIAL_TEXTURE_FIELDS) {
+        const key = material[field];
+        if (key === undefined) continue;
+
+        const asset = assets[key];
+        if (!asset) {
+            issues.push({
+                path: toJsonPointer([...path, field]),
+                message: `Texture "${key}" is not in the asset manifest (/assets)`,
+            });
+        } else if (asset.type !== 'texture') {
+            issues.push({
+                path: toJsonPointer([...path, field]),
+                message: `Asset "${key}" is a ${asset.type}, expected a texture`,
+            });
+        }
+    }
+    return issues;
+}
+
+/** Why a key doesn't name an audio asset, if it doesn't. */
+function getAudioAssetError(key: string, assets: NonNullable<GameDocument['assets']>): string | null {
+    const asset = assets[key];
+    if (!asset) return `Sound "${key}" is not in the asset manifest (/assets)`;
+    if (asset.type !== 'audio') return `Asset "${key}" is a ${asset.type}, expected audio`;
+    return null;
+}
+
 // ── Validation Helper ────────────────────────────────────────────────────────
 
 export interface ValidationResult {
     success: boolean;
     data?: GameDocument;
     error?: string;
+    issues?: ValidationIssue[];
 }
 
 /**
@@ -165,38 +1018,59 @@ export function validatePatches(
         };
     }
 
-    // Step 3: Validate the resulting document with Zod
-    const result = GameDocumentSchema.safeParse(clonedDoc);
+    // Step 3: Validate the resulting document
+    return validateDocument(clonedDoc);
+}
+
+/**
+ * Validates a whole document: Zod shape first, then cross-reference checks.
+ * Used for patches and before writing the document to disk.
+ */
+export function validateDocument(doc: unknown): ValidationResult {
+    const result = GameDocumentSchema.safeParse(doc);
 
     if (!result.success) {
-        // Format Zod errors into a readable string for the AI
-        const errorMessages = result.error.errors
-            .map((err) => {
-                const path = err.path.join('.');
-                return `- ${path}: ${err.message}`;
-            })
-            .join('\n');
+        const issues = result.error.errors.map((err) => ({
+            path: toJsonPointer(err.path),
+            message: err.message,
+        }));
 
         return {
             success: false,
-            error: `Validation failed:\n${errorMessages}\n\nThe patches would create an invalid game state. Please check:\n- Node IDs are unique and non-empty\n- Colors are valid hex strings (e.g., "#ff0000")\n- Positions are [x, y, z] number arrays\n- Scene references exist in the scenes object\n- All required fields are present`,
+            issues,
+            error: `Validation failed:\n${formatIssues(issues)}\n\nThis would create an invalid game state. Please check:\n- Node IDs are unique and non-empty\n- Colors are valid hex strings (e.g., "#ff0000")\n- Positions are [x, y, z] number arrays\n- Scene references exist in the scenes object\n- All required fields are present`,
+        };
+    }
+
+    // Cross-reference checks on the shape-valid document
+    const data = result.data as GameDocument;
+    const issues = validateSemantics(data);
+
+    if (issues.length > 0) {
+        return {
+            success: false,
+            issues,
+            error: `Validation failed:\n${formatIssues(issues)}\n\nThis would create an inconsistent game state. Fix the values at the JSON Pointer paths above, e.g.:\n- Give every node in a scene a unique id\n- Add missing assets to /assets before referencing them\n- Add a component that emits the event before subscribing to it`,
         };
     }
 
-    // Step 4: Return the validated document
     return {
         success: true,
-        data: result.data as GameDocument,
+        data,
     };
 }
 
+function formatIssues(issues: ValidationIssue[]): string {
+    return issues.map((issue) => `- ${issue.path || '/'}: ${issue.message}`).join('\n');
+}
+
 /**
  * Format validation errors for AI consumption.
  * Returns a concise error message that helps the AI self-correct.
  */
 export function formatValidationError(error: z.ZodError): string {
     const issues = error.errors.map((err) => {
-        const path = err.path.length > 0 ? err.path.join('.') : 'root';
+        const path = err.path.length > 0 ? toJsonPointer(err.path) : 'root';
         return `  • ${path}: ${err.message}`;
     });
 
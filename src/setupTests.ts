@@ -21,47 +21,219 @@ Object.defineProperty(window, 'matchMedia', {
 
 // Mock Babylon.js Core to prevent WebGL context issues in JSDOM
 vi.mock('@babylonjs/core', async () => {
+    class Vector3 {
+        constructor(public x: number, public y: number, public z: number) { }
+        static Zero() { return new this(0, 0, 0); }
+        set(x: number, y: number, z: number) { this.x = x; this.y = y; this.z = z; return this; }
+        setAll(v: number) { return this.set(v, v, v); }
+        clone() { return new Vector3(this.x, this.y, this.z); }
+        copyFrom(other: Vector3) { return this.set(other.x, other.y, other.z); }
+        add(other: Vector3) { return new Vector3(this.x + other.x, this.y + other.y, this.z + other.z); }
+        subtract(other: Vector3) { return new Vector3(this.x - other.x, this.y - other.y, this.z - other.z); }
+    }
+
+    class Quaternion {
+        constructor(public x = 0, public y = 0, public z = 0, public w = 1) { }
+        clone() { return new Quaternion(this.x, this.y, this.z, this.w); }
+        copyFromFloats(x: number, y: number, z: number, w: number) { this.x = x; this.y = y; this.z = z; this.w = w; return this; }
+    }
+
+    class MockLight {
+        intensity: number = 1;
+        diffuse: unknown = null;
+        range = Number.MAX_VALUE;
+        parent: unknown = null;
+        dispose = vi.fn();
+    }
+
+    class MockCamera {
+        position = Vector3.Zero();
+        fov = 0.8;
+        parent: unknown = null;
+        setTarget = vi.fn();
+        getDirection = vi.fn(() => new Vector3(0, 0, 1));
+        attachControl = vi.fn();
+        detachControl = vi.fn();
+        dispose = vi.fn();
+    }
+
+    class MockSound {
+        /** Every sound created, so tests can mark them loaded and inspect them */
+        static instances: MockSound[] = [];
+        play = vi.fn();
+        stop = vi.fn();
+        dispose = vi.fn();
+        attachToMesh = vi.fn();
+        onEndedObservable = { add: vi.fn() };
+        constructor(
+            public name: string,
+            public url: string,
+            scene: unknown,
+            public readyToPlayCallback: () => void,
+            public options: Record<string, unknown>,
+        ) {
+            MockSound.instances.push(this);
+        }
+    }
+
+    const createMockMesh = () => ({
+        position: Vector3.Zero(),
+        rotation: Vector3.Zero(),
+        rotationQuaternion: null,
+        scaling: new Vector3(1, 1, 1),
+        parent: null,
+        receiveShadows: false,
+        getClassName: () => 'Mesh',
+        // Parents only translate their children
+        getAbsolutePosition(): Vector3 {
+            const parent = this.parent as { getAbsolutePosition(): Vector3 } | null;
+            return parent ? this.position.add(parent.getAbsolutePosition()) : this.position;
+        },
+        setAbsolutePosition(position: Vector3) {
+            const parent = this.parent as { getAbsolutePosition(): Vector3 } | null;
+            this.position.copyFrom(parent ? position.subtract(parent.getAbsolutePosition()) : position);
+        },
+        // Unit-sized mesh, scaled around its world position
+        getHierarchyBoundingVectors() {
+            const { scaling: s } = this;
+            const p = this.getAbsolutePosition();
+            return {
+                min: new Vector3(p.x - s.x / 2, p.y - s.y / 2, p.z - s.z / 2),
+                max: new Vector3(p.x + s.x / 2, p.y + s.y / 2, p.z + s.z / 2),
+            };
+        },
+        rotate: vi.fn(),
+        dispose: vi.fn(),
+    });
+
     return {
         Engine: class {
             constructor() { }
             runRenderLoop(cb: () => void) { }
             stopRenderLoop() { }
+            getDeltaTime() { return 16; }
             resize() { }
             dispose() { }
         },
         Scene: class {
+            materials: { name: string }[] = [];
+            activeCamera: unknown = null;
             constructor() { }
             dispose() { }
-            getMaterialByName() { return null; }
+            getMaterialByName(name: string) { return this.materials.find((m) => m.name === name) ?? null; }
+            beginDirectAnimation = vi.fn(() => ({ stop: vi.fn() }));
+        },
+        Vector3,
+        Quaternion,
+        TransformNode: class {
+            position = Vector3.Zero();
+            rotation = Vector3.Zero();
+            rotationQuaternion: Quaternion | null = null;
+            scaling = new Vector3(1, 1, 1);
+            constructor(public name: string) { }
+            getClassName() { return 'TransformNode'; }
+            getChildMeshes() { return []; }
+            // Stands in for a loaded model one unit across, scaled around its position
+            getHierarchyBoundingVectors() {
+                const { position: p, scaling: s } = this;
+                return {
+                    min: new Vector3(p.x - s.x / 2, p.y - s.y / 2, p.z - s.z / 2),
+                    max: new Vector3(p.x + s.x / 2, p.y + s.y / 2, p.z + s.z / 2),
+                };
+            }
+            dispose() { }
         },
-        Vector3: class {
-            constructor(public x: number, public y: number, public z: number) { }
-            static Zero() { return new this(0, 0, 0); }
+        ShadowGenerator: class {
+            usePercentageCloserFiltering = false;
+            private shadowMap = { renderList: [] as unknown[] };
+            constructor(public mapSize: number, public light: unknown) { }
+            getShadowMap() { return this.shadowMap; }
+            dispose = vi.fn();
         },
         Color3: class {
             static FromHexString() { return new this(); }
+            static White() { return new this(); }
+            static Black() { return new this(); }
         },
         MeshBuilder: {
-            CreateBox: vi.fn(() => ({ position: { x: 0, y: 0, z: 0, set(x: number, y: number, z: number) { this.x = x; this.y = y; this.z = z; } }, scaling: { x: 1, y: 1, z: 1, setAll(v: number) { this.x = v; this.y = v; this.z = v; } }, dispose: vi.fn() })),
-            CreateSphere: vi.fn(() => ({ position: { x: 0, y: 0, z: 0, set(x: number, y: number, z: number) { this.x = x; this.y = y; this.z = z; } }, scaling: { x: 1, y: 1, z: 1, setAll(v: number) { this.x = v; this.y = v; this.z = v; } }, dispose: vi.fn() })),
-            CreateGround: vi.fn(() => ({ position: { x: 0, y: 0, z: 0, set(x: number, y: number, z: number) { this.x = x; this.y = y; this.z = z; } }, scaling: { x: 1, y: 1, z: 1, setAll(v: number) { this.x = v; this.y = v; this.z = v; } }, dispose: vi.fn() })),
+            CreateBox: vi.fn(createMockMesh),
+            CreateSphere: vi.fn(createMockMesh),
+            CreateGround: vi.fn(createMockMesh),
         },
+        Space: { LOCAL: 0, WORLD: 1 },
+        // Loads never finish unless a test resolves one
+        SceneLoader: {
+            LoadAssetContainerAsync: vi.fn(() => new Promise(() => { })),
+        },
+        Animation: class {
+            static ANIMATIONTYPE_FLOAT = 0;
+            static ANIMATIONTYPE_VECTOR3 = 1;
+            static ANIMATIONTYPE_COLOR3 = 4;
+            static ANIMATIONLOOPMODE_CYCLE = 1;
+            static ANIMATIONLOOPMODE_CONSTANT = 2;
+            static ANIMATIONLOOPMODE_YOYO = 4;
+            keys: unknown[] = [];
+            easing: unknown = null;
+            constructor(
+                public name: string,
+                public targetProperty: string,
+                public framePerSecond: number,
+                public dataType: number,
+                public loopMode: number,
+            ) { }
+            setKeys(keys: unknown[]) { this.keys = keys; }
+            setEasingFunction(easing: unknown) { this.easing = easing; }
+        },
+        EasingFunction: { EASINGMODE_EASEIN: 0, EASINGMODE_EASEOUT: 1, EASINGMODE_EASEINOUT: 2 },
+        QuadraticEase: class {
+            mode = 0;
+            setEasingMode(mode: number) { this.mode = mode; }
+        },
+        Sound: MockSound,
         StandardMaterial: class {
             constructor() { }
             diffuseColor: any = null;
         },
-        HemisphericLight: class {
-            constructor() { }
-            intensity: number = 1;
+        PBRMaterial: class {
+            constructor(public name: string, scene: { materials: unknown[] }) { scene.materials.push(this); }
         },
-        ArcRotateCamera: class {
-            constructor() { }
-            setTarget() { }
-            attachControl() { }
+        Texture: class {
+            uScale = 1;
+            vScale = 1;
+            constructor(public url: string) { }
+            dispose = vi.fn();
+        },
+        HemisphericLight: class extends MockLight {
+            constructor(public name: string, public direction: Vector3) { super(); }
+        },
+        DirectionalLight: class extends MockLight {
+            position = Vector3.Zero();
+            constructor(public name: string, public direction: Vector3) { super(); }
+        },
+        PointLight: class extends MockLight {
+            constructor(public name: string, public position: Vector3) { super(); }
+        },
+        SpotLight: class extends MockLight {
+            constructor(public name: string, public position: Vector3, public direction: Vector3, public angle: number) { super(); }
+        },
+        ArcRotateCamera: class extends MockCamera {
+            target = Vector3.Zero();
+            constructor(public name: string, public alpha: number, public beta: number, public radius: number) { super(); }
+            setTarget = vi.fn((target: Vector3) => { this.target = target; });
+            setPosition = vi.fn((position: Vector3) => { this.position = position; });
+        },
+        UniversalCamera: class extends MockCamera {
+            rotation = Vector3.Zero();
+            constructor(public name: string, public position: Vector3) { super(); }
+        },
+        FollowCamera: class extends MockCamera {
+            lockedTarget: unknown = null;
+            constructor(public name: string, public position: Vector3) { super(); }
         },
         ActionManager: class {
             constructor() { }
             registerAction() { }
+            dispose = vi.fn();
         },
         ExecuteCodeAction: class {
             constructor() { }
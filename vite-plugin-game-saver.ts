@@ -0,0 +1,129 @@
+/**
+ * vite-plugin-game-saver.ts
+ *
+ * Vite plugin that adds a /api/game endpoint for loading and persisting
+ * the edited GameDocument to public/game.json during development.
+ *
+ *   GET /api/game → the document, with its content hash as the ETag
+ *   PUT /api/game → validate and write the document. Send the hash you
+ *                   loaded as If-Match; a stale hash gets 412 so edits made
+ *                   elsewhere (another tab, a text editor) aren't clobbered.
+ */
+
+import type { Plugin } from 'vite';
+import { readFile, writeFile, rename } from 'fs/promises';
+import { join } from 'path';
+import { createHash } from 'crypto';
+
+type ValidatorModule = typeof import('./src/schema/validator');
+
+function hashContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+export function gameSaverPlugin(): Plugin {
+    return {
+        name: 'game-saver',
+        config() {
+            // The validator is loaded with ssrLoadModule; bundle fast-json-patch's
+            // ESM build instead of letting Node import its CommonJS entry point
+            return { ssr: { noExternal: ['fast-json-patch'] } };
+        },
+        configureServer(server) {
+            const gamePath = join(process.cwd(), 'public', 'game.json');
+
+            server.middlewares.use(async (req, res, next) => {
+                if (req.url?.split('?')[0] !== '/api/game') {
+                    next();
+                    return;
+                }
+
+                res.setHeader('Content-Type', 'application/json');
+
+                if (req.method === 'GET') {
+                    try {
+                        const content = await readFile(gamePath, 'utf-8');
+                        res.statusCode = 200;
+                        res.setHeader('ETag', `"${hashContent(content)}"`);
+                        res.setHeader('Cache-Control', 'no-store');
+                        res.end(content);
+                    } catch (error) {
+                        console.error('[GameSaver] Failed to read game.json:', error);
+                        res.statusCode = 500;
+                        res.end(JSON.stringify({ error: String(error) }));
+                    }
+                    return;
+                }
+
+                if (req.method !== 'PUT') {
+                    res.statusCode = 405;
+                    res.end(JSON.stringify({ error: `Method ${req.method} not allowed` }));
+                    return;
+                }
+
+                let body = '';
+
+                req.on('data', (chunk) => {
+                    body += chunk.toString();
+                });
+
+                req.on('end', async () => {
+                    try {
+                        // Conflict detection: the client must have seen the current file
+                        const current = await readFile(gamePath, 'utf-8');
+                        const currentHash = hashContent(current);
+                        const ifMatch = req.headers['if-match']?.replace(/"/g, '');
+
+                        if (ifMatch && ifMatch !== currentHash) {
+                            res.statusCode = 412;
+                            res.end(
+                                JSON.stringify({
+                                    error: 'game.json changed on disk since it was loaded',
+                                    currentHash,
+                                })
+                            );
+                            return;
+                        }
+
+                        let doc: unknown;
+                        try {
+                            doc = JSON.parse(body);
+                        } catch {
+                            res.statusCode = 400;
+                            res.end(JSON.stringify({ error: 'Request body is not valid JSON' }));
+                            return;
+                        }
+
+                        // Load the app's validator through Vite so it shares the app's module graph
+                        const { validateDocument } = (await server.ssrLoadModule(
+                            '/src/schema/validator.ts'
+                        )) as ValidatorModule;
+                        const validation = validateDocument(doc);
+                        if (!validation.success) {
+                            res.statusCode = 422;
+                            res.end(JSON.stringify({ error: validation.error, issues: validation.issues }));
+                            return;
+                        }
+
+                        // Write via a temp file so a crash never leaves half a document
+                        const content = `${JSON.stringify(validation.data, null, 2)}\n`;
+                        const tempPath = `${gamePath}.tmp`;
+                        await writeFile(tempPath, content, 'utf-8');
+                        await rename(tempPath, gamePath);
+
+                        const hash = hashContent(content);
+                        console.log(`[GameSaver] ✅ Saved game.json (${hash.slice(0, 8)})`);
+
+                        res.statusCode = 200;
+                        res.setHeader('ETag', `"${hash}"`);
+                        res.end(JSON.stringify({ success: true, hash }));
+                    } catch (error) {
+                        console.error('[GameSaver] Failed to save game.json:', error);
+                        res.statusCode = 500;
+                        res.end(JSON.stringify({ error: String(error) }));
+                    }
+                });
+            });
+        },
+    };
+}
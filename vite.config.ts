@@ -1,9 +1,10 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { textureSaverPlugin } from './vite-plugin-texture-saver';
+import { gameSaverPlugin } from './vite-plugin-game-saver';
 
 export default defineConfig({
-    plugins: [react(), textureSaverPlugin()],
+    plugins: [react(), textureSaverPlugin(), gameSaverPlugin()],
     server: {
         open: true,
     },